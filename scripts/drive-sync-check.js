@@ -0,0 +1,222 @@
+// Run the Drive appDataFolder sync (src/utils/driveSync.ts) between two
+// simulated browsers against the fake Drive in server/fake-drive.js, and
+// check that changes travel both ways, that the newer copy wins when both
+// browsers edited a document, and that the losing copy is kept as a conflict.
+//
+//   npm run check:drive-sync
+//
+// The sync modules are loaded through Vite, fresh for every switch between
+// the browsers, each with its own localStorage.
+import assert from 'node:assert/strict';
+import { createServer as createViteServer } from 'vite';
+import { createFakeDrive } from '../server/fake-drive.js';
+
+// Browser APIs the storage and sync modules use, backed by a Map per browser
+class MemoryStorage {
+  constructor() {
+    this.items = new Map();
+  }
+  get length() {
+    return this.items.size;
+  }
+  key(index) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  getItem(key) {
+    return this.items.has(key) ? this.items.get(key) : null;
+  }
+  setItem(key, value) {
+    this.items.set(key, String(value));
+  }
+  removeItem(key) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+const setGlobal = (name, value) => {
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+};
+
+setGlobal('navigator', { userAgent: 'drive-sync-check', language: 'en' });
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const { server: driveServer, files } = createFakeDrive();
+await new Promise(resolve => driveServer.listen(0, 'localhost', resolve));
+const driveUrl = `http://localhost:${driveServer.address().port}`;
+
+const vite = await createViteServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  optimizeDeps: { noDiscovery: true, include: [] },
+  logLevel: 'error'
+});
+
+let current = null;
+
+// Make `browser` the one the modules run in, starting from what it stored
+const switchTo = async (browser) => {
+  if (current) {
+    await current.modules.secureStorage.flush();
+  }
+
+  setGlobal('localStorage', browser.storage);
+  setGlobal('window', Object.assign(new EventTarget(), { screen: { colorDepth: 24, width: 1920, height: 1080 } }));
+  vite.moduleGraph.invalidateAll();
+
+  const { secureStorage, loadSecureStorage } = await vite.ssrLoadModule('/src/utils/secureStorage.ts');
+  const driveSync = await vite.ssrLoadModule('/src/utils/driveSync.ts');
+  const { createDriveAppDataClient } = await vite.ssrLoadModule('/src/utils/driveClient.ts');
+  await loadSecureStorage();
+
+  const client = createDriveAppDataClient({
+    getAccessToken: async () => 'fake-token',
+    baseUrl: `${driveUrl}/drive/v3`,
+    uploadUrl: `${driveUrl}/upload/drive/v3`,
+    fetch
+  });
+
+  browser.modules = { secureStorage, driveSync, client };
+  current = browser;
+  return browser.modules;
+};
+
+const createBrowser = (name) => ({ name, storage: new MemoryStorage(), modules: null });
+
+const editTemplates = async (browser, templates) => {
+  const { secureStorage, driveSync } = await switchTo(browser);
+  secureStorage.setItem('message_templates', templates);
+  driveSync.markLocalChange('templates');
+  // Keep the edit times of the two browsers apart
+  await sleep(5);
+};
+
+const sync = async (browser) => {
+  const { driveSync, client } = await switchTo(browser);
+  const result = await driveSync.syncAll(client);
+  assert.deepEqual(result.errors, [], `${browser.name} synced without errors`);
+  return result;
+};
+
+const readTemplates = async (browser) => {
+  const { secureStorage } = await switchTo(browser);
+  return secureStorage.getItem('message_templates');
+};
+
+const checks = [
+  ['a change on one browser reaches the other', async () => {
+    const laptop = createBrowser('laptop');
+    const desktop = createBrowser('desktop');
+
+    await editTemplates(laptop, [{ id: 't1', name: 'Welcome' }]);
+    await sync(laptop);
+    assert.equal(files.size, 1, 'one file in the appDataFolder');
+
+    await sync(desktop);
+    assert.deepEqual(await readTemplates(desktop), [{ id: 't1', name: 'Welcome' }]);
+
+    await editTemplates(desktop, [{ id: 't1', name: 'Welcome back' }]);
+    await sync(desktop);
+    await sync(laptop);
+    assert.deepEqual(await readTemplates(laptop), [{ id: 't1', name: 'Welcome back' }]);
+    assert.equal(files.size, 1, 'the file is updated rather than created again');
+  }],
+
+  ['the newer edit wins and the older one is kept as a conflict', async () => {
+    const laptop = createBrowser('laptop');
+    const desktop = createBrowser('desktop');
+
+    await editTemplates(laptop, [{ id: 't1', name: 'Base' }]);
+    await sync(laptop);
+    await sync(desktop);
+
+    // Both edit before either syncs; the desktop edits last
+    await editTemplates(laptop, [{ id: 't1', name: 'Laptop edit' }]);
+    await editTemplates(desktop, [{ id: 't1', name: 'Desktop edit' }]);
+
+    const laptopResult = await sync(laptop);
+    assert.equal(laptopResult.conflicts.length, 0, 'the first browser to sync just uploads');
+
+    const desktopResult = await sync(desktop);
+    assert.equal(desktopResult.conflicts.length, 1, 'the second browser sees both copies changed');
+    const [conflict] = desktopResult.conflicts;
+    assert.equal(conflict.document, 'templates');
+    assert.equal(conflict.kept, 'local');
+    assert.deepEqual(conflict.discarded.message_templates, [{ id: 't1', name: 'Laptop edit' }]);
+    assert.deepEqual(await readTemplates(desktop), [{ id: 't1', name: 'Desktop edit' }]);
+
+    await sync(laptop);
+    assert.deepEqual(await readTemplates(laptop), [{ id: 't1', name: 'Desktop edit' }]);
+  }],
+
+  ['an older local edit loses to a newer remote one', async () => {
+    const laptop = createBrowser('laptop');
+    const desktop = createBrowser('desktop');
+
+    await editTemplates(laptop, [{ id: 't1', name: 'Base' }]);
+    await sync(laptop);
+    await sync(desktop);
+
+    // The laptop edits first but syncs last
+    await editTemplates(laptop, [{ id: 't1', name: 'Laptop edit' }]);
+    await editTemplates(desktop, [{ id: 't1', name: 'Desktop edit' }]);
+    await sync(desktop);
+
+    const result = await sync(laptop);
+    assert.equal(result.conflicts.length, 1);
+    assert.equal(result.conflicts[0].kept, 'remote');
+    assert.deepEqual(result.conflicts[0].discarded.message_templates, [{ id: 't1', name: 'Laptop edit' }]);
+    assert.deepEqual(await readTemplates(laptop), [{ id: 't1', name: 'Desktop edit' }]);
+
+    // Restoring the discarded copy makes it the newest edit
+    const { driveSync } = await switchTo(laptop);
+    driveSync.restoreSyncConflict(result.conflicts[0].id);
+    await sync(laptop);
+    await sync(desktop);
+    assert.deepEqual(await readTemplates(desktop), [{ id: 't1', name: 'Laptop edit' }]);
+  }],
+
+  ['a browser with data of its own loses to the copy already in Drive', async () => {
+    const laptop = createBrowser('laptop');
+    const desktop = createBrowser('desktop');
+
+    await editTemplates(laptop, [{ id: 't1', name: 'From the laptop' }]);
+    await sync(laptop);
+
+    // Written before the desktop ever synced, so it counts as changed at time 0
+    const { secureStorage } = await switchTo(desktop);
+    secureStorage.setItem('message_templates', [{ id: 't2', name: 'From the desktop' }]);
+
+    const result = await sync(desktop);
+    assert.equal(result.conflicts.length, 1);
+    assert.equal(result.conflicts[0].kept, 'remote');
+    assert.deepEqual(await readTemplates(desktop), [{ id: 't1', name: 'From the laptop' }]);
+  }]
+];
+
+let failed = 0;
+try {
+  for (const [name, check] of checks) {
+    files.clear();
+    try {
+      await check();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`not ok - ${name}`);
+      console.error(error);
+    }
+  }
+} finally {
+  if (current) {
+    await current.modules.secureStorage.flush();
+  }
+  await vite.close();
+  await new Promise(resolve => driveServer.close(resolve));
+}
+
+console.log(failed > 0 ? `${failed} of ${checks.length} checks failed` : `All ${checks.length} checks passed`);
+process.exitCode = failed > 0 ? 1 : 0;
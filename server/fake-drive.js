@@ -0,0 +1,187 @@
+// In-memory fake of the Drive v3 files endpoints used by the appDataFolder
+// sync, for trying the sync out without a Google account:
+//
+//   npm run fake-drive
+//
+// then point the app at it in public/config.json:
+//   "driveApiUrl": "http://localhost:8787/drive/v3",
+//   "driveUploadUrl": "http://localhost:8787/upload/drive/v3"
+//
+// Any bearer token is accepted and files are lost when it stops. Optional
+// settings:
+//   FAKE_DRIVE_PORT    port to listen on (8787)
+//   FAKE_DRIVE_ORIGIN  origin of the app allowed to call it (http://localhost:5173)
+import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
+
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      reject(new HttpError(413, 'Request too large'));
+      request.destroy();
+    }
+  });
+  request.on('end', () => resolve(body));
+  request.on('error', reject);
+});
+
+// Errors look like Drive's, so the client reports them the same way
+const sendError = (response, status, message) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const sendJson = (response, data) => {
+  response.writeHead(200, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(data));
+};
+
+// Create the fake without starting it. `files` is exposed so scripts can
+// look at or tamper with what was uploaded.
+export const createFakeDrive = ({ allowedOrigin = 'http://localhost:5173', pageSize = 100 } = {}) => {
+  const files = new Map();
+  let nextId = 1;
+  let lastModified = 0;
+
+  // Strictly increasing, as two writes in the same millisecond would
+  // otherwise get the same modifiedTime
+  const touch = () => {
+    lastModified = Math.max(lastModified + 1, Date.now());
+    return new Date(lastModified).toISOString();
+  };
+
+  const metadata = (file) => ({ id: file.id, name: file.name, modifiedTime: file.modifiedTime });
+
+  const findFile = (id) => {
+    const file = files.get(id);
+    if (!file) {
+      throw new HttpError(404, `File not found: ${id}`);
+    }
+    return file;
+  };
+
+  const listFiles = (url) => {
+    if (url.searchParams.get('spaces') !== 'appDataFolder') {
+      throw new HttpError(400, 'Only the appDataFolder space is supported');
+    }
+
+    const size = Math.min(Number(url.searchParams.get('pageSize')) || pageSize, pageSize);
+    const start = Number(url.searchParams.get('pageToken') || 0);
+    const all = Array.from(files.values());
+    const page = all.slice(start, start + size);
+    return {
+      files: page.map(metadata),
+      ...(start + size < all.length ? { nextPageToken: String(start + size) } : {})
+    };
+  };
+
+  const createFile = async (request) => {
+    let body;
+    try {
+      body = JSON.parse(await readBody(request) || '{}');
+    } catch {
+      throw new HttpError(400, 'Invalid JSON');
+    }
+    if (typeof body.name !== 'string' || !body.name) {
+      throw new HttpError(400, 'A file name is required');
+    }
+    if (!Array.isArray(body.parents) || !body.parents.includes('appDataFolder')) {
+      throw new HttpError(400, 'Files have to be created in the appDataFolder');
+    }
+
+    const file = { id: `fake_${nextId++}`, name: body.name, content: '', modifiedTime: touch() };
+    files.set(file.id, file);
+    return metadata(file);
+  };
+
+  const uploadFile = async (request, id) => {
+    const file = findFile(id);
+    file.content = await readBody(request);
+    file.modifiedTime = touch();
+    return metadata(file);
+  };
+
+  const handle = async (request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+    const path = url.pathname;
+    const fileMatch = path.match(/^\/(upload\/)?drive\/v3\/files\/([^/]+)$/);
+
+    if (path === '/drive/v3/files' && request.method === 'GET') {
+      sendJson(response, listFiles(url));
+    } else if (path === '/drive/v3/files' && request.method === 'POST') {
+      sendJson(response, await createFile(request));
+    } else if (fileMatch && !fileMatch[1] && request.method === 'GET') {
+      const file = findFile(decodeURIComponent(fileMatch[2]));
+      if (url.searchParams.get('alt') === 'media') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(file.content);
+      } else {
+        sendJson(response, metadata(file));
+      }
+    } else if (fileMatch && fileMatch[1] && request.method === 'PATCH') {
+      if (url.searchParams.get('uploadType') !== 'media') {
+        throw new HttpError(400, 'Only uploadType=media is supported');
+      }
+      sendJson(response, await uploadFile(request, decodeURIComponent(fileMatch[2])));
+    } else {
+      throw new HttpError(404, `Not found: ${request.method} ${path}`);
+    }
+  };
+
+  const server = createServer(async (request, response) => {
+    const origin = request.headers.origin;
+    if (origin === allowedOrigin) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+      response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+      response.setHeader('Vary', 'Origin');
+    } else if (origin) {
+      sendError(response, 403, 'Origin not allowed');
+      return;
+    }
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+
+    if (!/^Bearer \S+$/.test(request.headers.authorization || '')) {
+      sendError(response, 401, 'Request is missing a bearer token');
+      return;
+    }
+
+    try {
+      await handle(request, response);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(response, error.status, error.message);
+      } else {
+        console.error(`Error handling ${request.url}:`, error);
+        sendError(response, 500, 'Internal error');
+      }
+    }
+  });
+
+  return { server, files };
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.FAKE_DRIVE_PORT || 8787);
+  const allowedOrigin = process.env.FAKE_DRIVE_ORIGIN || 'http://localhost:5173';
+  const { server } = createFakeDrive({ allowedOrigin });
+  server.listen(port, 'localhost', () => {
+    console.log(`Fake Drive listening on http://localhost:${port} for ${allowedOrigin}`);
+  });
+}
@@ -0,0 +1,257 @@
+// Companion token service for the authorization-code login mode
+// ("authMode": "code" in public/config.json). It exchanges the code for tokens, keeps the Google
+// refresh token on this side and hands the browser an opaque session handle
+// it can trade for fresh access tokens without another consent popup.
+//
+//   GOOGLE_CLIENT_ID=... GOOGLE_CLIENT_SECRET=... npm run token-service
+//
+// Optional settings:
+//   TOKEN_SERVICE_PORT    port to listen on (8788)
+//   TOKEN_SERVICE_ORIGIN  origin of the app allowed to call it (http://localhost:5173)
+//   TOKEN_SERVICE_STORE   file the sessions are kept in (server/.token-store.json)
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const CLIENT_ID = process.env.GOOGLE_CLIENT_ID || process.env.VITE_GOOGLE_CLIENT_ID;
+const CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+const PORT = Number(process.env.TOKEN_SERVICE_PORT || 8788);
+const ALLOWED_ORIGIN = process.env.TOKEN_SERVICE_ORIGIN || 'http://localhost:5173';
+const STORE_FILE = process.env.TOKEN_SERVICE_STORE
+  || fileURLToPath(new URL('./.token-store.json', import.meta.url));
+
+const GOOGLE_TOKEN_URL = process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+const GOOGLE_REVOKE_URL = process.env.GOOGLE_REVOKE_URL || 'https://oauth2.googleapis.com/revoke';
+
+const MAX_BODY_SIZE = 16 * 1024;
+
+if (!CLIENT_ID || !CLIENT_SECRET) {
+  console.error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set');
+  process.exit(1);
+}
+
+// Sessions are stored by a hash of their handle, so the store file alone
+// can't be used to call this service
+let sessions = {};
+
+const hashHandle = (handle) => createHash('sha256').update(handle).digest('hex');
+
+const loadSessions = async () => {
+  try {
+    sessions = JSON.parse(await readFile(STORE_FILE, 'utf8'));
+    console.log(`Loaded ${Object.keys(sessions).length} sessions from ${STORE_FILE}`);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error('Error reading the session store:', error);
+    }
+    sessions = {};
+  }
+};
+
+// Write to a temporary file first so a crash can't leave half a store, one
+// write at a time
+let lastSave = Promise.resolve();
+const saveSessions = () => {
+  lastSave = lastSave.catch(() => {}).then(async () => {
+    const tempFile = `${STORE_FILE}.tmp`;
+    await writeFile(tempFile, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+    await rename(tempFile, STORE_FILE);
+  });
+  return lastSave;
+};
+
+class HttpError extends Error {
+  constructor(status, code, message) {
+    super(message || code);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const readJsonBody = (request) => new Promise((resolve, reject) => {
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      reject(new HttpError(413, 'request_too_large'));
+      request.destroy();
+    }
+  });
+  request.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch {
+      reject(new HttpError(400, 'invalid_json'));
+    }
+  });
+  request.on('error', reject);
+});
+
+const callGoogle = async (url, params) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // invalid_grant means the code or refresh token is no longer valid
+    const status = data.error === 'invalid_grant' ? 401 : 502;
+    throw new HttpError(status, data.error || 'google_error', data.error_description);
+  }
+  return data;
+};
+
+const requireString = (value, name) => {
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, 'invalid_request', `${name} is required`);
+  }
+  return value;
+};
+
+// Exchange an authorization code (with its PKCE verifier) for tokens. When
+// the login only added scopes, `replaces` names the session it supersedes.
+const handleToken = async (body) => {
+  const tokens = await callGoogle(GOOGLE_TOKEN_URL, {
+    grant_type: 'authorization_code',
+    code: requireString(body.code, 'code'),
+    code_verifier: requireString(body.codeVerifier, 'codeVerifier'),
+    redirect_uri: requireString(body.redirectUri, 'redirectUri'),
+    client_id: CLIENT_ID,
+    client_secret: CLIENT_SECRET
+  });
+
+  if (!tokens.refresh_token) {
+    // Google only sends one on the first consent; the app asks with prompt=consent
+    throw new HttpError(502, 'no_refresh_token', 'Google did not return a refresh token');
+  }
+
+  const handle = randomBytes(32).toString('base64url');
+  sessions[hashHandle(handle)] = {
+    refreshToken: tokens.refresh_token,
+    scope: tokens.scope,
+    createdAt: Date.now(),
+    lastUsedAt: Date.now()
+  };
+  // Just forget the old session: revoking its token would revoke the whole
+  // grant, including the token that was just issued
+  if (typeof body.replaces === 'string' && body.replaces) {
+    delete sessions[hashHandle(body.replaces)];
+  }
+  await saveSessions();
+
+  return {
+    accessToken: tokens.access_token,
+    expiresIn: tokens.expires_in,
+    scope: tokens.scope,
+    idToken: tokens.id_token,
+    session: handle
+  };
+};
+
+const findSession = (body) => {
+  const key = hashHandle(requireString(body.session, 'session'));
+  const session = sessions[key];
+  if (!session) {
+    throw new HttpError(401, 'unknown_session');
+  }
+  return { key, session };
+};
+
+const handleRefresh = async (body) => {
+  const { key, session } = findSession(body);
+
+  try {
+    const tokens = await callGoogle(GOOGLE_TOKEN_URL, {
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken,
+      client_id: CLIENT_ID,
+      client_secret: CLIENT_SECRET
+    });
+
+    session.lastUsedAt = Date.now();
+    if (tokens.scope) session.scope = tokens.scope;
+    await saveSessions();
+
+    return {
+      accessToken: tokens.access_token,
+      expiresIn: tokens.expires_in,
+      scope: tokens.scope
+    };
+  } catch (error) {
+    // The user revoked access or the token expired; this session is done
+    if (error instanceof HttpError && error.status === 401) {
+      delete sessions[key];
+      await saveSessions();
+    }
+    throw error;
+  }
+};
+
+const handleRevoke = async (body) => {
+  const { key, session } = findSession(body);
+
+  try {
+    await callGoogle(GOOGLE_REVOKE_URL, { token: session.refreshToken });
+  } catch (error) {
+    // Forget the session either way; Google may already have revoked it
+    console.warn('Google did not accept the revocation:', error.message);
+  }
+
+  delete sessions[key];
+  await saveSessions();
+  return { revoked: true };
+};
+
+const ROUTES = {
+  '/token': handleToken,
+  '/refresh': handleRefresh,
+  '/revoke': handleRevoke
+};
+
+const sendJson = (response, status, data) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  response.end(JSON.stringify(data));
+};
+
+const server = createServer(async (request, response) => {
+  const origin = request.headers.origin;
+  if (origin === ALLOWED_ORIGIN) {
+    response.setHeader('Access-Control-Allow-Origin', origin);
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    response.setHeader('Vary', 'Origin');
+  } else if (origin) {
+    sendJson(response, 403, { error: 'origin_not_allowed' });
+    return;
+  }
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const handler = ROUTES[new URL(request.url, 'http://localhost').pathname];
+  if (!handler || request.method !== 'POST') {
+    sendJson(response, 404, { error: 'not_found' });
+    return;
+  }
+
+  try {
+    sendJson(response, 200, await handler(await readJsonBody(request)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(response, error.status, { error: error.code, error_description: error.message });
+    } else {
+      console.error(`Error handling ${request.url}:`, error);
+      sendJson(response, 500, { error: 'server_error' });
+    }
+  }
+});
+
+await loadSessions();
+server.listen(PORT, 'localhost', () => {
+  console.log(`Token service listening on http://localhost:${PORT} for ${ALLOWED_ORIGIN}`);
+});
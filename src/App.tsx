@@ -1,11 +1,18 @@
 import { useEffect, useState } from 'react';
 import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import AuthGuard from './components/AuthGuard';
+import ScopeGuard from './components/ScopeGuard';
 import LoginPage from './pages/LoginPage';
+import AuthCallbackPage from './pages/AuthCallbackPage';
 import Dashboard from './pages/Dashboard';
 import ContactsPage from './pages/ContactsPage';
+import TemplatesPage from './pages/TemplatesPage';
+import SettingsPage from './pages/SettingsPage';
 import NotFoundPage from './pages/NotFoundPage';
 import { AuthProvider } from './context/AuthContext';
+import { BroadcastProvider } from './context/BroadcastContext';
+import { VaultProvider } from './context/VaultContext';
+import { AUTH_CALLBACK_PATH } from './utils/authCodeFlow';
 
 function App() {
   const [isLoading, setIsLoading] = useState(true);
@@ -29,21 +36,30 @@ function App() {
   }
 
   return (
-    <AuthProvider>
-      <Routes>
-        <Route path="/login" element={<LoginPage />} />
-        
-        {/* Protected routes */}
-        <Route element={<AuthGuard />}>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/contacts" element={<ContactsPage />} />
-        </Route>
-        
-        {/* Fallback routes */}
-        <Route path="/404" element={<NotFoundPage />} />
-        <Route path="*" element={<Navigate to="/404" replace />} />
-      </Routes>
-    </AuthProvider>
+    <VaultProvider>
+      <AuthProvider>
+        <BroadcastProvider>
+          <Routes>
+            <Route path="/login" element={<LoginPage />} />
+            <Route path={AUTH_CALLBACK_PATH} element={<AuthCallbackPage />} />
+          
+            {/* Protected routes */}
+            <Route element={<AuthGuard />}>
+              <Route path="/" element={<Dashboard />} />
+              <Route element={<ScopeGuard scopes={['contacts']} />}>
+                <Route path="/contacts" element={<ContactsPage />} />
+              </Route>
+              <Route path="/templates" element={<TemplatesPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+            </Route>
+          
+            {/* Fallback routes */}
+            <Route path="/404" element={<NotFoundPage />} />
+            <Route path="*" element={<Navigate to="/404" replace />} />
+          </Routes>
+        </BroadcastProvider>
+      </AuthProvider>
+    </VaultProvider>
   );
 }
 
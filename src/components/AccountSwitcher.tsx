@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useBroadcast } from '../context/BroadcastContext';
+import EraseDeviceDialog from './EraseDeviceDialog';
+import { getAppConfig } from '../utils/appConfig';
+import { ChevronDown, Check, LogOut, UserPlus, AlertTriangle, Trash2 } from 'lucide-react';
+
+interface AccountSwitcherProps {
+  // Called after picking an entry, e.g. to close the mobile menu
+  onAction?: () => void;
+}
+
+// Profile area of the sidebar: the active account, the other signed-in
+// accounts to switch to, adding one, signing out and erasing the device
+const AccountSwitcher = ({ onAction }: AccountSwitcherProps) => {
+  const { user, accounts, switchAccount, addAccount, logout } = useAuth();
+  const { isSending } = useBroadcast();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [eraseOpen, setEraseOpen] = useState(false);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherAccounts = accounts.filter(account => account.id !== user?.id);
+
+  const handleSwitch = async (accountId: string) => {
+    setSwitchingTo(accountId);
+    setError(null);
+    try {
+      // The page reloads once the switch is done
+      await switchAccount(accountId);
+    } catch (err) {
+      console.error('Error switching accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to switch accounts');
+      setSwitchingTo(null);
+    }
+  };
+
+  const handleAdd = () => {
+    setMenuOpen(false);
+    onAction?.();
+    addAccount();
+  };
+
+  const handleLogout = () => {
+    setMenuOpen(false);
+    onAction?.();
+    logout();
+  };
+
+  return (
+    <div className="relative">
+      {menuOpen && (
+        <div className="absolute bottom-full left-0 right-0 mb-2 bg-white rounded-lg shadow-lg border border-slate-200 py-1 text-sm z-20">
+          <p className="px-3 pt-1 pb-2 text-xs font-medium text-slate-500">Signed-in accounts</p>
+          <div className="flex items-center px-3 py-2 text-slate-700">
+            <Check className="h-4 w-4 mr-2 text-primary-500 flex-shrink-0" />
+            <span className="truncate">{user?.email}</span>
+          </div>
+          {otherAccounts.map(account => (
+            <button
+              key={account.id}
+              onClick={() => handleSwitch(account.id)}
+              disabled={isSending || switchingTo !== null}
+              className="w-full flex items-center px-3 py-2 text-left text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              title={isSending ? 'Wait for the current broadcast to finish or pause it first' : undefined}
+            >
+              {account.picture ? (
+                <img src={account.picture} alt="" className="h-4 w-4 mr-2 rounded-full flex-shrink-0" />
+              ) : (
+                <span className="h-4 w-4 mr-2 flex-shrink-0" />
+              )}
+              <span className="truncate">{switchingTo === account.id ? 'Switching...' : account.email}</span>
+            </button>
+          ))}
+          {isSending && otherAccounts.length > 0 && (
+            <p className="px-3 py-1 text-xs text-amber-700">
+              A broadcast is sending from this account. Pause it before switching.
+            </p>
+          )}
+          {error && (
+            <p className="px-3 py-1 text-xs text-red-700 flex items-start">
+              <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              {error}
+            </p>
+          )}
+          <div className="border-t border-slate-100 mt-1 pt-1">
+            {getAppConfig().features.multipleAccounts && (
+              <button
+                onClick={handleAdd}
+                disabled={isSending}
+                className="w-full flex items-center px-3 py-2 text-left text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                <UserPlus className="h-4 w-4 mr-2 text-slate-400" />
+                Add another account
+              </button>
+            )}
+            <button
+              onClick={handleLogout}
+              className="w-full flex items-center px-3 py-2 text-left text-slate-700 hover:bg-slate-50"
+            >
+              <LogOut className="h-4 w-4 mr-2 text-slate-400" />
+              <span className="truncate">Sign out of {user?.email}</span>
+            </button>
+            <button
+              onClick={() => {
+                setMenuOpen(false);
+                setEraseOpen(true);
+              }}
+              disabled={isSending}
+              className="w-full flex items-center px-3 py-2 text-left text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2 text-red-400" />
+              Sign out and erase this device
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setMenuOpen(!menuOpen)}
+        className="w-full flex items-center text-left rounded-lg p-1 -m-1 hover:bg-slate-50 transition-colors"
+        aria-expanded={menuOpen}
+        aria-label="Switch account"
+      >
+        <div className="flex-shrink-0">
+          {user?.picture && (
+            <img
+              className="h-9 w-9 rounded-full ring-2 ring-white"
+              src={user.picture}
+              alt={user.name || "User profile"}
+            />
+          )}
+        </div>
+        <div className="ml-3 min-w-0 flex-1">
+          <p className="text-sm font-medium text-slate-700 truncate">{user?.name}</p>
+          <p className="text-xs text-slate-500 truncate">{user?.email}</p>
+        </div>
+        <ChevronDown className={`ml-2 h-4 w-4 flex-shrink-0 text-slate-400 transition-transform ${menuOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {eraseOpen && <EraseDeviceDialog onClose={() => setEraseOpen(false)} />}
+    </div>
+  );
+};
+
+export default AccountSwitcher;
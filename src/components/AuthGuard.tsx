@@ -1,16 +1,21 @@
-import { Outlet, Navigate } from 'react-router-dom';
+import { Outlet, Navigate, useLocation } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import Layout from './Layout';
+import SessionLockScreen from './SessionLockScreen';
 import { AlertTriangle } from 'lucide-react';
 
 const AuthGuard = () => {
-  const { isAuthenticated, getAccessToken, authError } = useAuth();
+  const { isAuthenticated, isLocked, getAccessToken, authError } = useAuth();
+  const location = useLocation();
   const [isVerifying, setIsVerifying] = useState(true);
   const [isValid, setIsValid] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    // The token is checked again once the app is unlocked
+    if (isLocked) return;
+    
     const verifyToken = async () => {
       try {
         if (!isAuthenticated) {
@@ -36,7 +41,7 @@ const AuthGuard = () => {
     };
     
     verifyToken();
-  }, [isAuthenticated, getAccessToken]);
+  }, [isAuthenticated, isLocked, getAccessToken]);
 
   // If auth error is present, show it
   useEffect(() => {
@@ -45,6 +50,12 @@ const AuthGuard = () => {
     }
   }, [authError]);
 
+  // Locked before the session was verified, e.g. after a reload, there is
+  // no page to keep
+  if (isAuthenticated && isLocked && !isValid) {
+    return <SessionLockScreen />;
+  }
+
   if (isVerifying) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -71,15 +82,24 @@ const AuthGuard = () => {
           </div>
         )}
         <p className="text-slate-700 mb-4">Please log in to continue</p>
-        <Navigate to="/login" replace />
+        {/* The login page brings the user back to this route */}
+        <Navigate to="/login" replace state={{ from: location }} />
       </div>
     );
   }
 
+  // The lock screen covers the pages rather than replacing them, so drafts,
+  // selections and filters are still there after unlocking. Their syncs
+  // pause while the app is locked.
   return (
-    <Layout>
-      <Outlet />
-    </Layout>
+    <>
+      <div aria-hidden={isLocked || undefined}>
+        <Layout>
+          <Outlet />
+        </Layout>
+      </div>
+      {isLocked && <SessionLockScreen />}
+    </>
   );
 };
 
@@ -0,0 +1,555 @@
+import { useState, useMemo, useRef } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useBroadcast } from '../context/BroadcastContext';
+import { useTemplates } from '../hooks/useTemplates';
+import { useSavedSegments } from '../hooks/useSavedSegments';
+import { buildRecipients, renderForRecipient } from '../utils/broadcastUtils';
+import { Contact } from '../types/contacts';
+import { BroadcastDraft } from '../types/broadcast';
+import BroadcastProgress from './BroadcastProgress';
+import { STANDARD_MERGE_FIELDS, validateMergeData, OrganizationLookup } from '../utils/mergeFields';
+import { MimeAttachment, fileToAttachment } from '../utils/mime';
+import { sendQuota, DAILY_SEND_LIMITS } from '../utils/rateLimiter';
+import { canStoreDraft } from '../utils/outboxStorage';
+import { Send, X, AlertCircle, ChevronLeft, ChevronRight, Eye, Paperclip, Image } from 'lucide-react';
+
+// Gmail rejects messages larger than 25MB including attachments
+const MAX_ATTACHMENTS_SIZE = 25 * 1024 * 1024;
+// The outbox keeps the whole draft in localStorage so the broadcast can be
+// resumed, which leaves room for far less than Gmail allows
+const STORAGE_LIMIT_ERROR = 'Attachments are too large to keep the broadcast resumable in this browser, keep them under about 1.5MB in total';
+
+interface BroadcastComposerProps {
+  // Contacts picked by hand
+  contacts: Contact[];
+  // Current members of each saved segment, by segment id
+  segmentMembers: Record<string, Contact[]>;
+  // The members are being worked out again, e.g. after a sync
+  isCountingSegments: boolean;
+  // Send to this saved segment rather than the picked contacts
+  initialSegmentId?: string | null;
+  getOrganizationDetails: OrganizationLookup;
+  onClose: () => void;
+}
+
+const BroadcastComposer = ({
+  contacts,
+  segmentMembers,
+  isCountingSegments,
+  initialSegmentId,
+  getOrganizationDetails,
+  onClose
+}: BroadcastComposerProps) => {
+  const { user } = useAuth();
+  const { isSending, hasUnfinishedBroadcast, startBroadcast } = useBroadcast();
+  const { templates } = useTemplates();
+  const { segments } = useSavedSegments();
+
+  const [fromName, setFromName] = useState(user?.name || '');
+  const [fromEmail, setFromEmail] = useState(user?.email || '');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [bodyFormat, setBodyFormat] = useState<'text' | 'html'>('text');
+  const [templateId, setTemplateId] = useState('');
+  const [segmentId, setSegmentId] = useState(initialSegmentId || '');
+  const [attachments, setAttachments] = useState<MimeAttachment[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [skipIncomplete, setSkipIncomplete] = useState(true);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState(() => sendQuota.getDailyLimit());
+  const [sentToday] = useState(() => sendQuota.getSentInLast24h());
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const segment = segments.find(s => s.id === segmentId) || null;
+
+  // A segment's members are worked out from the contacts cache as it is
+  // when sending, so contacts synced after the segment was saved are included
+  const recipientContacts = useMemo(() => {
+    return segment ? segmentMembers[segment.id] || [] : contacts;
+  }, [segment, segmentMembers, contacts]);
+
+  const targets = useMemo(() => buildRecipients(recipientContacts, getOrganizationDetails), [recipientContacts, getOrganizationDetails]);
+
+  // Custom fields present on at least one recipient
+  const customFields = useMemo(() => {
+    const fields = new Set<string>();
+    recipientContacts.forEach(contact => {
+      (contact.userDefined || []).forEach(field => {
+        if (field.key) fields.add(field.key);
+      });
+    });
+    return Array.from(fields).sort((a, b) => a.localeCompare(b));
+  }, [recipientContacts]);
+
+  const mergeIssues = useMemo(() => validateMergeData(targets, subject, body), [targets, subject, body]);
+  const incompleteRecipients = useMemo(() => new Set(mergeIssues.map(issue => issue.resourceName)), [mergeIssues]);
+
+  // Recipients that will actually be sent to, for the daily quota check
+  const sendCount = targets.length - (skipIncomplete ? mergeIssues.length : 0);
+  const remainingToday = Math.max(0, dailyLimit - sentToday);
+  const exceedsDailyLimit = sendCount > remainingToday;
+  const nearDailyLimit = !exceedsDailyLimit && sentToday + sendCount > dailyLimit * 0.8;
+
+  const handleDailyLimitChange = (limit: number) => {
+    sendQuota.setDailyLimit(limit);
+    setDailyLimit(limit);
+  };
+
+  const previewRecipient = targets[Math.min(previewIndex, targets.length - 1)];
+  const preview = previewRecipient ? renderForRecipient({ fromName, fromEmail, subject, body, bodyFormat }, previewRecipient) : null;
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!fromEmail || !subject.trim() || !body.trim()) {
+      setFormError('Please fill in the sender, subject and message');
+      return;
+    }
+
+    if (segment && isCountingSegments) {
+      setFormError('Still working out who is in the segment, please try again in a moment');
+      return;
+    }
+
+    if (targets.length === 0) {
+      setFormError(segment ? `The segment "${segment.name}" has no members right now` : 'None of the selected contacts has an email address');
+      return;
+    }
+
+    if (mergeIssues.length > 0 && !skipIncomplete) {
+      const confirmed = window.confirm(
+        `${mergeIssues.length} recipients are missing merge fields and will receive empty values. Send anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    // Recipients missing required merge fields are skipped rather than sent a broken message
+    const prepared = targets.map(recipient => {
+      const issue = mergeIssues.find(i => i.resourceName === recipient.resourceName);
+      if (skipIncomplete && issue) {
+        return { ...recipient, status: 'skipped' as const, error: `Missing ${issue.missingFields.join(', ')}` };
+      }
+      return recipient;
+    });
+
+    const draft: BroadcastDraft = { fromName, fromEmail, subject, body, bodyFormat, attachments };
+    if (!canStoreDraft(draft)) {
+      setFormError(STORAGE_LIMIT_ERROR);
+      return;
+    }
+
+    const started = startBroadcast(draft, prepared);
+    if (!started) {
+      setFormError('Another broadcast is still unfinished. Resume or discard it before starting a new one.');
+      return;
+    }
+
+    setFormError(null);
+    setHasStarted(true);
+  };
+
+  // Fill the subject and message from a saved template
+  const handleSelectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      setTemplateId('');
+      return;
+    }
+
+    if ((subject || body) && !window.confirm(`Replace the current subject and message with "${template.name}"?`)) {
+      return;
+    }
+
+    setTemplateId(id);
+    setSubject(template.subject);
+    setBody(template.body);
+    setBodyFormat(template.bodyFormat);
+  };
+
+  // Insert text at the cursor position in the message body
+  const insertAtCursor = (text: string) => {
+    const textarea = bodyRef.current;
+
+    if (!textarea) {
+      setBody(prev => prev + text);
+      return;
+    }
+
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    setBody(prev => prev.slice(0, start) + text + prev.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const currentSize = attachments.reduce((total, a) => total + Math.ceil(a.data.length * 3 / 4), 0);
+    const addedSize = files.reduce((total, file) => total + file.size, 0);
+    if (currentSize + addedSize > MAX_ATTACHMENTS_SIZE) {
+      setFormError('Attachments exceed the 25MB Gmail message limit');
+      return;
+    }
+
+    try {
+      const added = await Promise.all(files.map(fileToAttachment));
+      if (!canStoreDraft({ fromName, fromEmail, subject, body, bodyFormat, attachments: [...attachments, ...added] })) {
+        setFormError(STORAGE_LIMIT_ERROR);
+        return;
+      }
+      setAttachments(prev => [...prev, ...added]);
+    } catch (err) {
+      console.error('Error reading attachments:', err);
+      setFormError('Failed to read one of the attached files');
+    }
+  };
+
+  // Embed an attached image in the HTML body through a cid: reference
+  const insertInlineImage = (index: number) => {
+    const contentId = attachments[index].contentId || `img${index}.${Date.now()}@gbroadcast`;
+    setAttachments(prev => prev.map((a, i) => (i === index ? { ...a, contentId } : a)));
+    insertAtCursor(`<img src="cid:${contentId}" alt="${attachments[index].filename.replace(/"/g, '')}">`);
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Sending continues in the background when the composer is closed
+  const handleClose = () => {
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-slate-600 bg-opacity-75" onClick={handleClose}></div>
+      <div className="relative bg-white rounded-xl shadow-lg w-full max-w-2xl max-h-[90vh] flex flex-col animate-fadeIn">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-200">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">Broadcast message</h2>
+            <p className="text-xs text-slate-500">
+              {targets.length} {targets.length === 1 ? 'recipient' : 'recipients'} · one individual email each
+            </p>
+            <p className="text-xs text-slate-700">
+              Sending from the Google account <span className="font-medium">{user?.email}</span>
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!hasStarted ? (
+          <form onSubmit={handleSend} className="flex-1 overflow-y-auto p-5 space-y-4">
+            {hasUnfinishedBroadcast && (
+              <div className="rounded-md bg-amber-50 p-3 text-xs text-amber-800 flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                Another broadcast is still unfinished. Resume or discard it from the banner before sending a new one.
+              </div>
+            )}
+
+            {(exceedsDailyLimit || nearDailyLimit) && (
+              <div className={`rounded-md p-3 text-xs ${exceedsDailyLimit ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'}`}>
+                <p>
+                  {sentToday} messages sent in the last 24 hours.{' '}
+                  {exceedsDailyLimit
+                    ? `Only ${remainingToday} of ${sendCount} can be sent before the daily limit of ${dailyLimit}; the rest will wait and the broadcast will pause.`
+                    : `This broadcast brings you close to the daily limit of ${dailyLimit}.`}
+                </p>
+                <label className="mt-2 flex items-center">
+                  Account type:
+                  <select
+                    className="ml-2 text-xs border border-slate-300 rounded px-1 py-0.5 bg-white"
+                    value={dailyLimit}
+                    onChange={(e) => handleDailyLimitChange(Number(e.target.value))}
+                  >
+                    <option value={DAILY_SEND_LIMITS.gmail}>Gmail ({DAILY_SEND_LIMITS.gmail}/day)</option>
+                    <option value={DAILY_SEND_LIMITS.workspace}>Google Workspace ({DAILY_SEND_LIMITS.workspace}/day)</option>
+                  </select>
+                </label>
+              </div>
+            )}
+
+            {formError && (
+              <div className="rounded-md bg-red-50 p-3 text-xs text-red-700 flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {formError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="broadcast-from-name" className="block text-xs font-medium text-slate-700">
+                  From name
+                </label>
+                <input
+                  id="broadcast-from-name"
+                  type="text"
+                  className="form-input mt-1 text-sm"
+                  value={fromName}
+                  onChange={(e) => setFromName(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="broadcast-from-email" className="block text-xs font-medium text-slate-700">
+                  From address
+                </label>
+                <input
+                  id="broadcast-from-email"
+                  type="email"
+                  className="form-input mt-1 text-sm"
+                  value={fromEmail}
+                  onChange={(e) => setFromEmail(e.target.value)}
+                  required
+                />
+                <p className="mt-1 text-xs text-slate-500">Must be {user?.email} or one of its Gmail "Send mail as" aliases</p>
+              </div>
+            </div>
+
+            {(segments.length > 0 || segment) && (
+              <div>
+                <label htmlFor="broadcast-segment" className="block text-xs font-medium text-slate-700">
+                  Recipients
+                </label>
+                <select
+                  id="broadcast-segment"
+                  className="form-input mt-1 text-sm"
+                  value={segmentId}
+                  onChange={(e) => {
+                    setSegmentId(e.target.value);
+                    setPreviewIndex(0);
+                  }}
+                >
+                  <option value="" disabled={contacts.length === 0}>
+                    Selected contacts ({contacts.length})
+                  </option>
+                  {segments.map(s => (
+                    <option key={s.id} value={s.id}>
+                      {s.name} ({segmentMembers[s.id]?.length ?? 0})
+                    </option>
+                  ))}
+                </select>
+                {segment && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    Everyone matching the segment's filters when you send, including contacts added since it was saved.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {templates.length > 0 && (
+              <div>
+                <label htmlFor="broadcast-template" className="block text-xs font-medium text-slate-700">
+                  Template
+                </label>
+                <select
+                  id="broadcast-template"
+                  className="form-input mt-1 text-sm"
+                  value={templateId}
+                  onChange={(e) => handleSelectTemplate(e.target.value)}
+                >
+                  <option value="">Start from scratch</option>
+                  {templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="broadcast-subject" className="block text-xs font-medium text-slate-700">
+                Subject
+              </label>
+              <input
+                id="broadcast-subject"
+                type="text"
+                className="form-input mt-1 text-sm"
+                placeholder="Email subject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                required
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <label htmlFor="broadcast-body" className="block text-xs font-medium text-slate-700">
+                  Message
+                </label>
+                <div className="flex text-xs rounded-md border border-slate-200 overflow-hidden">
+                  {(['text', 'html'] as const).map(format => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => setBodyFormat(format)}
+                      className={`px-2 py-0.5 ${bodyFormat === format ? 'bg-primary-50 text-primary-700' : 'text-slate-600 hover:bg-slate-50'}`}
+                    >
+                      {format === 'text' ? 'Plain text' : 'HTML'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <textarea
+                id="broadcast-body"
+                ref={bodyRef}
+                rows={10}
+                className="form-input mt-1 text-sm"
+                placeholder={bodyFormat === 'html' ? '<p>Hi {{firstName|there}},</p>' : 'Hi {{firstName|there}}, ...'}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                required
+              ></textarea>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {[...STANDARD_MERGE_FIELDS, ...customFields].map(field => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => insertAtCursor(`{{${field}}}`)}
+                    className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-700 px-1.5 py-0.5 rounded"
+                  >
+                    {`{{${field}}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                Use <code>{'{{field|default}}'}</code> to provide a fallback when a contact has no value.
+              </p>
+            </div>
+
+            <div>
+              <label className="inline-flex items-center text-xs text-primary-600 hover:text-primary-800 cursor-pointer">
+                <Paperclip className="h-3 w-3 mr-1" />
+                Attach files
+                <input type="file" multiple className="hidden" onChange={handleAttachFiles} />
+              </label>
+              {attachments.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {attachments.map((attachment, index) => (
+                    <li key={`${attachment.filename}-${index}`} className="flex items-center text-xs text-slate-700">
+                      <span className="truncate">{attachment.filename}</span>
+                      {attachment.contentId && bodyFormat === 'html' && (
+                        <span className="ml-1 px-1 rounded bg-slate-100 text-slate-600">inline</span>
+                      )}
+                      {bodyFormat === 'html' && attachment.contentType.startsWith('image/') && (
+                        <button
+                          type="button"
+                          onClick={() => insertInlineImage(index)}
+                          className="ml-2 text-primary-600 hover:text-primary-800 flex items-center"
+                          title="Insert inline in the message"
+                        >
+                          <Image className="h-3 w-3" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeAttachment(index)}
+                        className="ml-2 text-slate-400 hover:text-red-600"
+                        title="Remove attachment"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {mergeIssues.length > 0 && (
+              <div className="rounded-md bg-amber-50 p-3 text-xs text-amber-800">
+                <p className="font-medium">
+                  {mergeIssues.length} {mergeIssues.length === 1 ? 'recipient is' : 'recipients are'} missing required merge fields
+                </p>
+                <ul className="mt-1 max-h-24 overflow-y-auto space-y-0.5">
+                  {mergeIssues.map(issue => (
+                    <li key={issue.resourceName} className="truncate">
+                      {issue.name || issue.email}: {issue.missingFields.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+                <label className="mt-2 flex items-center">
+                  <input
+                    type="checkbox"
+                    className="h-3 w-3 mr-1.5 rounded border-gray-300"
+                    checked={skipIncomplete}
+                    onChange={(e) => setSkipIncomplete(e.target.checked)}
+                  />
+                  Skip these recipients
+                </label>
+              </div>
+            )}
+
+            {showPreview && preview && previewRecipient && (
+              <div className="rounded-md border border-slate-200">
+                <div className="flex items-center justify-between px-3 py-1.5 bg-slate-50 border-b border-slate-200 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setPreviewIndex(i => Math.max(0, i - 1))}
+                    disabled={previewIndex === 0}
+                    className="p-0.5 rounded hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    <ChevronLeft className="h-3 w-3" />
+                  </button>
+                  <span className={`truncate ${incompleteRecipients.has(previewRecipient.resourceName) ? 'text-amber-700' : 'text-slate-600'}`}>
+                    To: {previewRecipient.name ? `${previewRecipient.name} <${previewRecipient.email}>` : previewRecipient.email}
+                    {' '}({Math.min(previewIndex, targets.length - 1) + 1} of {targets.length})
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setPreviewIndex(i => Math.min(targets.length - 1, i + 1))}
+                    disabled={previewIndex >= targets.length - 1}
+                    className="p-0.5 rounded hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    <ChevronRight className="h-3 w-3" />
+                  </button>
+                </div>
+                <div className="p-3 text-sm">
+                  <p className="font-medium text-slate-900">{preview.subject || <span className="italic text-slate-400">No subject</span>}</p>
+                  {bodyFormat === 'html' ? (
+                    <iframe
+                      title="Message preview"
+                      sandbox=""
+                      srcDoc={preview.body}
+                      className="mt-2 w-full h-48 border-0"
+                    ></iframe>
+                  ) : (
+                    <p className="mt-2 whitespace-pre-wrap text-slate-700">{preview.body}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setShowPreview(!showPreview)} className="btn btn-secondary mr-auto">
+                <Eye className="mr-2 h-4 w-4" />
+                {showPreview ? 'Hide preview' : 'Preview'}
+              </button>
+              <button type="button" onClick={onClose} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={targets.length === 0 || hasUnfinishedBroadcast || isSending}>
+                <Send className="mr-2 h-4 w-4" />
+                Send to {targets.length} {targets.length === 1 ? 'recipient' : 'recipients'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <BroadcastProgress onDone={onClose} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BroadcastComposer;
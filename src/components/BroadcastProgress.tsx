@@ -0,0 +1,134 @@
+import { useBroadcast } from '../context/BroadcastContext';
+import { BroadcastRecipient } from '../types/broadcast';
+import { CheckCircle, AlertCircle, Clock, MinusCircle, Loader, Pause, Play, RotateCw, XCircle } from 'lucide-react';
+
+interface BroadcastProgressProps {
+  onDone: () => void;
+}
+
+const StatusIcon = ({ status }: { status: BroadcastRecipient['status'] }) => {
+  switch (status) {
+    case 'sent':
+      return <CheckCircle className="h-3 w-3 text-green-600 flex-shrink-0" />;
+    case 'failed':
+      return <AlertCircle className="h-3 w-3 text-red-600 flex-shrink-0" />;
+    case 'sending':
+      return <Loader className="h-3 w-3 text-blue-600 animate-spin flex-shrink-0" />;
+    case 'skipped':
+      return <MinusCircle className="h-3 w-3 text-gray-400 flex-shrink-0" />;
+    default:
+      return <Clock className="h-3 w-3 text-gray-400 flex-shrink-0" />;
+  }
+};
+
+// Live per-recipient view of the outbox with queue controls
+const BroadcastProgress = ({ onDone }: BroadcastProgressProps) => {
+  const {
+    outbox,
+    summary,
+    isSending,
+    pauseBroadcast,
+    resumeBroadcast,
+    cancelBroadcast,
+    retryFailed,
+    dismissBroadcast
+  } = useBroadcast();
+
+  if (!outbox) {
+    return null;
+  }
+
+  const recipients = outbox.recipients;
+  const processedCount = recipients.filter(r => r.status !== 'queued' && r.status !== 'sending').length;
+  const sentCount = recipients.filter(r => r.status === 'sent').length;
+  const failedCount = recipients.filter(r => r.status === 'failed').length;
+  const progressPercent = recipients.length > 0 ? Math.round((processedCount / recipients.length) * 100) : 0;
+  const isFinished = summary !== null;
+
+  const handleDismiss = () => {
+    dismissBroadcast();
+    onDone();
+  };
+
+  return (
+    <div className="flex-1 overflow-hidden flex flex-col p-5">
+      <p className="text-xs text-slate-500 mb-2 truncate">
+        <span className="font-medium text-slate-700">{outbox.draft.subject}</span> · from {outbox.draft.fromEmail}
+      </p>
+
+      {summary ? (
+        <div className={`rounded-md p-3 mb-3 ${summary.failed > 0 ? 'bg-amber-50' : 'bg-green-50'}`}>
+          <p className={`text-sm font-medium ${summary.failed > 0 ? 'text-amber-800' : 'text-green-800'}`}>
+            Broadcast {outbox.state === 'cancelled' ? 'cancelled' : 'finished'}: {summary.sent} sent, {summary.failed} failed
+            {summary.skipped > 0 && `, ${summary.skipped} skipped`}
+          </p>
+        </div>
+      ) : (
+        <div className="mb-3">
+          <div className="flex items-center justify-between text-xs text-blue-600">
+            <span>
+              {outbox.state === 'paused' ? 'Paused at' : 'Sending'} {processedCount} of {recipients.length} ({progressPercent}%)
+              {' '}· {sentCount} sent{failedCount > 0 && `, ${failedCount} failed`}
+            </span>
+          </div>
+          <div className="mt-1 w-full bg-blue-100 rounded-full h-1.5">
+            <div className="bg-blue-600 h-1.5 rounded-full" style={{ width: `${progressPercent}%` }}></div>
+          </div>
+          {outbox.pauseReason && (
+            <p className="mt-2 text-xs text-amber-700">{outbox.pauseReason}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto border border-slate-200 rounded-md">
+        {recipients.map((recipient) => (
+          <div key={recipient.email} className="flex items-center px-3 py-1.5 border-b border-slate-100 text-xs">
+            <StatusIcon status={recipient.status} />
+            <span className="ml-2 truncate flex-1">
+              {recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email}
+            </span>
+            {recipient.error && (
+              <span className={`ml-2 truncate max-w-[45%] ${recipient.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`} title={recipient.error}>
+                {recipient.error}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex justify-end space-x-2">
+        {!isFinished && outbox.state === 'running' && (
+          <button onClick={pauseBroadcast} className="btn btn-secondary">
+            <Pause className="mr-2 h-4 w-4" />
+            Pause
+          </button>
+        )}
+        {!isFinished && outbox.state === 'paused' && (
+          <button onClick={resumeBroadcast} disabled={isSending} className="btn btn-primary">
+            <Play className="mr-2 h-4 w-4" />
+            Resume
+          </button>
+        )}
+        {failedCount > 0 && !isSending && (
+          <button onClick={retryFailed} className="btn btn-secondary">
+            <RotateCw className="mr-2 h-4 w-4" />
+            Retry {failedCount} failed
+          </button>
+        )}
+        {!isFinished && (
+          <button onClick={cancelBroadcast} className="btn btn-secondary text-red-600">
+            <XCircle className="mr-2 h-4 w-4" />
+            Cancel
+          </button>
+        )}
+        {isFinished && !isSending && (
+          <button onClick={handleDismiss} className="btn btn-primary">
+            Done
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BroadcastProgress;
@@ -0,0 +1,153 @@
+import { memo } from 'react';
+import { Contact } from '../types/contacts';
+import { ContactLabelLookup } from '../utils/contactSearch';
+import { OrganizationLookup } from '../utils/mergeFields';
+import { User, ExternalLink, Briefcase } from 'lucide-react';
+
+interface ContactRowProps {
+  contact: Contact;
+  isSelected: boolean;
+  isActive: boolean;
+  includeLabels: string[];
+  excludeLabels: string[];
+  getContactLabels: ContactLabelLookup;
+  getOrganizationDetails: OrganizationLookup;
+  onToggleSelect: (resourceName: string) => void;
+}
+
+const getContactUrl = (contact: Contact) => {
+  // Extract contact ID from resourceName (format: "people/{contact_id}")
+  const contactId = contact.resourceName.split('/')[1];
+  return `https://contacts.google.com/person/${contactId}`;
+};
+
+// One row of the contacts table. Rows are virtualized and all have the same
+// height, so longer contents are cut off and shown in a tooltip instead.
+const ContactRow = ({
+  contact,
+  isSelected,
+  isActive,
+  includeLabels,
+  excludeLabels,
+  getContactLabels,
+  getOrganizationDetails,
+  onToggleSelect
+}: ContactRowProps) => {
+  const displayName = contact.names?.[0]?.displayName || 'Unnamed Contact';
+  const photoUrl = contact.photos?.[0]?.url || '';
+  const emails = contact.emailAddresses || [];
+  const labels = getContactLabels(contact);
+  const orgDetails = getOrganizationDetails(contact);
+
+  return (
+    <div
+      className={`grid grid-cols-12 h-full py-1.5 px-2 border-b border-gray-200 text-xs overflow-hidden ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'} ${isActive ? 'ring-1 ring-inset ring-primary-400' : ''}`}
+    >
+      <div className="col-span-1 min-w-[20px] w-[28px] flex justify-center items-center" role="gridcell">
+        <input
+          type="checkbox"
+          tabIndex={-1}
+          className="h-3 w-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          checked={isSelected}
+          onChange={() => onToggleSelect(contact.resourceName)}
+          aria-label={`Select ${displayName}`}
+        />
+      </div>
+      <div className="col-span-3 min-w-0" role="gridcell">
+        <div className="flex items-center">
+          <div className="flex-shrink-0 mr-1">
+            {photoUrl ? (
+              <img className="h-6 w-6 rounded-full" src={photoUrl} alt="" loading="lazy" />
+            ) : (
+              <div className="h-6 w-6 rounded-full bg-gray-200 flex items-center justify-center">
+                <User className="h-3 w-3 text-gray-500" />
+              </div>
+            )}
+          </div>
+          <a
+            href={getContactUrl(contact)}
+            target="_blank"
+            rel="noopener noreferrer"
+            tabIndex={-1}
+            className="text-blue-600 hover:text-blue-800 hover:underline flex items-center text-xs min-w-0"
+          >
+            <span className="truncate">{displayName}</span>
+            <ExternalLink className="ml-1 h-2.5 w-2.5 flex-shrink-0" />
+          </a>
+        </div>
+      </div>
+      <div className="col-span-2 min-w-0" role="gridcell">
+        {orgDetails ? (
+          <div
+            className="text-xs text-gray-600"
+            title={[orgDetails.title, orgDetails.name, orgDetails.department].filter(Boolean).join('\n')}
+          >
+            {orgDetails.title && (
+              <div className="flex items-center">
+                <Briefcase className="h-2.5 w-2.5 mr-1 flex-shrink-0" />
+                <span className="font-medium truncate">{orgDetails.title}</span>
+              </div>
+            )}
+            {(orgDetails.name || orgDetails.department) && (
+              <div className="mt-0.5 truncate">
+                {orgDetails.name}
+                {orgDetails.department && <span className="italic text-gray-500"> {orgDetails.department}</span>}
+              </div>
+            )}
+          </div>
+        ) : (
+          <span className="text-gray-400 italic text-xs">No organization</span>
+        )}
+      </div>
+      <div className="col-span-3 min-w-0" role="gridcell">
+        <div className="space-y-0.5" title={emails.map(email => email.value).join('\n')}>
+          {emails.slice(0, 2).map((email, idx) => (
+            <div key={idx} className="flex items-center text-xs">
+              <a href={`mailto:${email.value}`} tabIndex={-1} className="text-gray-600 hover:text-gray-900 truncate">
+                {email.value}
+              </a>
+              {email.type && (
+                <span className="ml-1 inline-flex items-center px-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                  {email.type}
+                </span>
+              )}
+              {idx === 1 && emails.length > 2 && (
+                <span className="ml-1 text-gray-400 flex-shrink-0">+{emails.length - 2}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="col-span-3 min-w-0" role="gridcell">
+        {labels.length > 0 ? (
+          <div className="flex flex-wrap gap-0.5 max-h-9 overflow-hidden" title={labels.map(label => label.name).join(', ')}>
+            {labels.map((label, idx) => {
+              // All labels are group type since getContactLabels now only returns group labels
+              let colors = 'bg-blue-100 text-blue-800';
+
+              // Highlight included/excluded labels
+              if (includeLabels.includes(label.name)) {
+                colors = 'bg-green-200 text-green-900';
+              } else if (excludeLabels.includes(label.name)) {
+                colors = 'bg-red-200 text-red-900';
+              }
+
+              return (
+                <span
+                  key={idx}
+                  className={`inline-flex items-center px-1 rounded text-xs font-medium ${colors}`}
+                >
+                  {label.name}
+                </span>
+              );
+            })}
+          </div>
+        ) : (
+          <span className="text-gray-400 italic text-xs">No groups</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default memo(ContactRow);
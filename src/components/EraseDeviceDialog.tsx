@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useBroadcast } from '../context/BroadcastContext';
+import { summarizeDeviceData, describeDeviceData } from '../utils/deviceData';
+import { DeviceDataSummary } from '../types/deviceData';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+
+interface EraseDeviceDialogProps {
+  onClose: () => void;
+}
+
+// Confirms "sign out and erase this device", listing what will be deleted
+const EraseDeviceDialog = ({ onClose }: EraseDeviceDialogProps) => {
+  const { eraseDevice } = useAuth();
+  // Possibly in another tab, which stops sending once the data is gone
+  const { outbox, isSending } = useBroadcast();
+  const [summary, setSummary] = useState<DeviceDataSummary | null>(null);
+  const [isErasing, setIsErasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    summarizeDeviceData()
+      .then(result => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch(err => {
+        console.error('Error summarizing device data:', err);
+        if (!cancelled) setError('Could not list the data stored on this device');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleErase = async () => {
+    setIsErasing(true);
+    setError(null);
+    try {
+      // The app reloads to the login page once everything is gone
+      await eraseDevice();
+    } catch (err) {
+      console.error('Error erasing device data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to erase the data on this device');
+      setIsErasing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-slate-600 bg-opacity-75" onClick={isErasing ? undefined : onClose}></div>
+      <div className="relative bg-white rounded-xl shadow-lg w-full max-w-md p-6 animate-fadeIn">
+        <div className="flex items-center">
+          <Trash2 className="h-6 w-6 text-red-600 flex-shrink-0" />
+          <h2 className="ml-3 text-lg font-semibold text-slate-900">Sign out and erase this device</h2>
+        </div>
+        <p className="mt-3 text-sm text-slate-600">
+          Every account is signed out and its access revoked at Google. This deletes from this browser:
+        </p>
+
+        {summary ? (
+          <ul className="mt-3 space-y-1 text-sm text-slate-700 list-disc pl-5">
+            {describeDeviceData(summary).map(line => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        ) : !error && (
+          <p className="mt-3 text-sm text-slate-500">Checking stored data...</p>
+        )}
+
+        {isSending && outbox && (
+          <div className="mt-4 rounded-lg bg-amber-50 p-3 border border-amber-200 flex items-start text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-amber-500" />
+            <span>
+              The broadcast "{outbox.draft.subject}" is still sending. Erasing stops it, and recipients who haven't
+              been sent the message yet won't get it.
+            </span>
+          </div>
+        )}
+
+        <p className="mt-3 text-xs text-slate-500">
+          Your Google contacts, sent mail and settings synced to Google Drive are not affected.
+        </p>
+
+        {error && (
+          <div className="mt-4 rounded-lg bg-red-50 p-3 border border-red-200 flex items-start text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-red-400" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button onClick={onClose} disabled={isErasing} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleErase}
+            disabled={isErasing}
+            className="btn bg-red-600 text-white hover:bg-red-700 shadow-sm focus-visible:ring-red-500"
+          >
+            {isErasing ? 'Erasing...' : 'Erase everything'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EraseDeviceDialog;
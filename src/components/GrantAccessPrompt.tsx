@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { SCOPE_DESCRIPTIONS } from '../utils/oauthScopes';
+import { GoogleScope } from '../types/auth';
+import { ShieldCheck, AlertTriangle } from 'lucide-react';
+
+interface GrantAccessPromptProps {
+  scopes: GoogleScope[];
+  onCancel?: () => void;
+}
+
+// Asks for Google access a feature needs but the user hasn't granted yet.
+// Whatever renders it switches to the feature once the scopes show up.
+const GrantAccessPrompt = ({ scopes, onCancel }: GrantAccessPromptProps) => {
+  const { requestScopes } = useAuth();
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGrant = async () => {
+    setIsRequesting(true);
+    setError(null);
+    try {
+      const granted = await requestScopes(scopes);
+      if (!granted) {
+        setError('Some of the access was not granted. Tick every box on Google\'s consent screen to use this feature.');
+      }
+    } catch (err) {
+      console.error('Error requesting access:', err);
+      setError(err instanceof Error ? err.message : 'Failed to request access');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-xl shadow-soft border border-slate-200 p-6 animate-fadeIn">
+      <div className="flex items-center">
+        <ShieldCheck className="h-6 w-6 text-primary-600 flex-shrink-0" />
+        <h2 className="ml-3 text-lg font-semibold text-slate-900">Grant access</h2>
+      </div>
+      <ul className="mt-4 space-y-3">
+        {scopes.map(scope => (
+          <li key={scope}>
+            <p className="text-sm font-medium text-slate-800">{SCOPE_DESCRIPTIONS[scope].title}</p>
+            <p className="text-sm text-slate-600">{SCOPE_DESCRIPTIONS[scope].description}</p>
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <div className="mt-4 rounded-lg bg-red-50 p-3 border border-red-200 flex items-start text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-red-400" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end space-x-3">
+        {onCancel && (
+          <button onClick={onCancel} className="btn btn-secondary">
+            Not now
+          </button>
+        )}
+        <button onClick={handleGrant} disabled={isRequesting} className="btn btn-primary">
+          {isRequesting ? 'Waiting for Google...' : 'Continue with Google'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GrantAccessPrompt;
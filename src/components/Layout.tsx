@@ -1,13 +1,18 @@
 import { ReactNode, useState, useEffect } from 'react';
 import { NavLink, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import OutboxBanner from './OutboxBanner';
+import MigrationBanner from './MigrationBanner';
+import StorageFailureBanner from './StorageFailureBanner';
+import SyncStatus from './SyncStatus';
+import AccountSwitcher from './AccountSwitcher';
 import { 
   Home, 
   Users,
-  LogOut, 
   Menu, 
   X,
   MessageSquare,
+  FileText,
   Settings,
   Bell,
   Search,
@@ -19,7 +24,7 @@ interface LayoutProps {
 }
 
 const Layout = ({ children }: LayoutProps) => {
-  const { user, logout } = useAuth();
+  const { user } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -29,18 +34,14 @@ const Layout = ({ children }: LayoutProps) => {
   const navigation = [
     { name: 'Dashboard', path: '/', icon: Home },
     { name: 'Contacts', path: '/contacts', icon: Users },
+    { name: 'Templates', path: '/templates', icon: FileText },
     { name: 'Messages', path: '/messages', icon: MessageSquare, comingSoon: true },
+    { name: 'Settings', path: '/settings', icon: Settings },
   ];
 
   const toggleMobileMenu = () => setMobileMenuOpen(!mobileMenuOpen);
   const toggleProfileMenu = () => setProfileMenuOpen(!profileMenuOpen);
   
-  const handleLogout = () => {
-    setProfileMenuOpen(false);
-    setMobileMenuOpen(false);
-    logout();
-  };
-
   // Add scroll detection for header shadow
   useEffect(() => {
     const handleScroll = () => {
@@ -89,30 +90,10 @@ const Layout = ({ children }: LayoutProps) => {
                 );
               })}
             </nav>
+            <SyncStatus />
           </div>
           <div className="flex-shrink-0 p-4 border-t border-slate-200">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                {user?.picture && (
-                  <img
-                    className="h-9 w-9 rounded-full ring-2 ring-white"
-                    src={user.picture}
-                    alt={user.name || "User profile"}
-                  />
-                )}
-              </div>
-              <div className="ml-3 min-w-0 flex-1">
-                <p className="text-sm font-medium text-slate-700 truncate">{user?.name}</p>
-                <p className="text-xs text-slate-500 truncate">{user?.email}</p>
-              </div>
-              <button 
-                className="ml-auto flex-shrink-0 p-1 text-slate-400 hover:text-slate-500 rounded-full hover:bg-slate-100 transition-colors"
-                onClick={handleLogout}
-                aria-label="Log out"
-              >
-                <LogOut className="h-5 w-5" aria-hidden="true" />
-              </button>
-            </div>
+            <AccountSwitcher />
           </div>
         </div>
       </div>
@@ -209,27 +190,7 @@ const Layout = ({ children }: LayoutProps) => {
                 </nav>
               </div>
               <div className="flex-shrink-0 p-4 border-t border-slate-200">
-                <div className="flex items-center">
-                  <div>
-                    {user?.picture && (
-                      <img
-                        className="h-10 w-10 rounded-full"
-                        src={user.picture}
-                        alt="User profile"
-                      />
-                    )}
-                  </div>
-                  <div className="ml-3">
-                    <p className="text-base font-medium text-slate-700 truncate">{user?.name}</p>
-                    <p className="text-sm text-slate-500 truncate">{user?.email}</p>
-                  </div>
-                  <button 
-                    className="ml-auto flex-shrink-0 p-1 text-slate-400 hover:text-slate-500 rounded-full hover:bg-slate-100"
-                    onClick={handleLogout}
-                  >
-                    <LogOut className="h-6 w-6" aria-hidden="true" />
-                  </button>
-                </div>
+                <AccountSwitcher onAction={() => setMobileMenuOpen(false)} />
               </div>
             </div>
           </div>
@@ -239,6 +200,9 @@ const Layout = ({ children }: LayoutProps) => {
       {/* Main content */}
       <div className="lg:pl-64 flex flex-col min-h-screen">
         <main className="flex-1 p-4 sm:p-6 lg:p-8 pt-20 lg:pt-8">
+          <MigrationBanner />
+          <StorageFailureBanner />
+          <OutboxBanner />
           {children}
         </main>
       </div>
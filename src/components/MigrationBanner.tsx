@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import {
+  getStorageSchema,
+  runStorageMigrations,
+  dismissMigrationFailure,
+  MIGRATIONS_COMPLETED_EVENT
+} from '../utils/migrations';
+import { MigrationFailure } from '../types/migrations';
+import { AlertTriangle, X } from 'lucide-react';
+
+// Reports a storage migration that failed on startup, instead of the app
+// quietly throwing away data it could not upgrade
+const MigrationBanner = () => {
+  const [failure, setFailure] = useState<MigrationFailure | undefined>(() => getStorageSchema().lastFailure);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    const handleCompleted = () => setFailure(getStorageSchema().lastFailure);
+    window.addEventListener(MIGRATIONS_COMPLETED_EVENT, handleCompleted);
+    return () => window.removeEventListener(MIGRATIONS_COMPLETED_EVENT, handleCompleted);
+  }, []);
+
+  if (!failure) {
+    return null;
+  }
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await runStorageMigrations();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    dismissMigrationFailure();
+    setFailure(undefined);
+  };
+
+  return (
+    <div className="mb-4 rounded-lg p-3 border bg-red-50 border-red-200 flex items-center text-sm">
+      <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0 text-red-600" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-red-800">
+          Stored data could not be upgraded: {failure.description}
+        </p>
+        <p className="text-xs text-red-700 truncate">
+          {failure.error}. Your data has been left as it was.
+        </p>
+      </div>
+      <div className="flex items-center space-x-2 ml-3">
+        <button
+          onClick={handleRetry}
+          disabled={isRetrying}
+          className="text-xs bg-white border border-red-300 hover:bg-red-100 text-red-800 px-2 py-1 rounded"
+        >
+          {isRetrying ? 'Retrying...' : 'Retry'}
+        </button>
+        <button
+          onClick={handleDismiss}
+          className="p-1 text-slate-400 hover:text-slate-600"
+          title="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationBanner;
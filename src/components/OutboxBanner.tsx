@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useBroadcast } from '../context/BroadcastContext';
+import { useAuth } from '../context/AuthContext';
+import BroadcastProgress from './BroadcastProgress';
+import { Send, X } from 'lucide-react';
+
+// Shows the state of the current broadcast anywhere in the app and offers
+// to resume one that was interrupted by a reload or an expired session
+const OutboxBanner = () => {
+  const { outbox, isSending, hasUnfinishedBroadcast, resumeBroadcast, dismissBroadcast } = useBroadcast();
+  const { user, hasScopes, requestScopes } = useAuth();
+  const [detailsOpen, setDetailsOpen] = useState(false);
+
+  if (!outbox || (!hasUnfinishedBroadcast && !detailsOpen)) {
+    return null;
+  }
+
+  const total = outbox.recipients.length;
+  const sent = outbox.recipients.filter(r => r.status === 'sent').length;
+  const failed = outbox.recipients.filter(r => r.status === 'failed').length;
+  const isPaused = outbox.state === 'paused';
+
+  const canSend = hasScopes(['gmailSend']);
+
+  // Resuming without Gmail access would only pause again, so ask for it first
+  const handleResume = async () => {
+    if (!canSend) {
+      try {
+        if (!await requestScopes(['gmailSend'])) return;
+      } catch (error) {
+        console.error('Error requesting Gmail access:', error);
+        return;
+      }
+    }
+    resumeBroadcast();
+  };
+
+  const handleDiscard = () => {
+    const confirmed = window.confirm(
+      `Discard this broadcast? ${total - sent} recipients have not received it and won't be sent to.`
+    );
+    if (confirmed) {
+      dismissBroadcast();
+    }
+  };
+
+  return (
+    <>
+      {hasUnfinishedBroadcast && (
+        <div className={`mb-4 rounded-lg p-3 border flex items-center text-sm ${isPaused ? 'bg-amber-50 border-amber-200' : 'bg-blue-50 border-blue-200'}`}>
+          <Send className={`h-4 w-4 mr-2 flex-shrink-0 ${isPaused ? 'text-amber-600' : 'text-blue-600'}`} />
+          <div className="flex-1 min-w-0">
+            <p className={`font-medium truncate ${isPaused ? 'text-amber-800' : 'text-blue-800'}`}>
+              {isPaused ? 'Unfinished broadcast' : 'Broadcast in progress'}: {outbox.draft.subject}
+            </p>
+            <p className={`text-xs ${isPaused ? 'text-amber-700' : 'text-blue-700'}`}>
+              From {user?.email} · {sent} of {total} sent{failed > 0 && `, ${failed} failed`}
+              {outbox.pauseReason && ` · ${outbox.pauseReason}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 ml-3">
+            {isPaused && (
+              <button
+                onClick={handleResume}
+                disabled={isSending}
+                className="text-xs bg-white border border-amber-300 hover:bg-amber-100 text-amber-800 px-2 py-1 rounded"
+              >
+                {canSend ? 'Resume' : 'Grant access and resume'}
+              </button>
+            )}
+            <button
+              onClick={() => setDetailsOpen(true)}
+              className="text-xs bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-2 py-1 rounded"
+            >
+              Details
+            </button>
+            {isPaused && (
+              <button
+                onClick={handleDiscard}
+                className="p-1 text-slate-400 hover:text-red-600"
+                title="Discard broadcast"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {detailsOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="fixed inset-0 bg-slate-600 bg-opacity-75" onClick={() => setDetailsOpen(false)}></div>
+          <div className="relative bg-white rounded-xl shadow-lg w-full max-w-2xl max-h-[90vh] flex flex-col animate-fadeIn">
+            <div className="flex items-center justify-between px-5 py-3 border-b border-slate-200">
+              <h2 className="text-base font-semibold text-slate-900">Broadcast outbox</h2>
+              <button
+                onClick={() => setDetailsOpen(false)}
+                className="p-1 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+                aria-label="Close"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <BroadcastProgress onDone={() => setDetailsOpen(false)} />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default OutboxBanner;
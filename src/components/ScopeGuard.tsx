@@ -0,0 +1,27 @@
+import { Outlet } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import GrantAccessPrompt from './GrantAccessPrompt';
+import { GoogleScope } from '../types/auth';
+
+interface ScopeGuardProps {
+  scopes: GoogleScope[];
+}
+
+// Route guard for pages that need Google access beyond the login; used
+// inside AuthGuard, so the user is already signed in
+const ScopeGuard = ({ scopes }: ScopeGuardProps) => {
+  const { hasScopes } = useAuth();
+
+  if (hasScopes(scopes)) {
+    return <Outlet />;
+  }
+
+  const missing = scopes.filter(scope => !hasScopes([scope]));
+  return (
+    <div className="py-8">
+      <GrantAccessPrompt scopes={missing} />
+    </div>
+  );
+};
+
+export default ScopeGuard;
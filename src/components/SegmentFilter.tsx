@@ -0,0 +1,254 @@
+import { useState, useMemo, useRef } from 'react';
+import {
+  SEGMENT_FIELDS,
+  parseSegmentQuery,
+  formatSegmentQuery,
+  toBuilderRows,
+  fromBuilderRows,
+  getSegmentCompletions
+} from '../utils/segmentQuery';
+import { SegmentBuilderRow, SegmentCompletions, SegmentField, SegmentTerm } from '../types/segments';
+import { AlertCircle, Code, ListFilter, Plus, X } from 'lucide-react';
+
+interface SegmentFilterProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Contact group names, for autocompletion
+  labels: string[];
+}
+
+const emptyTerm = (): SegmentTerm => ({ type: 'term', field: 'label', match: 'is', value: '' });
+
+// Query box for contact segments, with a visual builder that edits the same
+// query. The builder only covers ANDed lines of ORed terms; deeper nesting
+// has to be edited as text.
+const SegmentFilter = ({ value, onChange, labels }: SegmentFilterProps) => {
+  const [mode, setMode] = useState<'text' | 'builder'>('text');
+  const [rows, setRows] = useState<SegmentBuilderRow[]>([]);
+  const [completions, setCompletions] = useState<SegmentCompletions | null>(null);
+  const [activeCompletion, setActiveCompletion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parseSegmentQuery(value), [value]);
+  const builderRows = useMemo(() => (parsed.ok ? toBuilderRows(parsed.query) : null), [parsed]);
+
+  const openBuilder = () => {
+    if (!builderRows) return;
+    setRows(builderRows.length > 0 ? builderRows : [{ negate: false, terms: [emptyTerm()] }]);
+    setCompletions(null);
+    setMode('builder');
+  };
+
+  const updateRows = (next: SegmentBuilderRow[]) => {
+    setRows(next);
+    onChange(formatSegmentQuery(fromBuilderRows(next)));
+  };
+
+  const updateTerm = (rowIndex: number, termIndex: number, changes: Partial<SegmentTerm>) => {
+    updateRows(rows.map((row, i) => i !== rowIndex ? row : {
+      ...row,
+      terms: row.terms.map((term, j) => (j === termIndex ? { ...term, ...changes } : term))
+    }));
+  };
+
+  const removeTerm = (rowIndex: number, termIndex: number) => {
+    updateRows(rows
+      .map((row, i) => (i === rowIndex ? { ...row, terms: row.terms.filter((_, j) => j !== termIndex) } : row))
+      .filter(row => row.terms.length > 0));
+  };
+
+  const showCompletions = (text: string, cursor: number) => {
+    const next = getSegmentCompletions(text, cursor, labels);
+    setCompletions(next.options.length > 0 ? next : null);
+    setActiveCompletion(0);
+  };
+
+  const applyCompletion = (index: number) => {
+    if (!completions) return;
+    const option = completions.options[index];
+    const next = value.slice(0, completions.from) + option.insert + value.slice(completions.to);
+    const cursor = completions.from + option.insert.length;
+    onChange(next);
+    setCompletions(null);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(cursor, cursor);
+      showCompletions(next, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveCompletion((activeCompletion + step + completions.options.length) % completions.options.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applyCompletion(activeCompletion);
+    } else if (e.key === 'Escape') {
+      setCompletions(null);
+    }
+  };
+
+  return (
+    <div className="mb-3 bg-white shadow rounded-lg p-2">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium text-gray-700">Segment</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setMode('text')}
+            className={`text-xs px-2 py-0.5 rounded flex items-center ${mode === 'text' ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            <Code className="w-3 h-3 mr-1" />
+            Query
+          </button>
+          <button
+            onClick={openBuilder}
+            disabled={!builderRows}
+            title={builderRows ? undefined : 'This query is too complex for the builder'}
+            className={`text-xs px-2 py-0.5 rounded flex items-center disabled:opacity-50 ${mode === 'builder' ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            <ListFilter className="w-3 h-3 mr-1" />
+            Builder
+          </button>
+        </div>
+      </div>
+
+      {mode === 'text' ? (
+        <div className="relative">
+          <input
+            ref={inputRef}
+            type="text"
+            spellCheck={false}
+            className={`form-input block w-full py-1 pr-6 text-xs font-mono rounded-md ${parsed.ok ? '' : 'border-red-300'}`}
+            placeholder='label:Clients AND label:Italy AND NOT label:Former AND domain:acme.com'
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              showCompletions(e.target.value, e.target.selectionStart ?? e.target.value.length);
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setCompletions(null)}
+          />
+          {value && (
+            <button
+              className="absolute inset-y-0 right-0 pr-2 flex items-center"
+              onClick={() => onChange('')}
+              title="Clear segment"
+            >
+              <X className="h-3 w-3 text-gray-400 hover:text-gray-600" />
+            </button>
+          )}
+
+          {completions && (
+            <ul className="absolute mt-1 w-full z-20 bg-white border border-gray-200 rounded-md shadow-lg py-1 max-h-60 overflow-auto">
+              {completions.options.map((option, index) => (
+                <li
+                  key={option.insert}
+                  // Keep focus in the input so the blur doesn't close the list first
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applyCompletion(index);
+                  }}
+                  className={`px-3 py-1 text-xs flex justify-between cursor-pointer ${index === activeCompletion ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                >
+                  <span className="font-mono truncate">{option.label}</span>
+                  {option.detail && <span className="ml-2 text-gray-400 flex-shrink-0">{option.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!parsed.ok && (
+            <div className="mt-1 text-xs text-red-600">
+              <div className="flex items-center">
+                <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                {parsed.error.message}
+              </div>
+              <pre className="mt-0.5 font-mono text-[11px] text-gray-500 overflow-hidden">
+                {value}
+                {'\n'}
+                {' '.repeat(parsed.error.start)}
+                <span className="text-red-600">{'^'.repeat(Math.max(1, parsed.error.end - parsed.error.start))}</span>
+              </pre>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {rows.map((row, rowIndex) => (
+            <div key={rowIndex} className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="w-10 text-gray-500">{rowIndex === 0 ? 'Where' : 'and'}</span>
+              <select
+                className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+                value={row.negate ? 'not' : 'is'}
+                onChange={(e) => updateRows(rows.map((r, i) => (i === rowIndex ? { ...r, negate: e.target.value === 'not' } : r)))}
+              >
+                <option value="is">{row.terms.length > 1 ? 'any of' : 'is'}</option>
+                <option value="not">{row.terms.length > 1 ? 'none of' : 'not'}</option>
+              </select>
+
+              {row.terms.map((term, termIndex) => (
+                <div key={termIndex} className="flex items-center gap-1 bg-gray-50 border border-gray-200 rounded px-1 py-0.5">
+                  {termIndex > 0 && <span className="text-gray-400">or</span>}
+                  <select
+                    className="bg-transparent"
+                    value={term.field}
+                    onChange={(e) => updateTerm(rowIndex, termIndex, { field: e.target.value as SegmentField })}
+                  >
+                    {SEGMENT_FIELDS.map(({ field }) => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="bg-transparent"
+                    value={term.match}
+                    onChange={(e) => updateTerm(rowIndex, termIndex, { match: e.target.value as SegmentTerm['match'] })}
+                  >
+                    <option value="is">is</option>
+                    <option value="contains">contains</option>
+                  </select>
+                  <input
+                    type="text"
+                    className="border border-gray-300 rounded px-1 py-0.5 w-32"
+                    list={term.field === 'label' ? 'segment-labels' : undefined}
+                    value={term.value}
+                    onChange={(e) => updateTerm(rowIndex, termIndex, { value: e.target.value })}
+                  />
+                  <button onClick={() => removeTerm(rowIndex, termIndex)} title="Remove">
+                    <X className="h-3 w-3 text-gray-400 hover:text-gray-600" />
+                  </button>
+                </div>
+              ))}
+
+              <button
+                onClick={() => updateRows(rows.map((r, i) => (i === rowIndex ? { ...r, terms: [...r.terms, emptyTerm()] } : r)))}
+                className="text-primary-600 hover:text-primary-800"
+              >
+                or…
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setRows([...rows, { negate: false, terms: [emptyTerm()] }])}
+            className="text-xs text-primary-600 hover:text-primary-800 flex items-center"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add condition
+          </button>
+
+          <datalist id="segment-labels">
+            {labels.map(label => (
+              <option key={label} value={label} />
+            ))}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentFilter;
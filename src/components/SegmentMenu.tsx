@@ -0,0 +1,161 @@
+import { useState, useRef, useEffect } from 'react';
+import { SavedSegment } from '../types/segments';
+import { Bookmark, ChevronDown, Save, Send, Trash2 } from 'lucide-react';
+
+interface SegmentMenuProps {
+  segments: SavedSegment[];
+  // Current number of contacts in each segment, by id
+  memberCounts: Record<string, number>;
+  activeSegment: SavedSegment | null;
+  hasFilters: boolean;
+  // The filters on screen differ from the active segment's
+  isModified: boolean;
+  onApply: (segment: SavedSegment) => void;
+  onCreate: (name: string) => void;
+  onUpdate: (segment: SavedSegment) => void;
+  onDelete: (segment: SavedSegment) => void;
+  onBroadcast: (segment: SavedSegment) => void;
+}
+
+// Dropdown listing the named segments, to apply one to the contacts list,
+// send to it, or save the current filters
+const SegmentMenu = ({
+  segments,
+  memberCounts,
+  activeSegment,
+  hasFilters,
+  isModified,
+  onApply,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onBroadcast
+}: SegmentMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const nameTaken = segments.some(segment => segment.name.toLowerCase() === newName.trim().toLowerCase());
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || nameTaken) return;
+    onCreate(newName);
+    setNewName('');
+  };
+
+  const handleDelete = (segment: SavedSegment) => {
+    if (window.confirm(`Delete the segment "${segment.name}"? The contacts themselves are not changed.`)) {
+      onDelete(segment);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs bg-primary-50 hover:bg-primary-100 text-primary-600 px-2 py-1 rounded flex items-center"
+      >
+        <Bookmark className="w-3 h-3 mr-1" />
+        <span className="max-w-[10rem] truncate">
+          {activeSegment ? `${activeSegment.name}${isModified ? ' (edited)' : ''}` : 'Segments'}
+        </span>
+        <ChevronDown className="w-3 h-3 ml-1" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-72 z-30 bg-white border border-gray-200 rounded-md shadow-lg">
+          <ul className="py-1 max-h-64 overflow-auto">
+            {segments.length === 0 ? (
+              <li className="px-3 py-2 text-xs text-gray-500">
+                No segments yet. Set some filters and save them under a name.
+              </li>
+            ) : (
+              segments.map(segment => (
+                <li
+                  key={segment.id}
+                  className={`px-3 py-1.5 text-xs flex items-center group ${segment.id === activeSegment?.id ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                >
+                  <button
+                    onClick={() => {
+                      onApply(segment);
+                      setOpen(false);
+                    }}
+                    className="flex-1 min-w-0 flex items-center justify-between text-left"
+                    title="Show the contacts in this segment"
+                  >
+                    <span className="truncate pr-2">{segment.name}</span>
+                    <span className="text-gray-400 flex-shrink-0">{memberCounts[segment.id] ?? 0}</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      onBroadcast(segment);
+                      setOpen(false);
+                    }}
+                    disabled={!memberCounts[segment.id]}
+                    className="ml-2 text-gray-400 hover:text-green-600 disabled:opacity-40"
+                    title="Broadcast to this segment"
+                  >
+                    <Send className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(segment)}
+                    className="ml-1 text-gray-400 hover:text-red-600"
+                    title="Delete segment"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+
+          {hasFilters && (
+            <div className="border-t border-gray-200 p-2 space-y-2">
+              {activeSegment && isModified && (
+                <button
+                  onClick={() => onUpdate(activeSegment)}
+                  className="w-full text-xs text-left text-primary-600 hover:text-primary-800 flex items-center"
+                >
+                  <Save className="w-3 h-3 mr-1 flex-shrink-0" />
+                  <span className="truncate">Update "{activeSegment.name}" with these filters</span>
+                </button>
+              )}
+              <form onSubmit={handleCreate} className="flex items-center space-x-1">
+                <input
+                  type="text"
+                  className="form-input flex-1 py-1 text-xs rounded-md"
+                  placeholder="New segment name, e.g. Newsletter – EU partners"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                />
+                <button
+                  type="submit"
+                  disabled={!newName.trim() || nameTaken}
+                  className="text-xs bg-primary-600 hover:bg-primary-700 text-white px-2 py-1 rounded disabled:opacity-50"
+                  title={nameTaken ? 'A segment with this name already exists' : 'Save the current filters as a segment'}
+                >
+                  Save
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SegmentMenu;
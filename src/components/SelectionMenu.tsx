@@ -0,0 +1,102 @@
+import { useState, useRef, useEffect } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface SelectionMenuProps {
+  // Rows scrolled into view and all rows matching the filters
+  pageCount: number;
+  matchingCount: number;
+  labels: string[];
+  hasSelection: boolean;
+  onSelectPage: () => void;
+  onSelectAllMatching: () => void;
+  onInvert: () => void;
+  onSelectLabel: (label: string) => void;
+  onClear: () => void;
+}
+
+// Bulk selection operations next to the select checkbox of the contacts table
+const SelectionMenu = ({
+  pageCount,
+  matchingCount,
+  labels,
+  hasSelection,
+  onSelectPage,
+  onSelectAllMatching,
+  onInvert,
+  onSelectLabel,
+  onClear
+}: SelectionMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [labelsOpen, setLabelsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        setLabelsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const run = (action: () => void) => {
+    action();
+    setOpen(false);
+    setLabelsOpen(false);
+  };
+
+  const itemClass = 'w-full px-3 py-1.5 text-xs text-left normal-case tracking-normal font-normal text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-white';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-0.5 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-200"
+        title="Selection options"
+        aria-label="Selection options"
+      >
+        <ChevronDown className="h-3 w-3" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-1 w-56 z-30 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+          <button onClick={() => run(onSelectPage)} disabled={pageCount === 0} className={itemClass}>
+            Select page ({pageCount})
+          </button>
+          <button onClick={() => run(onSelectAllMatching)} disabled={matchingCount === 0} className={itemClass}>
+            Select all {matchingCount} matching
+          </button>
+          <button onClick={() => run(onInvert)} disabled={matchingCount === 0} className={itemClass}>
+            Invert selection
+          </button>
+          <button
+            onClick={() => setLabelsOpen(!labelsOpen)}
+            disabled={labels.length === 0}
+            className={`${itemClass} flex items-center justify-between`}
+          >
+            Select by label
+            <ChevronRight className={`h-3 w-3 transition-transform ${labelsOpen ? 'rotate-90' : ''}`} />
+          </button>
+          {labelsOpen && (
+            <div className="max-h-48 overflow-auto border-y border-gray-100 bg-gray-50">
+              {labels.map(label => (
+                <button key={label} onClick={() => run(() => onSelectLabel(label))} className={`${itemClass} pl-6 truncate`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          <button onClick={() => run(onClear)} disabled={!hasSelection} className={`${itemClass} text-red-600`}>
+            Clear selection
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionMenu;
@@ -0,0 +1,112 @@
+import { useState, useMemo } from 'react';
+import { buildRecipients } from '../utils/broadcastUtils';
+import { OrganizationLookup } from '../utils/mergeFields';
+import { Contact } from '../types/contacts';
+import { ChevronDown, ChevronUp, EyeOff, Send, X } from 'lucide-react';
+
+interface SelectionSummaryProps {
+  // Selected contacts that still exist in the cache
+  contacts: Contact[];
+  // How many of them the current filters hide
+  hiddenCount: number;
+  getOrganizationDetails: OrganizationLookup;
+  onRemove: (resourceName: string) => void;
+  onDeselectHidden: () => void;
+  onClear: () => void;
+  onBroadcast: () => void;
+}
+
+// Bar under the contacts table with the selection, and a panel listing the
+// addresses a broadcast to it would actually go to
+const SelectionSummary = ({
+  contacts,
+  hiddenCount,
+  getOrganizationDetails,
+  onRemove,
+  onDeselectHidden,
+  onClear,
+  onBroadcast
+}: SelectionSummaryProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  // Same list the composer sends to: primary addresses, each once
+  const recipients = useMemo(() => buildRecipients(contacts, getOrganizationDetails), [contacts, getOrganizationDetails]);
+  const duplicates = contacts.length - recipients.length;
+
+  return (
+    <div className="mt-3 bg-white rounded-lg shadow">
+      <div className="p-2 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <span className="text-xs font-medium">
+            {contacts.length} {contacts.length === 1 ? 'contact' : 'contacts'} selected
+          </span>
+          {hiddenCount > 0 && (
+            <span className="text-xs text-amber-700 flex items-center">
+              <EyeOff className="w-3 h-3 mr-1" />
+              {hiddenCount} hidden by the current filters
+              <button onClick={onDeselectHidden} className="ml-1 underline hover:text-amber-900">
+                Deselect them
+              </button>
+            </span>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-gray-600 hover:text-gray-800 flex items-center"
+          >
+            {expanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronUp className="w-3 h-3 mr-1" />}
+            {expanded ? 'Hide recipients' : 'Review recipients'}
+          </button>
+          <button
+            onClick={onBroadcast}
+            className="text-xs bg-primary-50 hover:bg-primary-100 text-primary-600 px-3 py-1 rounded-md flex items-center"
+          >
+            <Send className="w-3 h-3 mr-1" />
+            <span>Broadcast</span>
+          </button>
+          <button
+            onClick={onClear}
+            className="text-xs text-red-600 hover:text-red-800"
+          >
+            Clear selection
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="border-t border-gray-200">
+          <p className="px-2 py-1 text-xs text-gray-500">
+            {recipients.length} {recipients.length === 1 ? 'email' : 'emails'} will be sent, one to each address below
+            {duplicates > 0 && ` (${duplicates} selected ${duplicates === 1 ? 'contact shares' : 'contacts share'} an address with another and won't get a second copy)`}
+          </p>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {recipients.map(recipient => (
+              <li key={recipient.resourceName} className="px-2 py-1 text-xs flex items-center justify-between hover:bg-gray-50">
+                <span className="truncate">
+                  {recipient.name ? (
+                    <>
+                      <span className="text-gray-900">{recipient.name}</span>{' '}
+                      <span className="text-gray-500">&lt;{recipient.email}&gt;</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-900">{recipient.email}</span>
+                  )}
+                </span>
+                <button
+                  onClick={() => onRemove(recipient.resourceName)}
+                  className="ml-2 text-gray-400 hover:text-red-600 flex-shrink-0"
+                  title="Remove from selection"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionSummary;
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useVault } from '../context/VaultContext';
+import { useBroadcast } from '../context/BroadcastContext';
+import { getAppConfig } from '../utils/appConfig';
+import { Lock, Send } from 'lucide-react';
+
+// Covers the app after the idle timeout. Pages stay mounted behind it with
+// their background syncs paused, while a running broadcast keeps sending and
+// its progress stays in view.
+const SessionLockScreen = () => {
+  const { user, unlockSession, logout, authError } = useAuth();
+  const { isEnabled: isVaultEnabled } = useVault();
+  const { outbox, hasUnfinishedBroadcast } = useBroadcast();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVaultEnabled && !passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const unlocked = await unlockSession(isVaultEnabled ? passphrase : undefined);
+      if (!unlocked && isVaultEnabled) {
+        setError('That passphrase is not correct');
+        setPassphrase('');
+      }
+    } catch (err) {
+      console.error('Error unlocking the app:', err);
+      setError(err instanceof Error ? err.message : 'Could not sign in again');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const sent = outbox ? outbox.recipients.filter(r => r.status === 'sent').length : 0;
+  const isPaused = outbox?.state === 'paused';
+  const shownError = error || authError;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-slate-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md animate-fadeIn">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">gBroadcast</h1>
+          <p className="mt-2 text-sm text-slate-600">
+            Locked after a period of inactivity
+          </p>
+        </div>
+
+        <div className="mt-8 bg-white py-8 px-4 shadow-soft rounded-xl sm:px-10 border border-slate-200">
+          {user && (
+            <div className="flex items-center mb-6">
+              <img src={user.picture} alt="" className="h-10 w-10 rounded-full" />
+              <div className="ml-3 min-w-0">
+                <p className="text-sm font-medium text-slate-900 truncate">{user.name}</p>
+                <p className="text-xs text-slate-500 truncate">{user.email}</p>
+              </div>
+            </div>
+          )}
+
+          {outbox && hasUnfinishedBroadcast && (
+            <div className={`mb-4 rounded-lg p-3 border flex items-start text-sm ${isPaused ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
+              <Send className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium truncate">{outbox.draft.subject}</p>
+                <p className="text-xs mt-0.5">
+                  {sent} of {outbox.recipients.length} sent ·{' '}
+                  {isPaused ? `Paused${outbox.pauseReason ? `: ${outbox.pauseReason}` : ''}` : 'Sending continues while the app is locked'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {shownError && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 border border-red-200 text-sm text-red-700">
+              {shownError}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isVaultEnabled && (
+              <div>
+                <label htmlFor="session-passphrase" className="block text-sm font-medium text-slate-700">
+                  Vault passphrase
+                </label>
+                <input
+                  id="session-passphrase"
+                  type="password"
+                  autoFocus
+                  autoComplete="current-password"
+                  className="form-input mt-1"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+              </div>
+            )}
+            <button type="submit" disabled={isUnlocking || (isVaultEnabled && !passphrase)} className="btn btn-primary w-full">
+              <Lock className="mr-2 h-4 w-4" />
+              {isUnlocking
+                ? 'Unlocking...'
+                : isVaultEnabled ? 'Unlock' : getAppConfig().authMode === 'code' ? 'Sign in again with Google' : 'Continue with Google'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <button onClick={logout} className="text-xs text-slate-500 hover:text-slate-700">
+              Not you? Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionLockScreen;
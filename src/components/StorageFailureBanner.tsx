@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { STORAGE_WRITE_FAILED_EVENT, StorageWriteFailure } from '../utils/secureStorage';
+import { AlertTriangle, X } from 'lucide-react';
+
+// Reports changes that could not be stored on this device, e.g. because
+// localStorage is full. They stay in memory until the page is closed.
+const StorageFailureBanner = () => {
+  const [failures, setFailures] = useState<StorageWriteFailure[]>([]);
+
+  useEffect(() => {
+    const handleFailed = (event: Event) => {
+      const failure = (event as CustomEvent<StorageWriteFailure>).detail;
+      setFailures(prev => [...prev.filter(f => f.key !== failure.key), failure]);
+    };
+    window.addEventListener(STORAGE_WRITE_FAILED_EVENT, handleFailed);
+    return () => window.removeEventListener(STORAGE_WRITE_FAILED_EVENT, handleFailed);
+  }, []);
+
+  if (failures.length === 0) {
+    return null;
+  }
+
+  const isFull = failures.some(f => f.quotaExceeded);
+
+  return (
+    <div className="mb-4 rounded-lg p-3 border bg-red-50 border-red-200 flex items-center text-sm">
+      <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0 text-red-600" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-red-800">
+          {isFull
+            ? 'This browser\'s storage is full, some changes were not saved'
+            : 'Some changes could not be saved on this device'}
+        </p>
+        <p className="text-xs text-red-700 truncate">
+          They are lost when this page is closed. Not saved: {failures.map(f => f.key).join(', ')}
+        </p>
+      </div>
+      <button
+        onClick={() => setFailures([])}
+        className="p-1 ml-3 text-slate-400 hover:text-slate-600"
+        title="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default StorageFailureBanner;
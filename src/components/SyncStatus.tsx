@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useDriveSync } from '../hooks/useDriveSync';
+import { getAppConfig } from '../utils/appConfig';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+
+const DOCUMENT_LABELS = {
+  preferences: 'Preferences',
+  filters: 'Saved segments',
+  templates: 'Templates',
+  history: 'Broadcast history'
+};
+
+const formatSyncTime = (timestamp: number | null): string => {
+  if (!timestamp) return 'Not synced yet';
+
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Synced just now';
+  if (minutes < 60) return `Synced ${minutes} min ago`;
+  return `Synced ${new Date(timestamp).toLocaleString()}`;
+};
+
+// Drive sync state shown in the sidebar, with the conflicts it resolved
+const SyncStatus = () => {
+  const {
+    canSync,
+    enableSync,
+    status,
+    lastSyncedAt,
+    conflicts,
+    syncError,
+    syncNow,
+    dismissConflict,
+    restoreConflict
+  } = useDriveSync();
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  // Turned off for this deployment
+  if (!getAppConfig().features.driveSync) {
+    return null;
+  }
+
+  if (!canSync) {
+    return (
+      <div className="mt-4 pt-3 border-t border-slate-100 text-xs">
+        <button
+          onClick={enableSync}
+          className="flex items-center text-slate-500 hover:text-slate-700"
+          title={syncError || 'Keep settings, filters, templates and history in sync through Google Drive'}
+        >
+          <CloudOff className="h-4 w-4 mr-2 text-slate-400" />
+          Turn on Drive sync
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-100 text-xs">
+      <div className="flex items-center text-slate-500">
+        {status === 'error' ? (
+          <CloudOff className="h-4 w-4 mr-2 text-red-400" />
+        ) : (
+          <Cloud className="h-4 w-4 mr-2 text-slate-400" />
+        )}
+        <span className="flex-1 truncate" title={syncError || undefined}>
+          {status === 'syncing' ? 'Syncing with Drive...' : status === 'error' ? 'Sync failed' : formatSyncTime(lastSyncedAt)}
+        </span>
+        <button
+          onClick={syncNow}
+          disabled={status === 'syncing'}
+          className="p-1 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+          title="Sync now"
+        >
+          <RefreshCw className={`h-3 w-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {conflicts.length > 0 && (
+        <button
+          onClick={() => setShowConflicts(!showConflicts)}
+          className="mt-1 flex items-center text-amber-700 hover:text-amber-800"
+        >
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          {conflicts.length} sync {conflicts.length === 1 ? 'conflict' : 'conflicts'}
+        </button>
+      )}
+
+      {showConflicts && conflicts.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {conflicts.map(conflict => (
+            <li key={conflict.id} className="rounded-md bg-amber-50 border border-amber-200 p-2 text-amber-800">
+              <p className="font-medium">{DOCUMENT_LABELS[conflict.document]}</p>
+              <p className="text-amber-700">
+                Changed here and on another device. Kept the {conflict.kept === 'local' ? 'copy from this browser' : 'copy from Drive'}.
+              </p>
+              <div className="mt-1 flex space-x-2">
+                <button
+                  onClick={() => restoreConflict(conflict.id)}
+                  className="text-amber-800 underline hover:text-amber-900"
+                >
+                  Use the other copy
+                </button>
+                <button
+                  onClick={() => dismissConflict(conflict.id)}
+                  className="text-amber-700 hover:text-amber-900"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { useVault } from '../context/VaultContext';
+import { Lock, AlertTriangle } from 'lucide-react';
+
+// Asks for the vault passphrase after a reload or when the vault was locked
+const VaultLockScreen = () => {
+  const { unlock, resetVault } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReset, setShowReset] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const unlocked = await unlock(passphrase);
+      if (!unlocked) {
+        setError('That passphrase is not correct');
+        setPassphrase('');
+      }
+    } catch (err) {
+      console.error('Error unlocking vault:', err);
+      setError('Could not unlock the vault in this browser');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = () => {
+    const confirmed = window.confirm(
+      'Erase all data stored in this browser? Templates, history and settings that were not synced to Drive will be lost.'
+    );
+    if (confirmed) {
+      resetVault();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md animate-fadeIn">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">gBroadcast</h1>
+          <p className="mt-2 text-sm text-slate-600">
+            Your data in this browser is locked
+          </p>
+        </div>
+
+        <div className="mt-8 bg-white py-8 px-4 shadow-soft rounded-xl sm:px-10 border border-slate-200">
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 p-3 border border-red-200 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="vault-passphrase" className="block text-sm font-medium text-slate-700">
+                Passphrase
+              </label>
+              <input
+                id="vault-passphrase"
+                type="password"
+                autoFocus
+                autoComplete="current-password"
+                className="form-input mt-1"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            <button type="submit" disabled={isUnlocking || !passphrase} className="btn btn-primary w-full">
+              <Lock className="mr-2 h-4 w-4" />
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            {showReset ? (
+              <div className="rounded-lg bg-amber-50 p-3 border border-amber-200 text-left">
+                <div className="flex items-start">
+                  <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                  <div className="ml-2 text-xs text-amber-800">
+                    <p>
+                      The passphrase can't be recovered. You can erase the locked data and start again;
+                      contacts are downloaded again from Google after you log in.
+                    </p>
+                    <button onClick={handleReset} className="mt-2 font-medium text-red-700 hover:text-red-800 underline">
+                      Erase local data
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <button onClick={() => setShowReset(true)} className="text-xs text-slate-500 hover:text-slate-700">
+                Forgot your passphrase?
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
@@ -0,0 +1,170 @@
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  // Every row is exactly this many pixels high
+  rowHeight: number;
+  getKey: (item: T) => string;
+  renderRow: (item: T, index: number, isActive: boolean) => React.ReactNode;
+  // Space or Enter on the active row
+  onActivate?: (item: T) => void;
+  // Indexes of the first and one past the last row in view
+  onRangeChange?: (start: number, end: number) => void;
+  // Rows rendered above and below the ones in view
+  overscan?: number;
+  className?: string;
+  ariaLabel?: string;
+}
+
+// Scrolling list that only renders the rows in view. The row at the top of
+// the view, and the active row, are tracked by key so the list doesn't jump
+// when rows are added, removed or reordered above them.
+const VirtualList = <T,>({
+  items,
+  rowHeight,
+  getKey,
+  renderRow,
+  onActivate,
+  onRangeChange,
+  overscan = 10,
+  className = '',
+  ariaLabel
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const previousItemsRef = useRef(items);
+
+  // Follow the size of the container, which depends on the window
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the row that was at the top of the view there when the items change
+  useLayoutEffect(() => {
+    const previous = previousItemsRef.current;
+    previousItemsRef.current = items;
+
+    const container = containerRef.current;
+    if (!container || previous === items) return;
+
+    const anchorIndex = Math.floor(container.scrollTop / rowHeight);
+    const anchor = previous[anchorIndex];
+    const newIndex = anchor ? items.findIndex(item => getKey(item) === getKey(anchor)) : -1;
+
+    if (newIndex >= 0) {
+      container.scrollTop = newIndex * rowHeight + (container.scrollTop - anchorIndex * rowHeight);
+    } else if (anchorIndex > 0) {
+      // The anchor is gone, e.g. filtered out; stay at the same place
+      container.scrollTop = Math.min(container.scrollTop, Math.max(0, items.length * rowHeight - container.clientHeight));
+    }
+    setScrollTop(container.scrollTop);
+  }, [items, rowHeight, getKey]);
+
+  const firstVisible = Math.floor(scrollTop / rowHeight);
+  const lastVisible = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / rowHeight));
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(items.length, lastVisible + overscan);
+
+  useEffect(() => {
+    onRangeChange?.(Math.min(firstVisible, lastVisible), lastVisible);
+  }, [firstVisible, lastVisible, onRangeChange]);
+
+  const activeIndex = activeKey === null ? -1 : items.findIndex(item => getKey(item) === activeKey);
+
+  // The active row stays rendered when it is scrolled out of view, so
+  // aria-activedescendant always names a row that exists
+  const rowIndexes: number[] = [];
+  if (activeIndex >= 0 && activeIndex < start) rowIndexes.push(activeIndex);
+  for (let index = start; index < end; index++) rowIndexes.push(index);
+  if (activeIndex >= end) rowIndexes.push(activeIndex);
+
+  // Scroll just far enough to show a row
+  const scrollToIndex = useCallback((index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = index * rowHeight;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (top + rowHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top + rowHeight - container.clientHeight;
+    }
+  }, [rowHeight]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (items.length === 0) return;
+    // Checkboxes and links inside the rows handle Space and Enter themselves
+    const fromRowControl = e.target !== e.currentTarget;
+
+    const pageSize = Math.max(1, Math.floor(viewportHeight / rowHeight) - 1);
+    const current = activeIndex >= 0 ? activeIndex : firstVisible - 1;
+    let next: number | null = null;
+
+    switch (e.key) {
+      case 'ArrowDown': next = current + 1; break;
+      case 'ArrowUp': next = current - 1; break;
+      case 'PageDown': next = current + pageSize; break;
+      case 'PageUp': next = current - pageSize; break;
+      case 'Home': next = 0; break;
+      case 'End': next = items.length - 1; break;
+      case ' ':
+      case 'Enter':
+        if (!fromRowControl && activeIndex >= 0) {
+          e.preventDefault();
+          onActivate?.(items[activeIndex]);
+        }
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    const index = Math.max(0, Math.min(items.length - 1, next));
+    setActiveKey(getKey(items[index]));
+    scrollToIndex(index);
+    // The row control may be scrolled out and unmounted; keep the keys coming
+    if (fromRowControl) containerRef.current?.focus();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`overflow-y-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 ${className}`}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="grid"
+      aria-label={ariaLabel}
+      aria-rowcount={items.length}
+      aria-activedescendant={activeIndex >= 0 ? `virtual-row-${activeIndex}` : undefined}
+    >
+      <div style={{ height: items.length * rowHeight, position: 'relative' }}>
+        {rowIndexes.map(index => {
+          const item = items[index];
+          return (
+            <div
+              key={getKey(item)}
+              id={`virtual-row-${index}`}
+              role="row"
+              aria-rowindex={index + 1}
+              style={{ position: 'absolute', top: index * rowHeight, left: 0, right: 0, height: rowHeight }}
+              onMouseDown={() => setActiveKey(getKey(item))}
+            >
+              {renderRow(item, index, index === activeIndex)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -2,16 +2,58 @@ import { createContext, useState, useContext, ReactNode, useEffect, useCallback,
 import { useNavigate } from 'react-router-dom';
 import { useGoogleLogin } from '@react-oauth/google';
 import { secureStorage } from '../utils/secureStorage';
-import { storeTokens, getStoredTokens, isTokenExpired, clearTokens } from '../utils/tokenUtils';
-import { User, AuthTokens, AuthState } from '../types/auth';
+import { storeTokens, getStoredTokens, isTokenExpired, clearTokens, revokeStoredTokens } from '../utils/tokenUtils';
+import { eraseDeviceData } from '../utils/deviceData';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { accountStore, ACCOUNT_MISMATCH_ERROR } from '../utils/accounts';
+import { sessionLock, WRONG_ACCOUNT_UNLOCK_ERROR } from '../utils/sessionLock';
+import { getAppConfig } from '../utils/appConfig';
+import { useVault } from './VaultContext';
+import { useTabRole } from '../hooks/useTabRole';
+import {
+  SESSION_REVOKED_ERROR,
+  startAuthCodeLogin,
+  startRedirectLogin,
+  refreshWithTokenService,
+  fetchGoogleUser
+} from '../utils/authCodeFlow';
+import {
+  POPUP_BLOCKED_ERROR,
+  POPUP_BLOCKED_ERROR_TYPE,
+  getMissingScopes,
+  parseGrantedScopes,
+  requestScopesWithPopup,
+  toScopeString
+} from '../utils/oauthScopes';
+import { User, AuthTokens, AuthState, LoginTokenDetails, GoogleScope, StoredAccount } from '../types/auth';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (accessToken: string, user: User) => void;
+  login: (accessToken: string, user: User, details?: LoginTokenDetails, redirectTo?: string) => void;
   logout: () => void;
+  // Sign out of every account and delete all app data on this device
+  eraseDevice: () => Promise<void>;
+  // Every account signed in on this browser, the active one included
+  accounts: StoredAccount[];
+  switchAccount: (accountId: string) => Promise<void>;
+  addAccount: () => void;
+  hasScopes: (scopes: GoogleScope[]) => boolean;
+  // Resolves to whether every scope was granted; in the authorization-code
+  // mode the page leaves for Google's consent screen instead
+  requestScopes: (scopes: GoogleScope[]) => Promise<boolean>;
   refreshAccessToken: () => Promise<string | null>;
   getAccessToken: () => Promise<string | null>;
+  // Locked after the idle timeout until the user signs in again, or enters
+  // the vault passphrase when the vault is on
+  isLocked: boolean;
+  lockSession: () => void;
+  // Resolves to whether the app was unlocked; in the authorization-code mode
+  // the page leaves for Google and login() unlocks on the way back
+  unlockSession: (passphrase?: string) => Promise<boolean>;
+  // 0 when the idle lock is off
+  idleTimeoutMinutes: number;
+  setIdleTimeout: (minutes: number) => void;
   authError: string | null;
   clearAuthError: () => void;
 }
@@ -21,14 +63,53 @@ const AuthContext = createContext<AuthContextType>({
   isAuthenticated: false,
   login: () => {},
   logout: () => {},
+  eraseDevice: async () => {},
+  accounts: [],
+  switchAccount: async () => {},
+  addAccount: () => {},
+  hasScopes: () => false,
+  requestScopes: async () => false,
   refreshAccessToken: async () => null,
   getAccessToken: async () => null,
+  isLocked: false,
+  lockSession: () => {},
+  unlockSession: async () => false,
+  idleTimeoutMinutes: 0,
+  setIdleTimeout: () => {},
   authError: null,
   clearAuthError: () => {}
 });
 
 export const useAuth = () => useContext(AuthContext);
 
+// Let other tabs know once the new session is in storage
+const notifyAuthChanged = () => {
+  secureStorage.flush().then(() => tabCoordinator.post({ type: 'auth-changed' }));
+};
+
+const notifySessionLockChanged = () => {
+  secureStorage.flush().then(() => tabCoordinator.post({ type: 'session-lock-changed' }));
+};
+
+// Input that counts as using the app for the idle lock
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Other tabs only need to hear about activity now and then
+const ACTIVITY_BROADCAST_INTERVAL = 30 * 1000;
+
+const getCurrentPath = () => `${window.location.pathname}${window.location.search}`;
+
+// Popups blocked by the browser are worked around with a redirect to Google;
+// login() takes over on the way back
+const isPopupBlocked = (error: unknown) => error instanceof Error && error.message === POPUP_BLOCKED_ERROR;
+
+// Changing accounts starts the app over, so nothing still running for the
+// previous account can write into the new one's storage
+const reloadForAccount = async (path: string) => {
+  await secureStorage.flush();
+  window.location.assign(path);
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -40,30 +121,59 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     isAuthenticated: false,
   });
   const [authError, setAuthError] = useState<string | null>(null);
-  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [accounts, setAccounts] = useState<StoredAccount[]>(() => accountStore.list());
+  const [isLocked, setIsLocked] = useState<boolean>(() => sessionLock.isLocked());
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState<number>(() => sessionLock.getTimeoutMinutes());
   const navigate = useNavigate();
+  const { isEnabled: isVaultEnabled, verifyPassphrase } = useVault();
   
   // Use refs to avoid race conditions and track component lifecycle
   const refreshingRef = useRef(false);
   const mountedRef = useRef(true);
   
-  // Check if Google Client ID is configured
-  const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-  const hasValidConfig = Boolean(googleClientId && googleClientId.length > 10);
+  // The account this tab's state belongs to, to notice switches in other tabs
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = authState.user?.id ?? null;
+  
+  const isAuthenticatedRef = useRef(authState.isAuthenticated);
+  isAuthenticatedRef.current = authState.isAuthenticated;
+  const isLockedRef = useRef(isLocked);
+  isLockedRef.current = isLocked;
+  
+  // Whether the GIS popup was opened to add an account rather than to refresh
+  const addingAccountRef = useRef(false);
+  
+  // Concurrent callers share one request to the token service
+  const silentRefreshRef = useRef<Promise<string | null> | null>(null);
+  
+  // Only one tab checks for token expiry; the others pick up the new token
+  const ownsSession = useTabRole('session');
+  const ownsSessionRef = useRef(ownsSession);
+  ownsSessionRef.current = ownsSession;
   
-  // Initialize Google login hook (will be used for token refresh)
+  // The startup check and the session check interval are set up once, so
+  // they call the latest versions of these through refs
+  const refreshAccessTokenRef = useRef<() => Promise<string | null>>(async () => null);
+  const lockSessionRef = useRef<() => void>(() => {});
+  const logoutRef = useRef<() => void>(() => {});
+  
+  // Validated at startup, before anything renders
+  const { googleClientId } = getAppConfig();
+  
+  // Initialize Google login hook (used for token refresh and to add accounts)
   const googleLogin = useGoogleLogin({
-    onSuccess: (response) => {
+    onSuccess: async (response) => {
       console.log("Google login/refresh success");
       if (response.access_token && mountedRef.current) {
-        // Store the new access token
-        if (authState.user) {
-          console.log("User exists, updating login with new token");
-          login(response.access_token, authState.user);
-        } else {
-          console.log("No user found after token refresh");
+        try {
+          // The popup lets the user pick any of their Google accounts, so
+          // check whose token this is before storing it
+          const user = await fetchGoogleUser(response.access_token);
+          login(response.access_token, user, { scopes: parseGrantedScopes(response.scope) });
+        } catch (error) {
+          console.error("Error getting user info for the new token:", error);
+          setAuthError("Authentication failed. Please try logging in again.");
         }
-        setRefreshing(false);
         refreshingRef.current = false;
       }
     },
@@ -86,14 +196,28 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           setAuthError("Authentication failed. Please try logging in again.");
         }
         
-        setRefreshing(false);
         refreshingRef.current = false;
         // If refresh fails, log the user out
         logout();
       }
     },
+    onNonOAuthError: (nonOAuthError) => {
+      refreshingRef.current = false;
+      if (nonOAuthError.type !== POPUP_BLOCKED_ERROR_TYPE || !mountedRef.current) return;
+      
+      console.log("Google popup blocked, continuing with a redirect");
+      const options = addingAccountRef.current
+        ? { selectAccount: true }
+        : { loginHint: accountStore.getActive()?.email, returnTo: getCurrentPath() };
+      startRedirectLogin(options).catch(error => {
+        console.error("Error starting redirect login:", error);
+        setAuthError(
+          "The login popup was blocked by your browser. Please allow popups for this website and try again."
+        );
+      });
+    },
     flow: 'implicit',
-    scope: 'email profile https://www.googleapis.com/auth/contacts.readonly https://www.googleapis.com/auth/gmail.send https://www.googleapis.com/auth/drive.appdata',
+    scope: toScopeString(getAppConfig().loginScopes),
   });
   
   // Check for saved auth state on mount
@@ -102,13 +226,6 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       try {
         console.log("Initializing authentication state");
         
-        // First check if we have a valid Google configuration
-        if (!hasValidConfig) {
-          console.error("Missing or invalid Google Client ID");
-          setAuthError("Google configuration is missing. Please set up your Google API credentials.");
-          return;
-        }
-        
         const storedUser = secureStorage.getItem('user');
         const storedTokens = getStoredTokens();
         
@@ -120,7 +237,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           console.log("Found stored tokens, checking expiration");
         }
         
-        if (storedUser && storedTokens && !isTokenExpired(storedTokens)) {
+        // A locked app keeps its session; unlocking gets a new token
+        if (storedUser && storedTokens && (!isTokenExpired(storedTokens) || sessionLock.isLocked())) {
           console.log("Valid user and token found, restoring session");
           if (mountedRef.current) {
             setAuthState({
@@ -128,7 +246,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
               tokens: {
                 access_token: storedTokens.token,
                 refresh_token: storedTokens.refreshToken,
-                expires_at: storedTokens.expiresAt
+                expires_at: storedTokens.expiresAt,
+                scopes: storedTokens.scopes
               },
               isAuthenticated: true
             });
@@ -137,11 +256,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         } else if (storedUser && storedTokens && isTokenExpired(storedTokens)) {
           // Token is expired, try to refresh
           console.log("Stored token expired, attempting refresh");
-          const newToken = await refreshAccessToken();
+          const newToken = await refreshAccessTokenRef.current();
           if (!newToken && mountedRef.current) {
             // Refresh failed
             console.log("Token refresh failed during initialization");
-            logout();
+            logoutRef.current();
           }
         } else {
           console.log("No valid stored authentication found");
@@ -150,24 +269,29 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         console.error("Error during auth initialization:", error);
         // Clear auth state if there's an error
         if (mountedRef.current) {
-          logout();
+          logoutRef.current();
         }
       }
     };
 
     initAuth();
     
-    // Set up interval to check token expiration
-    const tokenCheckInterval = setInterval(async () => {
-      if (authState.isAuthenticated && isTokenExpired() && mountedRef.current) {
+    // Set up interval to check token expiration and idleness
+    const sessionCheckInterval = setInterval(async () => {
+      // Every tab checks, since activity in any of them keeps all awake
+      if (isAuthenticatedRef.current && !isLockedRef.current && sessionLock.isIdle() && mountedRef.current) {
+        console.log("No activity for the idle timeout, locking the app");
+        lockSessionRef.current();
+      }
+      if (ownsSessionRef.current && isAuthenticatedRef.current && !isLockedRef.current && isTokenExpired() && mountedRef.current) {
         console.log("Token expired or about to expire, refreshing...");
-        await refreshAccessToken();
+        await refreshAccessTokenRef.current();
       }
-    }, 5 * 60 * 1000); // Check every 5 minutes
+    }, 60 * 1000); // Check every minute so the idle lock isn't late
     
     return () => {
       mountedRef.current = false;
-      clearInterval(tokenCheckInterval);
+      clearInterval(sessionCheckInterval);
     };
   }, []);
   
@@ -177,7 +301,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }, []);
 
-  const login = useCallback((accessToken: string, userData: User) => {
+  const login = useCallback((accessToken: string, userData: User, details?: LoginTokenDetails, redirectTo = '/') => {
     console.log("Login called with token and user data");
     
     // Validate required data
@@ -197,12 +321,41 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       return;
     }
     
+    // While locked only the account it was locked for can sign in, and doing
+    // so unlocks the app
+    if (sessionLock.isLocked()) {
+      if (sessionLock.getLockedAccountId() !== userData.id) {
+        console.error("Login for another account while the app is locked");
+        if (mountedRef.current) {
+          setAuthError(WRONG_ACCOUNT_UNLOCK_ERROR);
+        }
+        navigate(redirectTo);
+        return;
+      }
+      sessionLock.unlock();
+      notifySessionLockChanged();
+      if (mountedRef.current) {
+        setIsLocked(false);
+      }
+    }
+    
     try {
+      // Storage moves to the account's namespace before anything is written
+      const previousAccount = accountStore.getActive();
+      accountStore.activate(userData);
+      
       // Store the user data securely
       secureStorage.setItem('user', userData);
       
       // Store tokens securely
-      storeTokens(accessToken);
+      storeTokens(accessToken, details);
+      notifyAuthChanged();
+      
+      if (previousAccount && previousAccount.id !== userData.id) {
+        console.log("Logged in to another account, reloading");
+        reloadForAccount(redirectTo);
+        return;
+      }
       
       // Update state
       if (mountedRef.current) {
@@ -210,17 +363,22 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           user: userData,
           tokens: {
             access_token: accessToken,
-            expires_at: Date.now() + 3600 * 1000 // Google tokens typically expire after 1 hour
+            refresh_token: details?.refreshToken,
+            // Google tokens typically expire after 1 hour
+            expires_at: Date.now() + (details?.expiresIn || 3600) * 1000,
+            scopes: details?.scopes
           },
           isAuthenticated: true
         });
         
+        setAccounts(accountStore.list());
+        
         // Clear any previous errors
         clearAuthError();
       }
       
-      console.log("Authentication completed, navigating to dashboard");
-      navigate('/');
+      console.log("Authentication completed, navigating to", redirectTo);
+      navigate(redirectTo);
     } catch (error) {
       console.error("Error during login:", error);
       if (mountedRef.current) {
@@ -233,10 +391,37 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     console.log("Logout called");
     
     try {
+      // The token would otherwise stay valid until it expires
+      revokeStoredTokens().catch(error => {
+        console.error("Failed to revoke the token:", error);
+      });
+      
       // Clear secure storage
       secureStorage.removeItem('user');
       clearTokens();
       
+      // Carry on with the next signed-in account, if there is one
+      const account = accountStore.getActive();
+      const nextAccount = account ? accountStore.remove(account.id) : null;
+      notifyAuthChanged();
+      
+      // Signing out doesn't get past the lock: the next account has to sign
+      // in again instead
+      if (sessionLock.isLocked()) {
+        if (nextAccount) {
+          sessionLock.lock(nextAccount.id);
+        } else {
+          sessionLock.unlock();
+        }
+        notifySessionLockChanged();
+      }
+      
+      if (nextAccount) {
+        console.log("Logged out, switching to", nextAccount.email);
+        reloadForAccount('/');
+        return;
+      }
+      
       // Update state
       if (mountedRef.current) {
         setAuthState({
@@ -244,6 +429,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           tokens: null,
           isAuthenticated: false
         });
+        setAccounts(accountStore.list());
       }
       
       console.log("Logged out, navigating to login page");
@@ -255,15 +441,86 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }, [navigate]);
 
-  const refreshAccessToken = useCallback(async (): Promise<string | null> => {
-    try {
-      // Check if Google Client ID is configured
-      if (!hasValidConfig) {
-        console.error("Cannot refresh token: Missing Google Client ID");
+  const eraseDevice = useCallback(async (): Promise<void> => {
+    console.log("Signing out of every account and erasing this device");
+    
+    // Revoke each account's token while it can still be read
+    for (const account of accountStore.list()) {
+      accountStore.setActive(account.id);
+      try {
+        await revokeStoredTokens();
+      } catch (error) {
+        console.error(`Failed to revoke the token of ${account.email}:`, error);
+      }
+    }
+    
+    await eraseDeviceData();
+    tabCoordinator.post({ type: 'device-erased' });
+    
+    // Start over so nothing still in memory is written back
+    window.location.assign('/login');
+  }, []);
+
+  // Get a new access token from the token service, without any popup
+  const refreshSilently = useCallback((): Promise<string | null> => {
+    if (silentRefreshRef.current) {
+      return silentRefreshRef.current;
+    }
+    
+    const session = getStoredTokens()?.refreshToken;
+    if (!session) {
+      console.log("No token service session to refresh with");
+      return Promise.resolve(null);
+    }
+    
+    silentRefreshRef.current = (async () => {
+      try {
+        console.log("Refreshing access token via the token service");
+        const tokens = await refreshWithTokenService(session);
+        const scopes = parseGrantedScopes(tokens.scope) || getStoredTokens()?.scopes;
+        storeTokens(tokens.accessToken, { refreshToken: session, expiresIn: tokens.expiresIn, scopes });
+        notifyAuthChanged();
+        
         if (mountedRef.current) {
-          setAuthError("Google configuration is missing. Please set up your Google API credentials.");
+          setAuthState(prev => {
+            const user = prev.user || (secureStorage.getItem('user') as User | null);
+            return {
+              user,
+              tokens: {
+                access_token: tokens.accessToken,
+                refresh_token: session,
+                expires_at: Date.now() + tokens.expiresIn * 1000,
+                scopes
+              },
+              isAuthenticated: Boolean(user)
+            };
+          });
+        }
+        return tokens.accessToken;
+      } catch (error) {
+        console.error('Silent token refresh failed:', error);
+        if (mountedRef.current && error instanceof Error && error.message === SESSION_REVOKED_ERROR) {
+          setAuthError("Your session has ended or access was revoked. Please log in again.");
         }
         return null;
+      } finally {
+        silentRefreshRef.current = null;
+      }
+    })();
+    
+    return silentRefreshRef.current;
+  }, []);
+
+  const refreshAccessToken = useCallback(async (): Promise<string | null> => {
+    if (getAppConfig().authMode === 'code') {
+      return refreshSilently();
+    }
+    
+    try {
+      // Nobody is there to use the popup, and its login would end the lock
+      if (isLockedRef.current) {
+        console.log("App is locked, not refreshing the token");
+        return null;
       }
       
       // Prevent multiple simultaneous refresh attempts
@@ -273,15 +530,13 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       }
       
       refreshingRef.current = true;
-      if (mountedRef.current) {
-        setRefreshing(true);
-      }
       
       console.log("Refreshing access token via Google OAuth");
       
       // Google OAuth implementation doesn't support direct refresh tokens in client-side flow
       // We'll need to trigger a new login flow
-      googleLogin();
+      addingAccountRef.current = false;
+      googleLogin({ hint: accountStore.getActive()?.email });
       
       // This won't actually return the new token since the login is async
       // The token will be handled in the onSuccess callback of googleLogin
@@ -302,14 +557,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         } else {
           setAuthError("Failed to refresh authentication. Please try logging in again.");
         }
-        
-        setRefreshing(false);
       }
       
       refreshingRef.current = false;
       return null;
     }
-  }, [googleLogin, hasValidConfig]);
+  }, [googleLogin, refreshSilently]);
 
   const getAccessToken = useCallback(async (): Promise<string | null> => {
     // Check if token exists and is not expired
@@ -327,8 +580,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       if (newToken) {
         return newToken;
       } else {
-        // If refresh fails, log out the user
-        if (mountedRef.current) {
+        // If refresh fails, log out the user; a locked app stays signed in
+        // and asks to sign in again when unlocked
+        if (mountedRef.current && !isLockedRef.current) {
           console.log("Token refresh failed, logging out");
           logout();
         }
@@ -340,6 +594,273 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return tokenData.token;
   }, [refreshAccessToken, logout]);
 
+  const hasScopes = useCallback((scopes: GoogleScope[]): boolean => {
+    return authState.isAuthenticated && getMissingScopes(authState.tokens?.scopes, scopes).length === 0;
+  }, [authState]);
+
+  const requestScopes = useCallback(async (scopes: GoogleScope[]): Promise<boolean> => {
+    const storedTokens = getStoredTokens();
+    const user = authState.user;
+    if (!user || !storedTokens) {
+      return false;
+    }
+    
+    if (getAppConfig().authMode === 'code') {
+      // Google sends the user back here with a new token service session
+      await startAuthCodeLogin({
+        scopes: Array.from(new Set([...getAppConfig().loginScopes, ...scopes])),
+        returnTo: getCurrentPath(),
+        replacesSession: storedTokens.refreshToken,
+        loginHint: user.email
+      });
+      return false;
+    }
+    
+    let granted;
+    try {
+      granted = await requestScopesWithPopup(googleClientId, scopes, user.email);
+    } catch (error) {
+      if (!isPopupBlocked(error)) throw error;
+      await startRedirectLogin({
+        scopes: Array.from(new Set([...getAppConfig().loginScopes, ...scopes])),
+        returnTo: getCurrentPath(),
+        loginHint: user.email
+      });
+      return false;
+    }
+    storeTokens(granted.accessToken, { expiresIn: granted.expiresIn, scopes: granted.scopes });
+    notifyAuthChanged();
+    
+    if (mountedRef.current) {
+      setAuthState(prev => ({
+        ...prev,
+        tokens: {
+          access_token: granted.accessToken,
+          expires_at: Date.now() + (granted.expiresIn || 3600) * 1000,
+          scopes: granted.scopes
+        }
+      }));
+    }
+    
+    // The user can untick scopes on Google's consent screen
+    return getMissingScopes(granted.scopes, scopes).length === 0;
+  }, [authState.user, googleClientId]);
+
+  // Make another signed-in account the active one. In the implicit mode its
+  // token has usually expired, and Google's popup for a new one has to open
+  // from the click that started the switch.
+  const switchAccount = useCallback(async (accountId: string): Promise<void> => {
+    const previousAccount = accountStore.getActive();
+    if (previousAccount?.id === accountId) return;
+    
+    accountStore.setActive(accountId);
+    const account = accountStore.getActive();
+    try {
+      if (getAppConfig().authMode === 'implicit' && account && isTokenExpired()) {
+        const granted = await requestScopesWithPopup(googleClientId, getAppConfig().loginScopes, account.email);
+        const user = await fetchGoogleUser(granted.accessToken);
+        if (user.id !== accountId) {
+          throw new Error(ACCOUNT_MISMATCH_ERROR);
+        }
+        secureStorage.setItem('user', user);
+        storeTokens(granted.accessToken, { expiresIn: granted.expiresIn, scopes: granted.scopes });
+      }
+    } catch (error) {
+      if (previousAccount) {
+        accountStore.setActive(previousAccount.id);
+      }
+      if (account && isPopupBlocked(error)) {
+        await startRedirectLogin({ loginHint: account.email });
+        return;
+      }
+      throw error;
+    }
+    
+    console.log("Switching accounts, reloading");
+    notifyAuthChanged();
+    await reloadForAccount('/');
+  }, [googleClientId]);
+
+  const lockSession = useCallback(() => {
+    const account = accountStore.getActive();
+    if (!account || sessionLock.isLocked()) return;
+    
+    sessionLock.lock(account.id);
+    notifySessionLockChanged();
+    if (mountedRef.current) {
+      setIsLocked(true);
+    }
+  }, []);
+  
+  refreshAccessTokenRef.current = refreshAccessToken;
+  lockSessionRef.current = lockSession;
+  logoutRef.current = logout;
+
+  const unlockSession = useCallback(async (passphrase?: string): Promise<boolean> => {
+    const user = authState.user;
+    if (!user) {
+      return false;
+    }
+    
+    if (isVaultEnabled) {
+      if (!passphrase || !(await verifyPassphrase(passphrase))) {
+        return false;
+      }
+    } else if (getAppConfig().authMode === 'code') {
+      await startAuthCodeLogin({
+        returnTo: getCurrentPath(),
+        replacesSession: getStoredTokens()?.refreshToken,
+        loginHint: user.email
+      });
+      return false;
+    } else {
+      let granted;
+      try {
+        granted = await requestScopesWithPopup(googleClientId, getAppConfig().loginScopes, user.email);
+      } catch (error) {
+        if (!isPopupBlocked(error)) throw error;
+        await startRedirectLogin({ returnTo: getCurrentPath(), loginHint: user.email });
+        return false;
+      }
+      const signedIn = await fetchGoogleUser(granted.accessToken);
+      if (signedIn.id !== sessionLock.getLockedAccountId()) {
+        throw new Error(WRONG_ACCOUNT_UNLOCK_ERROR);
+      }
+      
+      storeTokens(granted.accessToken, { expiresIn: granted.expiresIn, scopes: granted.scopes });
+      notifyAuthChanged();
+      if (mountedRef.current) {
+        setAuthState(prev => ({
+          ...prev,
+          tokens: {
+            access_token: granted.accessToken,
+            expires_at: Date.now() + (granted.expiresIn || 3600) * 1000,
+            scopes: granted.scopes
+          }
+        }));
+      }
+    }
+    
+    console.log("Unlocking the app");
+    sessionLock.unlock();
+    notifySessionLockChanged();
+    if (mountedRef.current) {
+      setIsLocked(false);
+      setAuthError(null);
+    }
+    return true;
+  }, [authState.user, isVaultEnabled, verifyPassphrase, googleClientId]);
+
+  const setIdleTimeout = useCallback((minutes: number) => {
+    sessionLock.setTimeoutMinutes(minutes);
+    sessionLock.recordActivity();
+    notifySessionLockChanged();
+    setIdleTimeoutMinutes(minutes);
+  }, []);
+
+  // Sign in to one more account; login() switches to it
+  const addAccount = useCallback(() => {
+    if (getAppConfig().authMode === 'code') {
+      startAuthCodeLogin({ selectAccount: true }).catch(error => {
+        console.error("Error starting login:", error);
+        setAuthError("Failed to start the login. Please try again.");
+      });
+      return;
+    }
+    addingAccountRef.current = true;
+    googleLogin({ prompt: 'select_account' });
+  }, [googleLogin]);
+
+  // Follow logins, logouts, account switches and new tokens from other tabs
+  useEffect(() => {
+    return tabCoordinator.subscribe(async (message) => {
+      if (message.type === 'device-erased') {
+        // Nothing this tab still holds may be written back
+        console.log("This device was erased in another tab, starting over");
+        secureStorage.stopWrites();
+        window.location.assign('/login');
+        return;
+      }
+      if (message.type !== 'auth-changed') return;
+      
+      await secureStorage.reloadItems(['accounts']);
+      const activeAccount = accountStore.getActive();
+      if (userIdRef.current && activeAccount?.id !== userIdRef.current) {
+        console.log("Active account changed in another tab, reloading");
+        accountStore.restore();
+        reloadForAccount(activeAccount ? getCurrentPath() : '/login');
+        return;
+      }
+      accountStore.restore();
+      setAccounts(accountStore.list());
+      
+      await secureStorage.reloadItems(['user', 'auth_tokens']);
+      const storedUser = secureStorage.getItem('user') as User | null;
+      const storedTokens = getStoredTokens();
+      
+      if (storedUser && storedTokens) {
+        console.log("Session updated in another tab");
+        setAuthState({
+          user: storedUser,
+          tokens: {
+            access_token: storedTokens.token,
+            refresh_token: storedTokens.refreshToken,
+            expires_at: storedTokens.expiresAt,
+            scopes: storedTokens.scopes
+          },
+          isAuthenticated: true
+        });
+        setAuthError(null);
+      } else {
+        console.log("Logged out in another tab");
+        setAuthState({
+          user: null,
+          tokens: null,
+          isAuthenticated: false
+        });
+        navigate('/login');
+      }
+    });
+  }, [navigate]);
+
+  // Follow locks, unlocks and activity in other tabs
+  useEffect(() => {
+    return tabCoordinator.subscribe(async (message) => {
+      if (message.type === 'user-active') {
+        sessionLock.recordActivity(message.at);
+      } else if (message.type === 'session-lock-changed') {
+        await secureStorage.reloadItems(['session_lock']);
+        const locked = sessionLock.isLocked();
+        if (!locked) {
+          // Unlocking counts as activity here too
+          sessionLock.recordActivity();
+        }
+        setIsLocked(locked);
+        setIdleTimeoutMinutes(sessionLock.getTimeoutMinutes());
+      }
+    });
+  }, []);
+
+  // Note activity in this tab while the app is in use
+  useEffect(() => {
+    if (!authState.isAuthenticated || isLocked) return;
+    
+    let lastBroadcastAt = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      sessionLock.recordActivity(now);
+      if (now - lastBroadcastAt > ACTIVITY_BROADCAST_INTERVAL) {
+        lastBroadcastAt = now;
+        tabCoordinator.post({ type: 'user-active', at: now });
+      }
+    };
+    
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [authState.isAuthenticated, isLocked]);
+
   // Clean up on unmount
   useEffect(() => {
     return () => {
@@ -347,20 +868,24 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     };
   }, []);
 
-  // Show configuration warning if no client ID
-  useEffect(() => {
-    if (!hasValidConfig && mountedRef.current) {
-      setAuthError("Google Client ID is not configured. Please set up your Google API credentials.");
-    }
-  }, [hasValidConfig]);
-
   const value = {
     user: authState.user,
     isAuthenticated: authState.isAuthenticated,
     login,
     logout,
+    eraseDevice,
+    accounts,
+    switchAccount,
+    addAccount,
+    hasScopes,
+    requestScopes,
     refreshAccessToken,
     getAccessToken,
+    isLocked,
+    lockSession,
+    unlockSession,
+    idleTimeoutMinutes,
+    setIdleTimeout,
     authError,
     clearAuthError
   };
@@ -0,0 +1,390 @@
+import { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { useSecureApi, NOT_AUTHENTICATED_ERROR, SESSION_EXPIRED_ERROR, RATE_LIMITED_ERROR } from '../hooks/useSecureApi';
+import { BroadcastDraft, BroadcastRecipient, BroadcastSummary, Outbox } from '../types/broadcast';
+import { GMAIL_SEND_URL, buildRawMessage, summarizeRecipients } from '../utils/broadcastUtils';
+import { rateLimiter, sendQuota } from '../utils/rateLimiter';
+import { hasGrantedScopes } from '../utils/tokenUtils';
+import { secureStorage } from '../utils/secureStorage';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { useTabRole } from '../hooks/useTabRole';
+import { OutboxCommand } from '../types/tabs';
+import {
+  loadOutbox,
+  reloadOutbox,
+  saveOutbox,
+  clearOutbox,
+  archiveOutbox,
+  createOutboxId,
+  isOutboxUnfinished,
+  canStoreDraft
+} from '../utils/outboxStorage';
+
+interface BroadcastContextType {
+  outbox: Outbox | null;
+  summary: BroadcastSummary | null;
+  isSending: boolean;
+  hasUnfinishedBroadcast: boolean;
+  startBroadcast: (draft: BroadcastDraft, recipients: BroadcastRecipient[]) => boolean;
+  pauseBroadcast: () => void;
+  resumeBroadcast: () => void;
+  cancelBroadcast: () => void;
+  retryFailed: () => void;
+  dismissBroadcast: () => void;
+}
+
+const BroadcastContext = createContext<BroadcastContextType>({
+  outbox: null,
+  summary: null,
+  isSending: false,
+  hasUnfinishedBroadcast: false,
+  startBroadcast: () => false,
+  pauseBroadcast: () => {},
+  resumeBroadcast: () => {},
+  cancelBroadcast: () => {},
+  retryFailed: () => {},
+  dismissBroadcast: () => {}
+});
+
+export const useBroadcast = () => useContext(BroadcastContext);
+
+// Tell tabs following the send queue to re-read the outbox once it is stored
+const publishOutbox = () => {
+  secureStorage.flush().then(() => tabCoordinator.post({ type: 'outbox-updated' }));
+};
+
+// Completed and cancelled broadcasts are archived to the history
+const isFinished = (outbox: Outbox) => outbox.state === 'completed' || outbox.state === 'cancelled';
+
+interface BroadcastProviderProps {
+  children: ReactNode;
+}
+
+export const BroadcastProvider = ({ children }: BroadcastProviderProps) => {
+  const { fetchWithToken } = useSecureApi();
+  const [outbox, setOutbox] = useState<Outbox | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // The send loop reads the latest outbox from a ref so pause/cancel take effect immediately
+  const outboxRef = useRef<Outbox | null>(null);
+  const processingRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  // Only the tab that owns the outbox sends; other tabs pass their actions on
+  // to it and show the progress it publishes
+  const ownsOutbox = useTabRole('outbox');
+  const ownsOutboxRef = useRef(ownsOutbox);
+  ownsOutboxRef.current = ownsOutbox;
+
+  // Apply a change to the outbox, persist it and publish it to the UI
+  const updateOutbox = useCallback((update: (current: Outbox) => Outbox, includeDraft = false) => {
+    const current = outboxRef.current;
+    if (!current) return;
+
+    const next = { ...update(current), updatedAt: Date.now() };
+    outboxRef.current = next;
+    saveOutbox(next, includeDraft);
+
+    // Archive when the broadcast ends, not on the updates that follow it
+    if (isFinished(next) && !isFinished(current)) {
+      archiveOutbox(next);
+    }
+    publishOutbox();
+
+    if (mountedRef.current) {
+      setOutbox(next);
+    }
+  }, []);
+
+  const updateRecipient = useCallback((index: number, changes: Partial<BroadcastRecipient>) => {
+    updateOutbox(current => ({
+      ...current,
+      recipients: current.recipients.map((recipient, i) => (i === index ? { ...recipient, ...changes } : recipient))
+    }));
+  }, [updateOutbox]);
+
+  // Send queued jobs one at a time until the queue is empty or no longer running
+  const processQueue = useCallback(async () => {
+    if (processingRef.current || !ownsOutboxRef.current) return;
+    processingRef.current = true;
+    setIsSending(true);
+
+    try {
+      while (mountedRef.current) {
+        const current = outboxRef.current;
+        if (!current || current.state !== 'running') break;
+
+        const index = current.recipients.findIndex(r => r.status === 'queued');
+        if (index === -1) {
+          console.log(`Broadcast ${current.id} finished`);
+          updateOutbox(prev => ({ ...prev, state: 'completed' }));
+          break;
+        }
+
+        // A queue restored after logging in again may not have Gmail access yet
+        if (!hasGrantedScopes(['gmailSend'])) {
+          console.warn('Gmail send access not granted, pausing queue');
+          updateOutbox(prev => ({
+            ...prev,
+            state: 'paused',
+            pauseReason: 'Gmail send access has not been granted.'
+          }));
+          break;
+        }
+
+        // Stop before Gmail starts rejecting sends for the rest of the day
+        if (sendQuota.getRemaining() <= 0) {
+          const nextSlotAt = sendQuota.getNextSlotAt();
+          console.warn('Daily Gmail send limit reached, pausing queue');
+          updateOutbox(prev => ({
+            ...prev,
+            state: 'paused',
+            pauseReason: `Daily sending limit of ${sendQuota.getDailyLimit()} reached.` +
+              (nextSlotAt ? ` Resume after ${new Date(nextSlotAt).toLocaleString()}.` : '')
+          }));
+          break;
+        }
+
+        const recipient = current.recipients[index];
+        updateRecipient(index, { status: 'sending', error: undefined });
+
+        try {
+          // The 'sending' status has to be stored before the message goes
+          // out, or a reload in between would send it again
+          await secureStorage.flush();
+
+          const response = await fetchWithToken<{ id: string }>(GMAIL_SEND_URL, {
+            method: 'POST',
+            body: { raw: buildRawMessage(current.draft, recipient) },
+            throwOnError: true
+          });
+
+          updateRecipient(index, { status: 'sent', messageId: response?.id });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
+
+          // Without a session every remaining send would fail too: put the job
+          // back and pause so the user can log in again and resume
+          if (errorMessage === NOT_AUTHENTICATED_ERROR || errorMessage === SESSION_EXPIRED_ERROR) {
+            console.warn('Session lost during broadcast, pausing queue');
+            updateRecipient(index, { status: 'queued' });
+            updateOutbox(prev => ({ ...prev, state: 'paused', pauseReason: 'Your session expired. Log in again and resume.' }));
+            break;
+          }
+
+          // Gmail would throttle the remaining sends just the same
+          if (errorMessage === RATE_LIMITED_ERROR) {
+            const resumeAt = rateLimiter.getNextAvailableAt('gmail.send');
+            console.warn('Gmail kept throttling sends, pausing queue');
+            updateRecipient(index, { status: 'queued' });
+            updateOutbox(prev => ({
+              ...prev,
+              state: 'paused',
+              pauseReason: `Gmail is limiting how fast messages can be sent. Resume after ${new Date(resumeAt).toLocaleString()}.`
+            }));
+            break;
+          }
+
+          console.error(`Failed to send broadcast to ${recipient.email}:`, err);
+          updateRecipient(index, { status: 'failed', error: errorMessage });
+        }
+      }
+    } finally {
+      processingRef.current = false;
+      if (mountedRef.current) {
+        setIsSending(false);
+      }
+    }
+  }, [fetchWithToken, updateOutbox, updateRecipient]);
+
+  const startBroadcast = useCallback((draft: BroadcastDraft, recipients: BroadcastRecipient[]) => {
+    if (isOutboxUnfinished(outboxRef.current)) {
+      console.warn('Cannot start a broadcast while another one is unfinished');
+      return false;
+    }
+
+    // A draft that can't be stored couldn't be resumed after a reload
+    if (!canStoreDraft(draft)) {
+      console.warn('Broadcast draft is too large to store, not queuing it');
+      return false;
+    }
+
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'start', draft, recipients } });
+      return true;
+    }
+
+    const now = Date.now();
+    const next: Outbox = {
+      id: createOutboxId(),
+      draft,
+      // Recipients already marked as skipped (e.g. missing merge fields) keep their reason
+      recipients: recipients.map(recipient => (
+        recipient.status === 'skipped' ? recipient : { ...recipient, status: 'queued', error: undefined }
+      )),
+      state: 'running',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    console.log(`Queued broadcast ${next.id} for ${recipients.length} recipients`);
+    outboxRef.current = next;
+    saveOutbox(next, true);
+    publishOutbox();
+    setOutbox(next);
+    processQueue();
+    return true;
+  }, [processQueue]);
+
+  // Stop after the message currently in flight
+  const pauseBroadcast = useCallback(() => {
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'pause' } });
+      return;
+    }
+    updateOutbox(current => (current.state === 'running' ? { ...current, state: 'paused' } : current));
+  }, [updateOutbox]);
+
+  const resumeBroadcast = useCallback(() => {
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'resume' } });
+      return;
+    }
+    updateOutbox(current => ({ ...current, state: 'running', pauseReason: undefined }));
+    processQueue();
+  }, [updateOutbox, processQueue]);
+
+  // Skip every job that hasn't been sent yet
+  const cancelBroadcast = useCallback(() => {
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'cancel' } });
+      return;
+    }
+    updateOutbox(current => ({
+      ...current,
+      state: 'cancelled',
+      recipients: current.recipients.map(recipient => (
+        recipient.status === 'queued' ? { ...recipient, status: 'skipped', error: 'Cancelled' } : recipient
+      ))
+    }));
+  }, [updateOutbox]);
+
+  const retryFailed = useCallback(() => {
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'retry' } });
+      return;
+    }
+    updateOutbox(current => ({
+      ...current,
+      state: 'running',
+      pauseReason: undefined,
+      recipients: current.recipients.map(recipient => (
+        recipient.status === 'failed' ? { ...recipient, status: 'queued', error: undefined } : recipient
+      ))
+    }));
+    processQueue();
+  }, [updateOutbox, processQueue]);
+
+  // Forget the outbox once the user has reviewed the result
+  const dismissBroadcast = useCallback(() => {
+    if (!ownsOutboxRef.current) {
+      tabCoordinator.post({ type: 'outbox-command', command: { action: 'dismiss' } });
+      return;
+    }
+    if (processingRef.current) return;
+
+    const current = outboxRef.current;
+    if (current && !isFinished(current)) {
+      archiveOutbox({ ...current, state: 'cancelled' });
+    }
+
+    outboxRef.current = null;
+    clearOutbox();
+    publishOutbox();
+    setOutbox(null);
+  }, []);
+
+  // Restore an unfinished broadcast left behind by a reload
+  useEffect(() => {
+    mountedRef.current = true;
+
+    const stored = loadOutbox();
+    if (stored) {
+      console.log(`Found stored broadcast ${stored.id} (${stored.state})`);
+      outboxRef.current = stored;
+      setOutbox(stored);
+    }
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Take over the queue where a closed tab left it. Restoring pauses a
+  // running broadcast, as after a reload.
+  useEffect(() => {
+    if (!ownsOutbox) return;
+
+    reloadOutbox(true).then(stored => {
+      if (!stored || processingRef.current) return;
+      outboxRef.current = stored;
+      saveOutbox(stored);
+      publishOutbox();
+      if (mountedRef.current) {
+        setOutbox(stored);
+      }
+    });
+  }, [ownsOutbox]);
+
+  // Follow the owning tab's progress, and carry out actions from other tabs
+  const commandHandlersRef = useRef<Record<OutboxCommand['action'], (command: OutboxCommand) => void>>();
+  commandHandlersRef.current = {
+    start: command => {
+      if (command.action === 'start') {
+        startBroadcast(command.draft, command.recipients);
+      }
+    },
+    pause: pauseBroadcast,
+    resume: resumeBroadcast,
+    cancel: cancelBroadcast,
+    retry: retryFailed,
+    dismiss: dismissBroadcast
+  };
+
+  useEffect(() => {
+    return tabCoordinator.subscribe(async (message) => {
+      if (message.type === 'device-erased') {
+        // Stop sending; the send loop ends once it finds no outbox
+        outboxRef.current = null;
+      } else if (message.type === 'outbox-command' && ownsOutboxRef.current) {
+        console.log(`Running outbox action from another tab: ${message.command.action}`);
+        commandHandlersRef.current?.[message.command.action](message.command);
+      } else if (message.type === 'outbox-updated' && !ownsOutboxRef.current) {
+        const stored = await reloadOutbox();
+        outboxRef.current = stored;
+        if (mountedRef.current) {
+          setOutbox(stored);
+        }
+      }
+    });
+  }, []);
+
+  const summary = outbox && (outbox.state === 'completed' || outbox.state === 'cancelled')
+    ? summarizeRecipients(outbox.recipients, outbox.createdAt, outbox.updatedAt)
+    : null;
+
+  const value = {
+    outbox,
+    summary,
+    // Another tab may be sending this outbox
+    isSending: ownsOutbox ? isSending : outbox?.state === 'running',
+    hasUnfinishedBroadcast: isOutboxUnfinished(outbox),
+    startBroadcast,
+    pauseBroadcast,
+    resumeBroadcast,
+    cancelBroadcast,
+    retryFailed,
+    dismissBroadcast
+  };
+
+  return <BroadcastContext.Provider value={value}>{children}</BroadcastContext.Provider>;
+};
@@ -0,0 +1,206 @@
+import { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import { vault, VaultKey, VAULT_LOCKED_EVENT } from '../utils/vault';
+import { secureStorage, loadSecureStorage } from '../utils/secureStorage';
+import { getAccountContactsDb } from '../utils/contactsDb';
+import { accountStore, listContactsDatabases } from '../utils/accounts';
+import { runStorageMigrations } from '../utils/migrations';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { Contact, ContactGroup } from '../types/contacts';
+import VaultLockScreen from '../components/VaultLockScreen';
+
+interface VaultContextType {
+  isEnabled: boolean;
+  isUnlocked: boolean;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  // Check the passphrase without reloading anything, e.g. to end the idle lock
+  verifyPassphrase: (passphrase: string) => Promise<boolean>;
+  enableVault: (passphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<boolean>;
+  disableVault: (passphrase: string) => Promise<boolean>;
+  resetVault: () => Promise<void>;
+}
+
+const VaultContext = createContext<VaultContextType>({
+  isEnabled: false,
+  isUnlocked: false,
+  unlock: async () => false,
+  lock: () => {},
+  verifyPassphrase: async () => false,
+  enableVault: async () => {},
+  changePassphrase: async () => false,
+  disableVault: async () => false,
+  resetVault: async () => {}
+});
+
+export const useVault = () => useContext(VaultContext);
+
+// Decrypt everything with the current key and write it all back with the
+// next one. The new settings are only stored once everything is written, and
+// other tabs are told to pick them up.
+const reencryptStoredData = async (next: VaultKey | null) => {
+  const items = secureStorage.exportItems();
+
+  const cached: { name: string; contacts: Contact[]; groups: Record<string, ContactGroup> }[] = [];
+  for (const name of await listContactsDatabases()) {
+    try {
+      const db = getAccountContactsDb(name);
+      cached.push({ name, contacts: (await db.getAllContacts()).contacts, groups: await db.getGroups() });
+    } catch (error) {
+      console.error(`Error reading contacts from ${name} for re-encryption:`, error);
+    }
+  }
+
+  vault.activate(next);
+
+  secureStorage.importItems(items);
+  for (const { name, contacts, groups } of cached) {
+    try {
+      const db = getAccountContactsDb(name);
+      await db.replaceContacts(contacts);
+      await db.replaceGroups(groups);
+    } catch (error) {
+      console.error(`Error re-encrypting contacts in ${name}:`, error);
+    }
+  }
+  await secureStorage.flush();
+
+  vault.saveConfig();
+  tabCoordinator.post({ type: 'vault-changed' });
+};
+
+// Decrypt stored data and bring it up to the current schema before the app reads it
+const prepareStorage = async () => {
+  await loadSecureStorage();
+  await runStorageMigrations();
+  accountStore.restore();
+};
+
+interface VaultProviderProps {
+  children: ReactNode;
+}
+
+// Shows the lock screen instead of the app until the vault is unlocked, and
+// holds the app back until stored data has been decrypted
+export const VaultProvider = ({ children }: VaultProviderProps) => {
+  const [isEnabled, setIsEnabled] = useState(() => vault.isEnabled());
+  const [isUnlocked, setIsUnlocked] = useState(() => vault.isUnlocked());
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+
+  const refreshState = useCallback(() => {
+    setIsEnabled(vault.isEnabled());
+    setIsUnlocked(vault.isUnlocked());
+  }, []);
+
+  useEffect(() => {
+    if (vault.isEnabled() && !vault.isUnlocked()) return;
+
+    prepareStorage()
+      .catch(error => console.error('Error loading secure storage:', error))
+      .finally(() => setIsStorageLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener(VAULT_LOCKED_EVENT, refreshState);
+    return () => window.removeEventListener(VAULT_LOCKED_EVENT, refreshState);
+  }, [refreshState]);
+
+  // A passphrase set or changed in another tab locks this one. Once the vault
+  // is turned off the data is only readable with the browser key, which
+  // needs a fresh start.
+  useEffect(() => {
+    return tabCoordinator.subscribe((message) => {
+      if (message.type !== 'vault-changed') return;
+
+      if (vault.reloadConfig() && !vault.isEnabled()) {
+        window.location.reload();
+      }
+    });
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const unlocked = await vault.unlock(passphrase);
+    if (unlocked) {
+      await prepareStorage();
+      setIsStorageLoaded(true);
+    }
+    refreshState();
+    return unlocked;
+  }, [refreshState]);
+
+  const lock = useCallback(() => {
+    vault.lock();
+    refreshState();
+  }, [refreshState]);
+
+  const verifyPassphrase = useCallback((passphrase: string) => vault.unlock(passphrase), []);
+
+  const enableVault = useCallback(async (passphrase: string) => {
+    const next = await vault.createKey(passphrase);
+    await reencryptStoredData(next);
+    refreshState();
+  }, [refreshState]);
+
+  const changePassphrase = useCallback(async (currentPassphrase: string, newPassphrase: string) => {
+    if (!(await vault.unlock(currentPassphrase))) {
+      return false;
+    }
+
+    const next = await vault.createKey(newPassphrase);
+    await reencryptStoredData(next);
+    refreshState();
+    return true;
+  }, [refreshState]);
+
+  // Go back to the default browser key
+  const disableVault = useCallback(async (passphrase: string) => {
+    if (!(await vault.unlock(passphrase))) {
+      return false;
+    }
+
+    await reencryptStoredData(null);
+    refreshState();
+    return true;
+  }, [refreshState]);
+
+  // A forgotten passphrase can't be recovered: wipe local data and start over
+  const resetVault = useCallback(async () => {
+    for (const name of await listContactsDatabases()) {
+      try {
+        await getAccountContactsDb(name).clear();
+      } catch (error) {
+        console.error(`Error clearing contacts database ${name}:`, error);
+      }
+    }
+    localStorage.clear();
+    vault.activate(null);
+    tabCoordinator.post({ type: 'vault-changed' });
+    window.location.reload();
+  }, []);
+
+  const value = {
+    isEnabled,
+    isUnlocked,
+    unlock,
+    lock,
+    verifyPassphrase,
+    enableVault,
+    changePassphrase,
+    disableVault,
+    resetVault
+  };
+
+  return (
+    <VaultContext.Provider value={value}>
+      {isEnabled && !isUnlocked ? (
+        <VaultLockScreen />
+      ) : isStorageLoaded ? (
+        children
+      ) : (
+        <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+        </div>
+      )}
+    </VaultContext.Provider>
+  );
+};
@@ -0,0 +1,182 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { buildSearchDocument, createSearchIndex, searchContacts, ContactLabelLookup } from '../utils/contactSearch';
+import { hasActiveFilters, findSegmentMembers } from '../utils/segmentFilters';
+import { OrganizationLookup } from '../utils/mergeFields';
+import { Contact } from '../types/contacts';
+import { SegmentFilters } from '../types/segments';
+import {
+  ContactSearchDocument,
+  ContactSearchResult,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+  SegmentDefinition
+} from '../types/search';
+
+// Segment members, with the contacts and segments they were worked out from
+interface SegmentCount {
+  documents: ContactSearchDocument[];
+  segments: SegmentDefinition[];
+  members: Record<string, string[]>;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE = 150;
+
+// Filter and rank contacts in a Web Worker holding a search index of them.
+// The index is rebuilt whenever the contacts change, e.g. after a sync.
+// Returns the matching contacts, or all of them while no filter is set, and
+// the members of each saved segment, which the worker works out as well.
+export const useContactSearch = (
+  contacts: Contact[],
+  filters: SegmentFilters,
+  segments: SegmentDefinition[],
+  getContactLabels: ContactLabelLookup,
+  getOrganizationDetails: OrganizationLookup
+) => {
+  const [results, setResults] = useState<ContactSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [segmentCount, setSegmentCount] = useState<SegmentCount | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Index for browsers that can't run the worker
+  const fallbackIndexRef = useRef(createSearchIndex([]));
+  const requestIdRef = useRef(0);
+  const segmentsRequestIdRef = useRef(0);
+  const segmentsRequestRef = useRef<Omit<SegmentCount, 'members'> | null>(null);
+  const active = hasActiveFilters(filters);
+  const latestRef = useRef({ filters, active, segments });
+  latestRef.current = { filters, active, segments };
+
+  // Labels and organizations are looked up once per sync here rather than on
+  // every keystroke
+  const documents = useMemo((): ContactSearchDocument[] => {
+    return contacts.map(contact => buildSearchDocument(contact, getContactLabels, getOrganizationDetails));
+  }, [contacts, getContactLabels, getOrganizationDetails]);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+
+    try {
+      const worker = new Worker(new URL('../workers/contactSearch.worker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+
+      worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+        const response = event.data;
+        // Answers to searches that were overtaken by newer ones are dropped
+        if (response.type === 'results' && response.requestId === requestIdRef.current) {
+          setResults(response.results);
+          setIsSearching(false);
+        } else if (
+          response.type === 'segments' &&
+          response.requestId === segmentsRequestIdRef.current &&
+          segmentsRequestRef.current
+        ) {
+          setSegmentCount({ ...segmentsRequestRef.current, members: response.members });
+        }
+      };
+
+      worker.onerror = (event) => {
+        console.error('Contact search worker failed, searching on the main thread:', event.message);
+        worker.terminate();
+        workerRef.current = null;
+
+        // Answer the search the worker was given, if any
+        fallbackIndexRef.current = createSearchIndex(documentsRef.current);
+        if (latestRef.current.active) {
+          setResults(searchContacts(fallbackIndexRef.current, latestRef.current.filters));
+        }
+        setIsSearching(false);
+        const { segments } = latestRef.current;
+        setSegmentCount({
+          documents: documentsRef.current,
+          segments,
+          members: findSegmentMembers(documentsRef.current, segments)
+        });
+      };
+
+      return () => {
+        worker.terminate();
+        workerRef.current = null;
+      };
+    } catch (error) {
+      console.error('Could not start the contact search worker:', error);
+    }
+  }, []);
+
+  // Rebuild the index when the contacts change
+  useEffect(() => {
+    const request: SearchWorkerRequest = { type: 'index', documents };
+    if (workerRef.current) {
+      workerRef.current.postMessage(request);
+    } else {
+      fallbackIndexRef.current = createSearchIndex(documents);
+    }
+  }, [documents]);
+
+  // Search again, after a pause, when the filters or the index change
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    if (!active) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      if (workerRef.current) {
+        const request: SearchWorkerRequest = { type: 'search', requestId, filters };
+        workerRef.current.postMessage(request);
+      } else {
+        setResults(searchContacts(fallbackIndexRef.current, filters));
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => clearTimeout(timer);
+  }, [filters, documents, active]);
+
+  // Work out the segment members again when the segments or the index change
+  useEffect(() => {
+    const requestId = ++segmentsRequestIdRef.current;
+    segmentsRequestRef.current = { documents, segments };
+
+    if (workerRef.current) {
+      const request: SearchWorkerRequest = { type: 'segments', requestId, segments };
+      workerRef.current.postMessage(request);
+    } else {
+      setSegmentCount({ documents, segments, members: findSegmentMembers(documents, segments) });
+    }
+  }, [segments, documents]);
+
+  const matchingContacts = useMemo(() => {
+    if (!results) return contacts;
+
+    const byId = new Map(contacts.map(contact => [contact.resourceName, contact]));
+    // Results computed before a sync can name contacts that are gone since
+    return results.map(result => byId.get(result.id)).filter((contact): contact is Contact => Boolean(contact));
+  }, [contacts, results]);
+
+  // Counting is under way from the render that changes the contacts or the
+  // segments, not only once the effect above has run
+  const isCountingSegments = !segmentCount || segmentCount.documents !== documents || segmentCount.segments !== segments;
+
+  const segmentMembers = useMemo(() => {
+    const byId = new Map(contacts.map(contact => [contact.resourceName, contact]));
+    const members: Record<string, Contact[]> = {};
+    Object.entries(segmentCount?.members || {}).forEach(([segmentId, ids]) => {
+      members[segmentId] = ids.map(id => byId.get(id)).filter((contact): contact is Contact => Boolean(contact));
+    });
+    return members;
+  }, [contacts, segmentCount]);
+
+  return {
+    matchingContacts,
+    isSearching,
+    segmentMembers,
+    // The segment members are being worked out for new contacts or segments
+    isCountingSegments
+  };
+};
@@ -1,19 +1,80 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { secureStorage } from '../utils/secureStorage';
-import { useSecureApi } from './useSecureApi';
+import { useSecureApi, EXPIRED_SYNC_TOKEN_ERROR } from './useSecureApi';
+import { useAuth } from '../context/AuthContext';
+import { contactsDb } from '../utils/contactsDb';
+import { getStorageSchema, STORAGE_SCHEMA_VERSION } from '../utils/migrations';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { getAppConfig } from '../utils/appConfig';
+import { useTabRole } from './useTabRole';
 import { Contact, ContactGroup, ContactsMetadata } from '../types/contacts';
 
-const STORAGE_KEY_CONTACTS = 'google_contacts';
-const STORAGE_KEY_GROUPS = 'google_contact_groups';
+// Contacts and groups live in IndexedDB (see contactsDb); only the small
+// sync metadata stays in secure storage
 const STORAGE_KEY_METADATA = 'google_contacts_metadata';
-const SYNC_INTERVAL = 30 * 60 * 1000; // 30 minutes (increased from 5 minutes)
+// How often cached contacts are refreshed, from the app config
+const getSyncInterval = () => getAppConfig().syncIntervals.contactsMinutes * 60 * 1000;
 const SYNC_ERROR_BACKOFF = 15 * 60 * 1000; // 15 minutes backoff after error
 
 // Constants for filtering out system groups
 const SYSTEM_GROUP_PREFIXES = ['contactGroups/myContacts', 'contactGroups/starred'];
 
+const CONNECTIONS_URL = 'https://people.googleapis.com/v1/people/me/connections';
+const PERSON_FIELDS = 'names,photos,emailAddresses,phoneNumbers,memberships,userDefined,organizations';
+
+interface ConnectionsResponse {
+  connections?: Contact[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+  totalItems?: number;
+  totalPeople?: number;
+}
+
+export interface ContactSyncChanges {
+  changed: number;
+  removed: number;
+}
+
+// Drop the cached contacts, groups and sync metadata
+const clearContactsCache = async () => {
+  secureStorage.clearContactsData();
+  try {
+    await contactsDb.clear();
+  } catch (err) {
+    console.error('Failed to clear the contacts database:', err);
+  }
+};
+
+const hasEmail = (contact: Contact) => Boolean(contact.emailAddresses && contact.emailAddresses.length > 0);
+
+// Merge people returned by an incremental sync into the cached contacts.
+// Only contacts with an email address are cached, so a person whose last
+// address was removed is dropped like a deleted one.
+const applyContactChanges = (current: Contact[], people: Contact[]) => {
+  const byResourceName = new Map(current.map(contact => [contact.resourceName, contact]));
+  const changed: Contact[] = [];
+  const removed: string[] = [];
+
+  people.forEach(person => {
+    if (person.metadata?.deleted || !hasEmail(person)) {
+      if (byResourceName.delete(person.resourceName)) {
+        removed.push(person.resourceName);
+      }
+      return;
+    }
+
+    const contact = { ...person, _localUpdatedAt: Date.now(), _isDirty: false };
+    byResourceName.set(person.resourceName, contact);
+    changed.push(contact);
+  });
+
+  return { contacts: Array.from(byResourceName.values()), changed, removed };
+};
+
 export const useContactsStorage = () => {
   const { fetchWithToken, isLoading: isApiLoading, error: apiError } = useSecureApi();
+  // Syncs pause while the app is locked and catch up once it is unlocked
+  const { isLocked } = useAuth();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [contactGroups, setContactGroups] = useState<Record<string, ContactGroup>>({});
   const [isLoading, setIsLoading] = useState(true);
@@ -24,6 +85,14 @@ export const useContactsStorage = () => {
   const [syncInProgress, setSyncInProgress] = useState<boolean>(false);
   const [syncProgress, setSyncProgress] = useState<{ current: number, total: number } | null>(null);
   const [syncError, setSyncError] = useState<boolean>(false);
+  const [lastSyncChanges, setLastSyncChanges] = useState<ContactSyncChanges | null>(null);
+  
+  // Only one tab syncs with Google; the others reload the cache when it tells them to
+  const ownsSync = useTabRole('contacts-sync');
+  
+  // Latest contacts for merging incremental changes without re-creating the sync callbacks
+  const contactsRef = useRef<Contact[]>([]);
+  contactsRef.current = contacts;
   
   // Use a ref to track sync status to prevent race conditions with effect cleanup
   const syncInProgressRef = useRef(false);
@@ -31,47 +100,50 @@ export const useContactsStorage = () => {
   // Use this ref to prevent scheduling a sync while unmounting
   const isMountedRef = useRef(true);
 
-  // Load contacts from local storage
-  const loadFromStorage = useCallback(() => {
+  // Load contacts from IndexedDB. Older caches are moved and upgraded by the
+  // storage migrations before the app renders.
+  const loadFromStorage = useCallback(async () => {
     try {
-      let hasCorruptedData = false;
-      
       // Load contacts
-      const storedContacts = secureStorage.getItem(STORAGE_KEY_CONTACTS) as Contact[] | null;
-      if (storedContacts) {
-        setContacts(storedContacts);
-      } else if (localStorage.getItem(STORAGE_KEY_CONTACTS)) {
-        // If item exists but couldn't be decrypted, mark as corrupted
-        hasCorruptedData = true;
-      }
+      const { contacts: storedContacts, corrupted } = await contactsDb.getAllContacts();
+      setContacts(storedContacts);
 
       // Load contact groups
-      const storedGroups = secureStorage.getItem(STORAGE_KEY_GROUPS) as Record<string, ContactGroup> | null;
-      if (storedGroups) {
-        setContactGroups(storedGroups);
-      } else if (localStorage.getItem(STORAGE_KEY_GROUPS)) {
-        hasCorruptedData = true;
-      }
+      const storedGroups = await contactsDb.getGroups();
+      setContactGroups(storedGroups);
 
       // Load metadata
+      let hasCorruptedData = corrupted > 0;
       const metadata = secureStorage.getItem(STORAGE_KEY_METADATA) as ContactsMetadata | null;
       if (metadata) {
         setLastSyncTime(metadata.lastSyncTime);
-      } else if (localStorage.getItem(STORAGE_KEY_METADATA)) {
+      } else if (secureStorage.hasItem(STORAGE_KEY_METADATA)) {
         hasCorruptedData = true;
       }
 
+      // Data that a failed migration left behind, or that a newer version of
+      // the app wrote, isn't corrupted; keep it so the upgrade can be retried
+      const { lastFailure } = getStorageSchema();
+      if (lastFailure || (metadata && metadata.version > STORAGE_SCHEMA_VERSION)) {
+        console.warn('Contacts cache is not in the current storage format, leaving it untouched');
+        setError('Stored contacts could not be upgraded to this version of gBroadcast.');
+        hasCorruptedData = false;
+      }
+
       // If any data was corrupted, clear all contact-related data for consistency
       if (hasCorruptedData) {
-        console.warn('Corrupted contact data detected. Clearing all contact data.');
-        secureStorage.clearContactsData();
+        console.warn(`Corrupted contact data detected (${corrupted} unreadable contacts). Clearing all contact data.`);
+        await clearContactsCache();
+        setContacts([]);
+        setContactGroups({});
+        setLastSyncTime(null);
         setError('Some contact data was corrupted and has been cleared. Syncing from server...');
       }
 
       setIsInitialized(true);
       
       // If we have loaded contacts, we can set loading to false
-      if (storedContacts && storedContacts.length > 0) {
+      if (storedContacts.length > 0 && !hasCorruptedData) {
         setIsLoading(false);
       }
       
@@ -79,56 +151,61 @@ export const useContactsStorage = () => {
       console.error('Error loading contacts from storage:', err);
       setError('Failed to load contacts from local storage');
       // Clear all contact data if any error occurs during loading
-      secureStorage.clearContactsData();
+      await clearContactsCache();
+      setIsInitialized(true);
       setIsLoading(false); // Still set loading to false to avoid infinite loading
     }
   }, []);
 
-  // Save contacts to local storage - improved to handle large data sets
-  const saveToStorage = useCallback((newContacts?: Contact[], newGroups?: Record<string, ContactGroup>) => {
+  // Save a sync result. A full sync replaces the cache; an incremental one
+  // only writes the changed records and deletes the removed ones.
+  const saveToStorage = useCallback(async (
+    newContacts: Contact[],
+    newGroups?: Record<string, ContactGroup>,
+    syncToken?: string,
+    changes?: { changed: Contact[], removed: string[] }
+  ) => {
     try {
-      // Save contacts if provided, otherwise save current state
-      if (newContacts) {
-        // Store data in a single operation to avoid partial writes
-        secureStorage.setItem(STORAGE_KEY_CONTACTS, newContacts);
+      if (changes) {
+        await contactsDb.putContacts(changes.changed);
+        await contactsDb.deleteContacts(changes.removed);
+        console.log(`Saved ${changes.changed.length} changed and removed ${changes.removed.length} contacts in storage`);
+      } else {
+        await contactsDb.replaceContacts(newContacts);
         console.log(`Saved ${newContacts.length} contacts to storage`);
-      } else if (contacts.length > 0) {
-        secureStorage.setItem(STORAGE_KEY_CONTACTS, contacts);
-        console.log(`Saved ${contacts.length} contacts to storage`);
       }
 
-      // Save groups if provided, otherwise save current state
       if (newGroups) {
-        secureStorage.setItem(STORAGE_KEY_GROUPS, newGroups);
-      } else if (Object.keys(contactGroups).length > 0) {
-        secureStorage.setItem(STORAGE_KEY_GROUPS, contactGroups);
+        await contactsDb.replaceGroups(newGroups);
       }
 
       // Update metadata
       const now = Date.now();
       const metadata: ContactsMetadata = {
         lastSyncTime: now,
-        totalCount: newContacts?.length || contacts.length,
-        version: 1
+        totalCount: newContacts.length,
+        version: STORAGE_SCHEMA_VERSION,
+        syncToken
       };
       secureStorage.setItem(STORAGE_KEY_METADATA, metadata);
-      setLastSyncTime(now);
-      setSyncError(false);
+      secureStorage.flush().then(() => tabCoordinator.post({ type: 'contacts-updated' }));
+      if (isMountedRef.current) {
+        setLastSyncTime(now);
+        setSyncError(false);
+      }
       
       // Save last sync timestamp for contacts in preferences
       secureStorage.preferences.saveLastSync('contacts', now);
     } catch (err) {
+      // Keep the previous cache and sync token; without a new token the
+      // next sync downloads everything again and rewrites the cache
       console.error('Error saving contacts to storage:', err);
-      
-      // If storage error occurs, try to clear and save with fewer contacts
-      try {
-        secureStorage.clearContactsData();
-        console.warn('Storage error occurred. Cleared contacts data.');
-      } catch (clearErr) {
-        console.error('Failed to clear contacts data:', clearErr);
+      secureStorage.removeItem(STORAGE_KEY_METADATA);
+      if (isMountedRef.current) {
+        setError('Contacts were loaded but could not be saved on this device.');
       }
     }
-  }, [contacts, contactGroups]);
+  }, []);
 
   // Fetch contact groups from Google API
   const fetchContactGroups = useCallback(async (force = false) => {
@@ -161,10 +238,13 @@ export const useContactsStorage = () => {
     }
   }, [fetchWithToken, contactGroups]);
 
-  // Fetch all contacts using robust pagination
-  const fetchAllContacts = useCallback(async (): Promise<Contact[]> => {
-    let allContacts: Contact[] = [];
+  // Fetch connections using robust pagination. Without a sync token this
+  // downloads every contact; with one, only the people added, changed or
+  // deleted since the token was issued.
+  const fetchConnections = useCallback(async (syncToken?: string): Promise<{ people: Contact[], nextSyncToken?: string }> => {
+    let people: Contact[] = [];
     let nextPageToken: string | undefined = undefined;
+    let nextSyncToken: string | undefined = undefined;
     let pageCount = 0;
     const maxPages = 100; // Safety limit to prevent infinite loops
     let totalEstimated = 0;
@@ -174,18 +254,29 @@ export const useContactsStorage = () => {
         // Check if component is still mounted before continuing
         if (!isMountedRef.current) {
           console.log("Component unmounted during contact fetching, aborting");
-          return allContacts;
+          return { people };
         }
         
         // Increased page size to 2000 to reduce number of API calls
-        const pageUrl = nextPageToken 
-          ? `https://people.googleapis.com/v1/people/me/connections?personFields=names,photos,emailAddresses,phoneNumbers,memberships,userDefined,organizations&pageSize=2000&pageToken=${encodeURIComponent(nextPageToken)}`
-          : 'https://people.googleapis.com/v1/people/me/connections?personFields=names,photos,emailAddresses,phoneNumbers,memberships,userDefined,organizations&pageSize=2000';
+        const params = new URLSearchParams({
+          personFields: PERSON_FIELDS,
+          pageSize: '2000',
+          requestSyncToken: 'true'
+        });
+        if (syncToken) {
+          params.set('syncToken', syncToken);
+        }
+        if (nextPageToken) {
+          params.set('pageToken', nextPageToken);
+        }
         
         pageCount++;
-        console.log(`Fetching contacts page ${pageCount}`);
+        console.log(`Fetching ${syncToken ? 'contact changes' : 'contacts'} page ${pageCount}`);
         
-        const response = await fetchWithToken<{ connections?: Contact[], nextPageToken?: string, totalItems?: number, totalPeople?: number }>(pageUrl);
+        const response: ConnectionsResponse | null = await fetchWithToken<ConnectionsResponse>(
+          `${CONNECTIONS_URL}?${params.toString()}`,
+          { throwOnError: true }
+        );
         
         if (!response) {
           throw new Error("Failed to fetch contacts page");
@@ -194,29 +285,30 @@ export const useContactsStorage = () => {
         if (response.connections) {
           const newContacts = response.connections;
           console.log(`Page ${pageCount}: Got ${newContacts.length} contacts`);
-          allContacts = [...allContacts, ...newContacts];
+          people = [...people, ...newContacts];
           
           // Update total estimate if available
           if (response.totalPeople && !totalEstimated) {
             totalEstimated = response.totalPeople;
           }
           
-          // Check if component is still mounted before updating state
-          if (isMountedRef.current) {
-            // Update progress
+          // Progress is only meaningful for a full download
+          if (isMountedRef.current && !syncToken) {
             setSyncProgress({
-              current: allContacts.length,
-              total: totalEstimated || allContacts.length * 2 // Estimate if no total provided
+              current: people.length,
+              total: totalEstimated || people.length * 2 // Estimate if no total provided
             });
           }
-        } else {
+        } else if (!syncToken) {
           console.warn(`Page ${pageCount}: No connections returned`);
         }
         
         nextPageToken = response.nextPageToken;
+        // The sync token for next time comes with the last page
+        nextSyncToken = response.nextSyncToken || nextSyncToken;
         
         // Log progress
-        console.log(`Loaded ${allContacts.length} contacts${response.totalPeople ? ` of approximately ${response.totalPeople}` : ''}`);
+        console.log(`Loaded ${people.length} ${syncToken ? 'changed people' : 'contacts'}${response.totalPeople ? ` of approximately ${response.totalPeople}` : ''}`);
         
         // Safety check to prevent infinite loops
         if (pageCount >= maxPages) {
@@ -224,10 +316,7 @@ export const useContactsStorage = () => {
           break;
         }
         
-        // Short delay to avoid rate limiting
-        if (nextPageToken && isMountedRef.current) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+        // Pacing between pages is handled by the rate limiter in useSecureApi
         
       } while (nextPageToken && isMountedRef.current);
       
@@ -236,8 +325,8 @@ export const useContactsStorage = () => {
         setSyncProgress(null);
       }
       
-      console.log(`Finished fetching contacts. Total: ${allContacts.length} contacts`);
-      return allContacts;
+      console.log(`Finished fetching contacts. Total: ${people.length} ${syncToken ? 'changed people' : 'contacts'}`);
+      return { people, nextSyncToken };
       
     } catch (error) {
       console.error(`Error fetching contacts:`, error);
@@ -248,7 +337,8 @@ export const useContactsStorage = () => {
     }
   }, [fetchWithToken]);
 
-  // Fetch contacts from Google API with pagination
+  // Fetch contacts from Google API with pagination. Once a sync token is
+  // stored only the changes since the last sync are downloaded.
   const fetchContacts = useCallback(async (force = false) => {
     // Prevent multiple simultaneous sync operations
     if (syncInProgressRef.current) {
@@ -262,23 +352,26 @@ export const useContactsStorage = () => {
       return;
     }
     
-    // Skip if already loaded from storage and not forced
-    if (contacts.length > 0 && !force) {
+    const storedMetadata = secureStorage.getItem(STORAGE_KEY_METADATA) as ContactsMetadata | null;
+    const syncToken = contactsRef.current.length > 0 ? storedMetadata?.syncToken : undefined;
+    
+    // Skip if already loaded from storage, not forced and there is no cheap way to check for changes
+    if (contacts.length > 0 && !force && !syncToken) {
       console.log(`Using ${contacts.length} cached contacts. Set force=true to refresh.`);
       setIsLoading(false); // Ensure loading is set to false
       return;
     }
 
-    // Set loading and sync state
-    setIsLoading(true);
+    // Set loading and sync state; an incremental sync keeps showing the cached contacts
+    if (!syncToken) {
+      setIsLoading(true);
+    }
     setSyncInProgress(true);
     syncInProgressRef.current = true;
     setLastSyncAttempt(Date.now());
     setError(null);
     
     try {
-      console.log("Starting full contacts refresh...");
-      
       // Fetch contact groups first
       const groups = await fetchContactGroups(force);
       
@@ -288,9 +381,41 @@ export const useContactsStorage = () => {
         return;
       }
       
+      if (syncToken) {
+        try {
+          console.log("Fetching contact changes since the last sync...");
+          const { people, nextSyncToken } = await fetchConnections(syncToken);
+          
+          if (!isMountedRef.current) {
+            console.log("Component unmounted after fetching contact changes, aborting");
+            return;
+          }
+          
+          const { contacts: mergedContacts, changed, removed } = applyContactChanges(contactsRef.current, people);
+          setContacts(mergedContacts);
+          await saveToStorage(mergedContacts, groups || undefined, nextSyncToken || syncToken, { changed, removed });
+          setLastSyncChanges({ changed: changed.length, removed: removed.length });
+          setError(null);
+          setSyncError(false);
+          
+          console.log(`Incremental contact sync complete: ${changed.length} changed, ${removed.length} removed`);
+          return;
+        } catch (err) {
+          // Google expires sync tokens after about a week; start over with a full sync
+          if (!(err instanceof Error && err.message === EXPIRED_SYNC_TOKEN_ERROR)) {
+            throw err;
+          }
+          console.warn("Contacts sync token expired, falling back to a full sync");
+          setIsLoading(true);
+        }
+      }
+      
+      console.log("Starting full contacts refresh...");
+      setLastSyncChanges(null);
+      
       // Fetch all contacts using pagination
       console.log("Fetching all contacts with pagination...");
-      const allContacts = await fetchAllContacts();
+      const { people: allContacts, nextSyncToken } = await fetchConnections();
       
       // Check if component is still mounted again
       if (!isMountedRef.current) {
@@ -301,9 +426,7 @@ export const useContactsStorage = () => {
       if (allContacts.length > 0) {
         // Filter contacts with email addresses
         console.log(`Filtering contacts with email addresses (from ${allContacts.length} total contacts)...`);
-        const contactsWithEmail = allContacts.filter(
-          contact => contact.emailAddresses && contact.emailAddresses.length > 0
-        );
+        const contactsWithEmail = allContacts.filter(hasEmail);
         
         console.log(`Found ${contactsWithEmail.length} contacts with email addresses`);
         
@@ -318,7 +441,7 @@ export const useContactsStorage = () => {
         console.log(`Saving ${newContacts.length} contacts to storage...`);
         
         // Save to storage
-        saveToStorage(newContacts, groups || undefined);
+        await saveToStorage(newContacts, groups || undefined, nextSyncToken);
         setError(null);
         setSyncError(false);
         
@@ -343,7 +466,8 @@ export const useContactsStorage = () => {
       const metadata: ContactsMetadata = {
         lastSyncTime: now,
         totalCount: contacts.length,
-        version: 1
+        version: STORAGE_SCHEMA_VERSION,
+        syncToken: storedMetadata?.syncToken
       };
       secureStorage.setItem(STORAGE_KEY_METADATA, metadata);
       setLastSyncTime(now);
@@ -358,7 +482,7 @@ export const useContactsStorage = () => {
       // Always update the ref to ensure we don't get stuck
       syncInProgressRef.current = false;
     }
-  }, [fetchWithToken, contacts.length, fetchContactGroups, fetchAllContacts, saveToStorage, syncError, lastSyncAttempt]);
+  }, [contacts.length, fetchContactGroups, fetchConnections, saveToStorage, syncError, lastSyncAttempt]);
 
   // Clean up on unmount
   useEffect(() => {
@@ -379,7 +503,13 @@ export const useContactsStorage = () => {
   useEffect(() => {
     // Only run this effect once when initialized
     if (isInitialized && !syncInProgressRef.current) {
-      const shouldSync = !lastSyncTime || (Date.now() - lastSyncTime > SYNC_INTERVAL);
+      if (!ownsSync) {
+        setIsLoading(false);
+        return;
+      }
+      if (isLocked) return;
+      
+      const shouldSync = !lastSyncTime || (Date.now() - lastSyncTime > getSyncInterval());
       
       if (shouldSync || contacts.length === 0) {
         console.log("Triggering contact sync on initialization...");
@@ -388,20 +518,20 @@ export const useContactsStorage = () => {
         setIsLoading(false);
       }
     }
-  }, [isInitialized, lastSyncTime, contacts.length, fetchContacts]);
+  }, [isInitialized, ownsSync, isLocked, lastSyncTime, contacts.length, fetchContacts]);
 
   // Sync at interval - but prevent overlapping syncs
   useEffect(() => {
     // Clear any existing timers to avoid duplicates
     let syncTimer: number | undefined;
     
-    if (isInitialized) {
+    if (isInitialized && ownsSync && !isLocked) {
       // Use an interval to check if sync is needed
       syncTimer = window.setInterval(() => {
         // Only sync if not already in progress
         if (!syncInProgressRef.current && isMountedRef.current) {
-          // Only sync if the last sync was more than SYNC_INTERVAL ago
-          if (lastSyncTime && (Date.now() - lastSyncTime > SYNC_INTERVAL)) {
+          // Only sync if the last sync was longer ago than the sync interval
+          if (lastSyncTime && (Date.now() - lastSyncTime > getSyncInterval())) {
             // Don't sync if we recently had an error
             if (syncError && lastSyncAttempt && (Date.now() - lastSyncAttempt < SYNC_ERROR_BACKOFF)) {
               console.log("Skipping scheduled sync due to recent error");
@@ -421,7 +551,7 @@ export const useContactsStorage = () => {
         window.clearInterval(syncTimer);
       }
     };
-  }, [isInitialized, lastSyncTime, fetchContacts, syncError, lastSyncAttempt]);
+  }, [isInitialized, ownsSync, isLocked, lastSyncTime, fetchContacts, syncError, lastSyncAttempt]);
 
   // Update error from API
   useEffect(() => {
@@ -491,35 +621,49 @@ export const useContactsStorage = () => {
 
   // Force refresh all contacts
   const refreshContacts = useCallback(() => {
+    // Another tab owns the sync; it reports back with contacts-updated
+    if (!ownsSync) {
+      console.log("Asking the tab that owns contacts sync to refresh");
+      tabCoordinator.post({ type: 'contacts-sync-requested' });
+      return Promise.resolve();
+    }
+    
     if (syncInProgressRef.current) {
       console.log("Sync already in progress, skipping manual refresh");
       return Promise.resolve();
     }
     
+    // With a sync token only the changes need to be fetched
+    const metadata = secureStorage.getItem(STORAGE_KEY_METADATA) as ContactsMetadata | null;
+    if (metadata?.syncToken && contacts.length > 0) {
+      console.log("Manual refresh triggered - fetching changes since the last sync...");
+      setSyncError(false);
+      return fetchContacts(true);
+    }
+    
     console.log("Manual refresh triggered - clearing all contacts data...");
     // Clear stored contacts to ensure a full reload
-    secureStorage.clearContactsData();
     setContacts([]);
     setContactGroups({});
     setSyncError(false);
-    return fetchContacts(true);
-  }, [fetchContacts]);
-
-  // Save user filter preferences
-  const saveFilterPreferences = useCallback((filters: {
-    nameFilter?: string;
-    emailFilter?: string;
-    includeLabels?: string[];
-    excludeLabels?: string[];
-    orgFilter?: string;
-  }) => {
-    secureStorage.preferences.saveFilters(filters);
-  }, []);
+    return clearContactsCache().then(() => fetchContacts(true));
+  }, [fetchContacts, contacts.length, ownsSync]);
+
+  // Reload the cache after another tab synced, and sync when another tab asks
+  const refreshContactsRef = useRef(refreshContacts);
+  refreshContactsRef.current = refreshContacts;
   
-  // Get user filter preferences
-  const getFilterPreferences = useCallback(() => {
-    return secureStorage.preferences.getFilters();
-  }, []);
+  useEffect(() => {
+    return tabCoordinator.subscribe(async (message) => {
+      if (message.type === 'contacts-sync-requested' && ownsSync) {
+        refreshContactsRef.current();
+      } else if (message.type === 'contacts-updated' && !ownsSync) {
+        await secureStorage.reloadItems([STORAGE_KEY_METADATA]);
+        console.log("Contacts were synced in another tab, reloading");
+        loadFromStorage();
+      }
+    });
+  }, [ownsSync, loadFromStorage]);
 
   return {
     contacts,
@@ -528,11 +672,10 @@ export const useContactsStorage = () => {
     error,
     lastSyncTime,
     syncProgress,
+    lastSyncChanges,
     getContactsWithEmail,
     getContactLabels,
     getOrganizationDetails,
-    refreshContacts,
-    saveFilterPreferences,
-    getFilterPreferences
+    refreshContacts
   };
 };
\ No newline at end of file
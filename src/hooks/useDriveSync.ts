@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { createDriveAppDataClient } from '../utils/driveClient';
+import { getAppConfig } from '../utils/appConfig';
+import { secureStorage } from '../utils/secureStorage';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { useTabRole } from './useTabRole';
+import {
+  syncAll,
+  getSyncState,
+  getSyncConflicts,
+  dismissSyncConflict,
+  restoreSyncConflict,
+  reloadSyncedData,
+  SYNC_LOCAL_CHANGE_EVENT
+} from '../utils/driveSync';
+import { SyncConflict, SyncStatus } from '../types/sync';
+
+// Wait for edits to settle before uploading them
+const LOCAL_CHANGE_DEBOUNCE = 5000;
+// Minimum time between syncs triggered by returning to the tab
+const getFocusSyncInterval = () => getAppConfig().syncIntervals.driveOnFocusSeconds * 1000;
+
+export const useDriveSync = () => {
+  const { isAuthenticated, isLocked, getAccessToken, hasScopes, requestScopes } = useAuth();
+  // Drive access isn't part of the login; sync stays off until it's granted
+  const canSync = getAppConfig().features.driveSync && isAuthenticated && hasScopes(['driveAppData']);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(() => getSyncState().lastSyncedAt);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => getSyncConflicts());
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  // Only one tab syncs with Drive; the others ask it to and reload after
+  const ownsDriveSync = useTabRole('drive-sync');
+
+  const syncingRef = useRef(false);
+  const pendingRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  // getAccessToken changes identity with the auth state; read it through a
+  // ref so that doesn't re-run the sync effect
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
+
+  const client = useMemo(() => createDriveAppDataClient({
+    getAccessToken: () => getAccessTokenRef.current(),
+    baseUrl: getAppConfig().driveApiUrl,
+    uploadUrl: getAppConfig().driveUploadUrl
+  }), []);
+
+  const syncNow = useCallback(async () => {
+    if (!ownsDriveSync) {
+      // The owning tab has to see this tab's changes before it uploads them
+      await secureStorage.flush();
+      tabCoordinator.post({ type: 'drive-sync-requested' });
+      return;
+    }
+
+    // Run again once the current sync finishes instead of overlapping it
+    if (syncingRef.current) {
+      pendingRef.current = true;
+      return;
+    }
+
+    syncingRef.current = true;
+    setStatus('syncing');
+
+    try {
+      do {
+        pendingRef.current = false;
+        const result = await syncAll(client);
+        if (!mountedRef.current) return;
+
+        setLastSyncedAt(result.syncedAt);
+        setConflicts(getSyncConflicts());
+        setSyncError(result.errors.length > 0 ? result.errors.join('; ') : null);
+        setStatus(result.errors.length > 0 ? 'error' : 'idle');
+      } while (pendingRef.current && mountedRef.current);
+
+      await secureStorage.flush();
+      tabCoordinator.post({ type: 'drive-synced' });
+    } catch (error) {
+      console.error('Drive sync failed:', error);
+      if (mountedRef.current) {
+        setSyncError(error instanceof Error ? error.message : 'Sync failed');
+        setStatus('error');
+      }
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [client, ownsDriveSync]);
+
+  const dismissConflict = useCallback((id: string) => {
+    dismissSyncConflict(id);
+    setConflicts(getSyncConflicts());
+  }, []);
+
+  const restoreConflict = useCallback((id: string) => {
+    restoreSyncConflict(id);
+    setConflicts(getSyncConflicts());
+  }, []);
+
+  const enableSync = useCallback(async () => {
+    try {
+      await requestScopes(['driveAppData']);
+    } catch (error) {
+      console.error('Error requesting Drive access:', error);
+      if (mountedRef.current) {
+        setSyncError(error instanceof Error ? error.message : 'Drive access was not granted');
+      }
+    }
+  }, [requestScopes]);
+
+  // Sync after login, after local edits and when the user comes back to the
+  // tab. Paused while the app is locked, and synced again on unlocking.
+  useEffect(() => {
+    mountedRef.current = true;
+    if (!canSync || isLocked) return;
+
+    let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleLocalChange = () => {
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(syncNow, LOCAL_CHANGE_DEBOUNCE);
+    };
+
+    const handleVisibilityChange = () => {
+      const last = getSyncState().lastSyncedAt || 0;
+      if (document.visibilityState === 'visible' && Date.now() - last > getFocusSyncInterval()) {
+        syncNow();
+      }
+    };
+
+    // Another tab's changes, and the results of the owning tab's syncs
+    const unsubscribe = tabCoordinator.subscribe(async (message) => {
+      if (message.type === 'drive-sync-requested' && ownsDriveSync) {
+        await secureStorage.flush();
+        await reloadSyncedData();
+        handleLocalChange();
+      } else if (message.type === 'drive-synced' && !ownsDriveSync) {
+        await reloadSyncedData(true);
+        if (mountedRef.current) {
+          setLastSyncedAt(getSyncState().lastSyncedAt);
+          setConflicts(getSyncConflicts());
+        }
+      }
+    });
+
+    if (ownsDriveSync) {
+      syncNow();
+    }
+    window.addEventListener(SYNC_LOCAL_CHANGE_EVENT, handleLocalChange);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      mountedRef.current = false;
+      clearTimeout(debounceTimer);
+      unsubscribe();
+      window.removeEventListener(SYNC_LOCAL_CHANGE_EVENT, handleLocalChange);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [canSync, isLocked, ownsDriveSync, syncNow]);
+
+  return {
+    canSync,
+    enableSync,
+    status,
+    lastSyncedAt,
+    conflicts,
+    syncError,
+    syncNow,
+    dismissConflict,
+    restoreConflict
+  };
+};
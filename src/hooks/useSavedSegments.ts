@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { secureStorage } from '../utils/secureStorage';
+import { markLocalChange, SYNC_APPLIED_EVENT } from '../utils/driveSync';
+import { normalizeSegmentFilters, hasActiveFilters } from '../utils/segmentFilters';
+import { SavedSegment, SegmentFilters } from '../types/segments';
+
+// Name given to the single filter saved by earlier versions
+const LEGACY_SEGMENT_NAME = 'Saved filters';
+
+const createSegmentId = (): string => {
+  return `seg_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const loadSegments = (): SavedSegment[] => {
+  try {
+    const stored = secureStorage.preferences.getSegments();
+    if (stored) {
+      return stored.map(segment => ({ ...segment, filters: normalizeSegmentFilters(segment.filters) }));
+    }
+
+    // Earlier versions kept one filter per account; it becomes the first
+    // segment the first time this account's segments are read
+    const legacy = normalizeSegmentFilters(secureStorage.preferences.getFilters());
+    if (!hasActiveFilters(legacy)) return [];
+
+    const now = Date.now();
+    const segments = [{ id: createSegmentId(), name: LEGACY_SEGMENT_NAME, filters: legacy, createdAt: now, updatedAt: now }];
+    secureStorage.preferences.saveSegments(segments);
+    return segments;
+  } catch (error) {
+    console.error('Error loading segments:', error);
+    return [];
+  }
+};
+
+export const useSavedSegments = () => {
+  const [segments, setSegments] = useState<SavedSegment[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setSegments(loadSegments());
+    setLoaded(true);
+
+    // Pick up segments changed on another device
+    const handleSyncApplied = (event: Event) => {
+      if ((event as CustomEvent).detail?.document === 'filters') {
+        setSegments(loadSegments());
+      }
+    };
+
+    window.addEventListener(SYNC_APPLIED_EVENT, handleSyncApplied);
+    return () => window.removeEventListener(SYNC_APPLIED_EVENT, handleSyncApplied);
+  }, []);
+
+  // Update state and storage together, always starting from the stored list
+  // so that several hook instances don't overwrite each other's changes
+  const persist = useCallback((update: (current: SavedSegment[]) => SavedSegment[]) => {
+    const next = update(loadSegments());
+    secureStorage.preferences.saveSegments(next);
+    markLocalChange('filters');
+    setSegments(next);
+    return next;
+  }, []);
+
+  const createSegment = useCallback((name: string, filters: SegmentFilters): SavedSegment => {
+    const now = Date.now();
+    const segment: SavedSegment = {
+      id: createSegmentId(),
+      name: name.trim(),
+      filters,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    persist(current => [...current, segment]);
+    return segment;
+  }, [persist]);
+
+  const updateSegment = useCallback((id: string, changes: Partial<Pick<SavedSegment, 'name' | 'filters'>>) => {
+    persist(current => current.map(segment => (
+      segment.id === id
+        ? { ...segment, ...changes, name: (changes.name ?? segment.name).trim(), updatedAt: Date.now() }
+        : segment
+    )));
+  }, [persist]);
+
+  const deleteSegment = useCallback((id: string) => {
+    persist(current => current.filter(segment => segment.id !== id));
+  }, [persist]);
+
+  return {
+    segments,
+    loaded,
+    createSegment,
+    updateSegment,
+    deleteSegment
+  };
+};
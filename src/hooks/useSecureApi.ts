@@ -1,10 +1,45 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
+import {
+  rateLimiter,
+  sendQuota,
+  getRateLimitBucket,
+  getRetryDelay,
+  isRetryableStatus,
+  sleep,
+  MAX_RETRIES
+} from '../utils/rateLimiter';
+
+// Messages of errors caused by a missing or expired session
+export const NOT_AUTHENTICATED_ERROR = 'Not authenticated';
+export const SESSION_EXPIRED_ERROR = 'Session expired. Please log in again.';
+// People API sync token is too old to be used for an incremental sync
+export const EXPIRED_SYNC_TOKEN_ERROR = 'Sync token expired';
+// Google was still throttling the request once the retries ran out
+export const RATE_LIMITED_ERROR = 'Too many requests. Google is still rate limiting after several retries, please try again later.';
+// A send failed in a way that doesn't tell whether Gmail accepted the message
+export const DELIVERY_UNCERTAIN_ERROR = 'Gmail did not confirm this message, it may have been sent. Check your Sent folder before retrying.';
+
+// Google reports some per-user rate limits as 403 rather than 429
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+const isRateLimitedForbidden = async (response: Response): Promise<boolean> => {
+  if (response.status !== 403) return false;
+  try {
+    const errorData = await response.clone().json();
+    const reasons: string[] = (errorData.error?.errors || []).map((e: { reason?: string }) => e.reason);
+    return reasons.some(reason => RATE_LIMIT_REASONS.includes(reason));
+  } catch {
+    return false;
+  }
+};
 
 interface ApiOptions {
   method?: string;
   body?: any;
   headers?: Record<string, string>;
+  // Re-throw failures to the caller instead of only reporting them via `error`
+  throwOnError?: boolean;
 }
 
 export const useSecureApi = () => {
@@ -34,12 +69,20 @@ export const useSecureApi = () => {
       setPendingRequests(pendingRef.current);
     }
     
+    const method = options.method || 'GET';
+    const bucket = getRateLimitBucket(url, method);
+    // Sending again after a server error or timeout can deliver the message
+    // twice, so sends are only retried when Google throttled them
+    const isSend = bucket === 'gmail.send';
+    // Whether a request was made that hasn't been answered yet
+    let inFlight = false;
+    
     try {
       // Get a valid access token (refreshed if needed)
       const token = await getAccessToken();
       
       if (!token) {
-        throw new Error('Not authenticated');
+        throw new Error(NOT_AUTHENTICATED_ERROR);
       }
       
       // Prepare headers with authorization
@@ -55,32 +98,71 @@ export const useSecureApi = () => {
         requestBody = JSON.stringify(options.body);
       }
       
-      // Add timeout for request
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+      let response: Response;
+      let throttled = false;
       
-      // Make the API request
-      const response = await fetch(url, {
-        method: options.method || 'GET',
-        headers,
-        body: requestBody,
-        signal: controller.signal
-      });
+      // Throttle through the shared rate limiter and retry throttling and
+      // transient server errors with backoff
+      for (let attempt = 0; ; attempt++) {
+        await rateLimiter.acquire(bucket, controller.signal);
+        
+        // Add timeout for each attempt
+        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+        
+        try {
+          // Make the API request
+          inFlight = true;
+          response = await fetch(url, {
+            method,
+            headers,
+            body: requestBody,
+            signal: controller.signal
+          });
+          inFlight = false;
+        } finally {
+          clearTimeout(timeoutId);
+        }
+        
+        throttled = response.status === 429 || await isRateLimitedForbidden(response);
+        const retryable = throttled || (!isSend && isRetryableStatus(response.status));
+        if (retryable && attempt < MAX_RETRIES) {
+          const delay = getRetryDelay(attempt, response.headers.get('Retry-After'));
+          rateLimiter.penalize(bucket, delay, throttled);
+          console.warn(`Request to ${bucket} failed with ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1} of ${MAX_RETRIES})`);
+          await sleep(delay, controller.signal);
+          continue;
+        }
+        
+        break;
+      }
       
-      clearTimeout(timeoutId);
+      if (response.ok) {
+        rateLimiter.reward(bucket);
+        if (bucket === 'gmail.send') {
+          sendQuota.recordSend();
+        }
+      }
       
       if (!response.ok) {
         if (response.status === 401) {
           // Token is invalid or expired
           logout();
-          throw new Error('Session expired. Please log in again.');
+          throw new Error(SESSION_EXPIRED_ERROR);
+        }
+        
+        if (throttled) {
+          // Keep the bucket held back for as long as Google asks, so callers
+          // can tell when to try again
+          rateLimiter.penalize(bucket, getRetryDelay(MAX_RETRIES, response.headers.get('Retry-After')), true);
+          throw new Error(RATE_LIMITED_ERROR);
         }
         
         if (response.status === 403) {
           throw new Error('You do not have permission to access this resource. Check your Google account permissions.');
         }
         
-        if (response.status === 429) {
-          throw new Error('Too many requests. Please try again later.');
+        if (isSend && response.status >= 500) {
+          throw new Error(DELIVERY_UNCERTAIN_ERROR);
         }
         
         // Try to get error details from response
@@ -90,6 +172,10 @@ export const useSecureApi = () => {
           if (errorData.error?.message) {
             errorMessage = errorData.error.message;
           }
+          const reasons: string[] = (errorData.error?.details || []).map((d: { reason?: string }) => d.reason);
+          if (reasons.includes('EXPIRED_SYNC_TOKEN')) {
+            errorMessage = EXPIRED_SYNC_TOKEN_ERROR;
+          }
         } catch (e) {
           // Ignore parse errors
         }
@@ -102,15 +188,23 @@ export const useSecureApi = () => {
       return data as T;
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') {
-        const abortError = new Error('Request timed out. Please try again.');
+        const abortError = new Error(isSend && inFlight ? DELIVERY_UNCERTAIN_ERROR : 'Request timed out. Please try again.');
         if (mountedRef.current) {
           setError(abortError);
         }
+        if (options.throwOnError) {
+          throw abortError;
+        }
       } else {
-        const apiError = err instanceof Error ? err : new Error('An unknown error occurred');
+        // fetch rejects with a TypeError when the connection fails
+        const lostSend = isSend && inFlight && err instanceof TypeError;
+        const apiError = lostSend ? new Error(DELIVERY_UNCERTAIN_ERROR) : err instanceof Error ? err : new Error('An unknown error occurred');
         if (mountedRef.current) {
           setError(apiError);
         }
+        if (options.throwOnError) {
+          throw apiError;
+        }
       }
       return null;
     } finally {
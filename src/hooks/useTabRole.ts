@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { tabCoordinator } from '../utils/tabCoordinator';
+import { TabRole } from '../types/tabs';
+
+// Whether this tab currently owns the role. The claim is given up on unmount
+// so another tab can take over.
+export const useTabRole = (role: TabRole) => {
+  const [isOwner, setIsOwner] = useState(false);
+
+  useEffect(() => tabCoordinator.claimRole(role, setIsOwner), [role]);
+
+  return isOwner;
+};
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadTemplates, saveTemplates } from '../utils/templateStorage';
+import { markLocalChange, SYNC_APPLIED_EVENT } from '../utils/driveSync';
+import { MessageTemplate, TemplateContent } from '../types/templates';
+
+const MAX_TEMPLATE_VERSIONS = 25;
+
+const createTemplateId = (): string => {
+  return `tpl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const useTemplates = () => {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setTemplates(loadTemplates());
+    setLoaded(true);
+
+    // Pick up templates changed on another device
+    const handleSyncApplied = (event: Event) => {
+      if ((event as CustomEvent).detail?.document === 'templates') {
+        setTemplates(loadTemplates());
+      }
+    };
+
+    window.addEventListener(SYNC_APPLIED_EVENT, handleSyncApplied);
+    return () => window.removeEventListener(SYNC_APPLIED_EVENT, handleSyncApplied);
+  }, []);
+
+  // Update state and storage together, always starting from the stored list
+  // so that several hook instances don't overwrite each other's changes
+  const persist = useCallback((update: (current: MessageTemplate[]) => MessageTemplate[]) => {
+    const next = update(loadTemplates());
+    saveTemplates(next);
+    markLocalChange('templates');
+    setTemplates(next);
+    return next;
+  }, []);
+
+  const createTemplate = useCallback((content: TemplateContent): MessageTemplate => {
+    const now = Date.now();
+    const template: MessageTemplate = {
+      ...content,
+      id: createTemplateId(),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      history: []
+    };
+
+    persist(current => [template, ...current]);
+    return template;
+  }, [persist]);
+
+  // Save an edit, keeping the previous content in the version history
+  const updateTemplate = useCallback((id: string, content: TemplateContent) => {
+    persist(current => current.map(template => {
+      if (template.id !== id) return template;
+
+      const unchanged = template.name === content.name &&
+        template.subject === content.subject &&
+        template.body === content.body &&
+        template.bodyFormat === content.bodyFormat;
+      if (unchanged) return template;
+
+      const previous = {
+        name: template.name,
+        subject: template.subject,
+        body: template.body,
+        bodyFormat: template.bodyFormat,
+        version: template.version,
+        savedAt: template.updatedAt
+      };
+
+      return {
+        ...template,
+        ...content,
+        version: template.version + 1,
+        updatedAt: Date.now(),
+        history: [previous, ...template.history].slice(0, MAX_TEMPLATE_VERSIONS)
+      };
+    }));
+  }, [persist]);
+
+  const duplicateTemplate = useCallback((id: string): MessageTemplate | null => {
+    const source = loadTemplates().find(template => template.id === id);
+    if (!source) return null;
+
+    return createTemplate({
+      name: `${source.name} (copy)`,
+      subject: source.subject,
+      body: source.body,
+      bodyFormat: source.bodyFormat
+    });
+  }, [createTemplate]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    persist(current => current.filter(template => template.id !== id));
+  }, [persist]);
+
+  // Roll back to an earlier version; the rollback itself becomes a new version
+  const restoreVersion = useCallback((id: string, version: number) => {
+    const template = loadTemplates().find(t => t.id === id);
+    const target = template?.history.find(v => v.version === version);
+    if (!template || !target) return;
+
+    updateTemplate(id, {
+      name: target.name,
+      subject: target.subject,
+      body: target.body,
+      bodyFormat: target.bodyFormat
+    });
+  }, [updateTemplate]);
+
+  return {
+    templates,
+    loaded,
+    createTemplate,
+    updateTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    restoreVersion
+  };
+};
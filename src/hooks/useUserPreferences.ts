@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { secureStorage } from '../utils/secureStorage';
+import { markLocalChange, SYNC_APPLIED_EVENT } from '../utils/driveSync';
 
 export type ThemePreference = 'light' | 'dark' | 'system';
 export type ViewMode = 'list' | 'grid' | 'compact';
@@ -10,6 +11,7 @@ interface FilterPreferences {
   includeLabels?: string[];
   excludeLabels?: string[];
   orgFilter?: string;
+  segmentQuery?: string;
   lastUsed?: string; // ISO date string
 }
 
@@ -27,7 +29,7 @@ export const useUserPreferences = () => {
   });
   const [loaded, setLoaded] = useState(false);
 
-  // Load all preferences on mount
+  // Load all preferences on mount and whenever Drive sync replaces them
   useEffect(() => {
     const loadPreferences = () => {
       try {
@@ -50,18 +52,23 @@ export const useUserPreferences = () => {
     };
     
     loadPreferences();
+    
+    window.addEventListener(SYNC_APPLIED_EVENT, loadPreferences);
+    return () => window.removeEventListener(SYNC_APPLIED_EVENT, loadPreferences);
   }, []);
 
   // Update theme preference
   const setTheme = useCallback((theme: ThemePreference) => {
     setPreferences(prev => ({ ...prev, theme }));
     secureStorage.preferences.saveTheme(theme);
+    markLocalChange('preferences');
   }, []);
 
   // Update view mode preference
   const setViewMode = useCallback((viewMode: ViewMode) => {
     setPreferences(prev => ({ ...prev, viewMode }));
     secureStorage.preferences.saveViewMode(viewMode);
+    markLocalChange('preferences');
   }, []);
 
   // Save filter preferences
@@ -78,6 +85,7 @@ export const useUserPreferences = () => {
     }));
     
     secureStorage.preferences.saveFilters(filtersWithTimestamp);
+    markLocalChange('filters');
   }, []);
 
   // Clear all filter preferences
@@ -85,6 +93,7 @@ export const useUserPreferences = () => {
     const emptyFilters = {};
     setPreferences(prev => ({ ...prev, filters: emptyFilters }));
     secureStorage.preferences.saveFilters(emptyFilters);
+    markLocalChange('filters');
   }, []);
 
   return {
@@ -3,33 +3,43 @@ import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { GoogleOAuthProvider } from '@react-oauth/google';
 import App from './App';
+import SetupDiagnosticsPage from './pages/SetupDiagnosticsPage';
+import { loadAppConfig } from './utils/appConfig';
 import './index.css';
 
-// Get Google Client ID from environment variables
-const GOOGLE_CLIENT_ID = import.meta.env.VITE_GOOGLE_CLIENT_ID || '';
+const root = createRoot(document.getElementById('root')!);
 
-// Log environment configuration (in dev only)
-if (import.meta.env.DEV) {
-  console.log('Environment:', import.meta.env.MODE);
-  console.log('Google Client ID configured:', GOOGLE_CLIENT_ID ? 'Yes' : 'No');
-  
-  if (!GOOGLE_CLIENT_ID) {
-    console.warn('⚠️ Google Client ID is not set! Please add it to .env.local file');
-    console.warn('OAuth login will not work without a client ID');
+// The configuration is read at runtime so one build can serve several
+// deployments; nothing else renders until it has been validated
+loadAppConfig().then(result => {
+  // Log environment configuration (in dev only)
+  if (import.meta.env.DEV) {
+    console.log('Environment:', import.meta.env.MODE);
+    console.log('Configuration read from', result.source);
   }
-}
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
-      <BrowserRouter
-        future={{
-          v7_startTransition: true,
-          v7_relativeSplatPath: true
-        }}
-      >
-        <App />
-      </BrowserRouter>
-    </GoogleOAuthProvider>
-  </StrictMode>
-);
\ No newline at end of file
+  if (!result.config) {
+    console.warn('⚠️ The app configuration is not valid:', result.issues);
+    root.render(
+      <StrictMode>
+        <SetupDiagnosticsPage result={result} />
+      </StrictMode>
+    );
+    return;
+  }
+
+  root.render(
+    <StrictMode>
+      <GoogleOAuthProvider clientId={result.config.googleClientId}>
+        <BrowserRouter
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true
+          }}
+        >
+          <App />
+        </BrowserRouter>
+      </GoogleOAuthProvider>
+    </StrictMode>
+  );
+});
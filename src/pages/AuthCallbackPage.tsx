@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import {
+  completeAuthCodeLogin,
+  completeRedirectLogin,
+  isRedirectLoginResponse,
+  fetchGoogleUser
+} from '../utils/authCodeFlow';
+import { parseGrantedScopes } from '../utils/oauthScopes';
+import { LoginTokenDetails, User } from '../types/auth';
+import { AlertTriangle } from 'lucide-react';
+
+interface CompletedLogin {
+  accessToken: string;
+  user: User;
+  details: LoginTokenDetails;
+  returnTo?: string;
+}
+
+// A code can only be exchanged once; StrictMode runs effects twice, so the
+// exchange is shared between both runs
+let pendingExchange: { response: string; promise: Promise<CompletedLogin> } | null = null;
+
+const exchangeCode = (search: string, hash: string): Promise<CompletedLogin> => {
+  if (pendingExchange?.response !== search + hash) {
+    pendingExchange = {
+      response: search + hash,
+      promise: (async () => {
+        // The redirect fallback for blocked popups brings the token itself
+        const tokens = isRedirectLoginResponse(hash)
+          ? completeRedirectLogin(hash)
+          : await completeAuthCodeLogin(search);
+        const user = await fetchGoogleUser(tokens.accessToken);
+        return {
+          accessToken: tokens.accessToken,
+          user,
+          details: {
+            refreshToken: tokens.session,
+            expiresIn: tokens.expiresIn,
+            scopes: parseGrantedScopes(tokens.scope)
+          },
+          returnTo: tokens.returnTo
+        };
+      })()
+    };
+  }
+  return pendingExchange.promise;
+};
+
+// Google redirects here after consent in the authorization-code login mode,
+// and after a redirect login when popups are blocked
+const AuthCallbackPage = () => {
+  const { login } = useAuth();
+  const location = useLocation();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    exchangeCode(location.search, location.hash)
+      .then(({ accessToken, user, details, returnTo }) => {
+        if (!cancelled) {
+          login(accessToken, user, details, returnTo);
+        }
+      })
+      .catch(err => {
+        console.error('Error completing login:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to complete the login');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [location.search, location.hash, login]);
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md animate-fadeIn">
+        {error ? (
+          <div className="bg-white py-8 px-4 shadow-soft rounded-xl sm:px-10 border border-slate-200">
+            <div className="rounded-lg bg-red-50 p-4 border border-red-200">
+              <div className="flex items-start">
+                <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" aria-hidden="true" />
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800">Login Error</h3>
+                  <p className="text-sm text-red-700 mt-1">{error}</p>
+                </div>
+              </div>
+            </div>
+            <Link to="/login" className="btn btn-primary w-full mt-4">
+              Back to login
+            </Link>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+            <p className="mt-4 text-sm text-slate-600">Completing sign in...</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthCallbackPage;
@@ -1,11 +1,25 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { useContactsStorage } from '../hooks/useContactsStorage';
-import { useUserPreferences } from '../hooks/useUserPreferences';
-import { Search, User, X, ExternalLink, Briefcase, AlertCircle, ChevronDown, Check, Filter, Save, RotateCw } from 'lucide-react';
+import { useSavedSegments } from '../hooks/useSavedSegments';
+import { useContactSearch } from '../hooks/useContactSearch';
+import { useAuth } from '../context/AuthContext';
+import BroadcastComposer from '../components/BroadcastComposer';
+import GrantAccessPrompt from '../components/GrantAccessPrompt';
+import SegmentFilter from '../components/SegmentFilter';
+import SegmentMenu from '../components/SegmentMenu';
+import SelectionMenu from '../components/SelectionMenu';
+import SelectionSummary from '../components/SelectionSummary';
+import { hasActiveFilters, areFiltersEqual } from '../utils/segmentFilters';
+import VirtualList from '../components/VirtualList';
+import ContactRow from '../components/ContactRow';
+import { Search, User, X, AlertCircle, ChevronDown, Check, Filter, RotateCw, Send } from 'lucide-react';
 import { Contact, ContactLabel } from '../types/contacts';
+import { SavedSegment, SegmentFilters } from '../types/segments';
 
-// Increased from 50 to 100 for better initial loading
-const CONTACTS_PER_PAGE = 100; 
+// Rows of the contacts table are virtualized and all this high
+const CONTACT_ROW_HEIGHT = 52;
+
+const getContactKey = (contact: Contact) => contact.resourceName;
 
 const ContactsPage = () => {
   const { 
@@ -16,13 +30,19 @@ const ContactsPage = () => {
     error,
     refreshContacts,
     syncProgress,
-    saveFilterPreferences,
-    getFilterPreferences
+    lastSyncChanges,
+    contactGroups
   } = useContactsStorage();
   
-  const { preferences, saveFilters } = useUserPreferences();
+  const { segments, createSegment, updateSegment, deleteSegment } = useSavedSegments();
+  const { hasScopes } = useAuth();
   
   const [selectedContacts, setSelectedContacts] = useState<Set<string>>(new Set());
+  const [composerOpen, setComposerOpen] = useState(false);
+  // Segment the composer opens with, instead of the selected contacts
+  const [composerSegmentId, setComposerSegmentId] = useState<string | null>(null);
+  // Segment whose filters were last applied or saved
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
   
   // Filters
   const [nameFilter, setNameFilter] = useState('');
@@ -30,21 +50,16 @@ const ContactsPage = () => {
   const [includeLabels, setIncludeLabels] = useState<string[]>([]);
   const [excludeLabels, setExcludeLabels] = useState<string[]>([]);
   const [orgFilter, setOrgFilter] = useState('');
+  const [segmentQuery, setSegmentQuery] = useState('');
   
   // Dropdown states
   const [includeLabelDropdownOpen, setIncludeLabelDropdownOpen] = useState(false);
   const [excludeLabelDropdownOpen, setExcludeLabelDropdownOpen] = useState(false);
   
-  // Select all
-  const [selectAll, setSelectAll] = useState(false);
-
-  // Infinite scrolling
-  const [visibleCount, setVisibleCount] = useState(CONTACTS_PER_PAGE);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const contactListRef = useRef<HTMLDivElement>(null);
+  // Rows of filteredContacts currently scrolled into view
+  const [visibleRange, setVisibleRange] = useState({ start: 0, end: 0 });
   const includeDropdownRef = useRef<HTMLDivElement>(null);
   const excludeDropdownRef = useRef<HTMLDivElement>(null);
-  const loaderRef = useRef<HTMLDivElement>(null);
 
   // Get all contacts with email from local storage
   const allContactsWithEmail = useMemo(() => getContactsWithEmail(), [getContactsWithEmail]);
@@ -64,110 +79,71 @@ const ContactsPage = () => {
     return Array.from(labelSet).sort((a, b) => a.localeCompare(b));
   }, [allContactsWithEmail, getContactLabels]);
 
-  // Apply filters to contacts
-  const filteredContacts = useMemo(() => {
-    return allContactsWithEmail.filter(contact => {
-      const displayName = contact.names?.[0]?.displayName || '';
-      
-      // Email filtering - check all email addresses
-      const emails = contact.emailAddresses || [];
-      const emailValues = emails.map(email => email.value.toLowerCase());
-      const hasMatchingEmail = emailFilter.trim() === '' || 
-        emailValues.some(email => email.includes(emailFilter.toLowerCase()));
-      
-      // Label filtering with include/exclude logic
-      const contactLabels = getContactLabels(contact);
-      const contactLabelNames = contactLabels.map(label => label.name);
-      
-      // For include labels: contact must have AT LEAST ONE of the selected include labels (if any are selected)
-      const matchesIncludeLabels = includeLabels.length === 0 || 
-        includeLabels.some(label => contactLabelNames.includes(label));
-      
-      // For exclude labels: contact must NOT have ANY of the selected exclude labels
-      const matchesExcludeLabels = excludeLabels.length === 0 || 
-        !excludeLabels.some(label => contactLabelNames.includes(label));
-      
-      // Organization filtering
-      const orgDetails = getOrganizationDetails(contact);
-      const orgSearch = orgFilter.toLowerCase();
-      const hasMatchingOrg = orgFilter.trim() === '' || (
-        orgDetails && (
-          (orgDetails.name && orgDetails.name.toLowerCase().includes(orgSearch)) ||
-          (orgDetails.title && orgDetails.title.toLowerCase().includes(orgSearch)) ||
-          (orgDetails.department && orgDetails.department.toLowerCase().includes(orgSearch))
-        )
-      );
-      
-      return (
-        displayName.toLowerCase().includes(nameFilter.toLowerCase()) &&
-        hasMatchingEmail &&
-        matchesIncludeLabels &&
-        matchesExcludeLabels &&
-        hasMatchingOrg
-      );
-    });
-  }, [allContactsWithEmail, nameFilter, emailFilter, includeLabels, excludeLabels, orgFilter, getContactLabels, getOrganizationDetails]);
-
-  // Current visible contacts (for infinite scrolling)
-  const visibleContacts = useMemo(() => {
-    return filteredContacts.slice(0, visibleCount);
-  }, [filteredContacts, visibleCount]);
-
-  // Load more contacts when scrolling
-  const loadMoreContacts = useCallback(() => {
-    if (visibleCount < filteredContacts.length && !isLoadingMore) {
-      setIsLoadingMore(true);
-      
-      // Increased batch size for faster loading
-      const newCount = Math.min(visibleCount + CONTACTS_PER_PAGE * 2, filteredContacts.length);
-      
-      // Use setTimeout to prevent UI freezing when loading many contacts
-      setTimeout(() => {
-        setVisibleCount(newCount);
-        setIsLoadingMore(false);
-      }, 50); // Reduced delay for snappier response
-    }
-  }, [visibleCount, filteredContacts.length, isLoadingMore]);
-
-  // Handle intersection observer for infinite scrolling
-  const observerCallback = useCallback(
-    (entries: IntersectionObserverEntry[]) => {
-      const [entry] = entries;
-      if (entry && entry.isIntersecting) {
-        loadMoreContacts();
+  // Labels offered while writing a segment: every user group, including
+  // ones no contact with an email belongs to yet
+  const segmentLabels = useMemo(() => {
+    const labelSet = new Set(allGroupLabels);
+    Object.values(contactGroups).forEach(group => {
+      if (group.groupType === 'USER_CONTACT_GROUP' && group.name) {
+        labelSet.add(group.name);
       }
-    },
-    [loadMoreContacts]
+    });
+    return Array.from(labelSet).sort((a, b) => a.localeCompare(b));
+  }, [allGroupLabels, contactGroups]);
+
+  // Current filters, in the form segments are saved in
+  const currentFilters = useMemo((): SegmentFilters => ({
+    nameFilter,
+    emailFilter,
+    includeLabels,
+    excludeLabels,
+    orgFilter,
+    segmentQuery
+  }), [nameFilter, emailFilter, includeLabels, excludeLabels, orgFilter, segmentQuery]);
+
+  // Apply filters to contacts, in a worker so typing stays responsive;
+  // text matches come back ranked, best first. Segments are evaluated there
+  // too, against the contacts as they are now, so the counts follow every sync.
+  const { matchingContacts: filteredContacts, isSearching, segmentMembers, isCountingSegments } = useContactSearch(
+    allContactsWithEmail,
+    currentFilters,
+    segments,
+    getContactLabels,
+    getOrganizationDetails
   );
 
-  // Set up intersection observer for infinite scrolling with improved options
-  useEffect(() => {
-    const observer = new IntersectionObserver(observerCallback, {
-      root: null,
-      rootMargin: '100px', // Increased margin to load earlier before scrolling to the bottom
-      threshold: 0.1,
+  const segmentMemberCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.entries(segmentMembers).forEach(([segmentId, members]) => {
+      counts[segmentId] = members.length;
     });
+    return counts;
+  }, [segmentMembers]);
 
-    const loaderElement = loaderRef.current;
-    if (loaderElement) {
-      observer.observe(loaderElement);
-    }
+  const activeSegment = segments.find(segment => segment.id === activeSegmentId) || null;
+  const activeSegmentModified = activeSegment !== null && !areFiltersEqual(activeSegment.filters, currentFilters);
 
-    return () => {
-      if (loaderElement) {
-        observer.unobserve(loaderElement);
-      }
-    };
-  }, [observerCallback]);
+  // Contacts picked for the broadcast composer. The selection is kept when
+  // the filters change, so it can include contacts that aren't shown.
+  const selectedContactList = useMemo(() => {
+    return allContactsWithEmail.filter(contact => selectedContacts.has(contact.resourceName));
+  }, [allContactsWithEmail, selectedContacts]);
 
-  // Check if we need to load more contacts when filtered contacts change
-  useEffect(() => {
-    // If we have very few visible contacts compared to what's filtered,
-    // load more contacts automatically
-    if (visibleContacts.length < 100 && filteredContacts.length > visibleContacts.length) {
-      loadMoreContacts();
-    }
-  }, [filteredContacts, visibleContacts.length, loadMoreContacts]);
+  const selectedMatchingCount = useMemo(() => {
+    return filteredContacts.filter(contact => selectedContacts.has(contact.resourceName)).length;
+  }, [filteredContacts, selectedContacts]);
+  const hiddenSelectedCount = selectedContactList.length - selectedMatchingCount;
+
+  // Contacts scrolled into view in the table
+  const visibleContacts = useMemo(() => {
+    return filteredContacts.slice(visibleRange.start, visibleRange.end);
+  }, [filteredContacts, visibleRange]);
+
+  const handleRangeChange = useCallback((start: number, end: number) => {
+    setVisibleRange({ start, end });
+  }, []);
+
+  const isPageSelected = visibleContacts.length > 0 && visibleContacts.every(contact => selectedContacts.has(contact.resourceName));
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -186,50 +162,8 @@ const ContactsPage = () => {
     };
   }, []);
 
-  // Load saved filters on component mount
-  useEffect(() => {
-    const savedFilters = getFilterPreferences();
-    if (savedFilters) {
-      if (savedFilters.nameFilter) setNameFilter(savedFilters.nameFilter);
-      if (savedFilters.emailFilter) setEmailFilter(savedFilters.emailFilter);
-      if (savedFilters.includeLabels) setIncludeLabels(savedFilters.includeLabels);
-      if (savedFilters.excludeLabels) setExcludeLabels(savedFilters.excludeLabels);
-      if (savedFilters.orgFilter) setOrgFilter(savedFilters.orgFilter);
-    }
-  }, [getFilterPreferences]);
-
-  // Reset visible count when filters change
-  useEffect(() => {
-    setVisibleCount(CONTACTS_PER_PAGE);
-  }, [nameFilter, emailFilter, includeLabels, excludeLabels, orgFilter]);
-
-  // Handle scroll events to ensure all contacts are loaded
-  useEffect(() => {
-    const handleScroll = () => {
-      if (contactListRef.current) {
-        const { scrollTop, scrollHeight, clientHeight } = contactListRef.current;
-        // If we're near the bottom and have more contacts to show, load more
-        if (scrollHeight - scrollTop - clientHeight < 200 && 
-            visibleContacts.length < filteredContacts.length && 
-            !isLoadingMore) {
-          loadMoreContacts();
-        }
-      }
-    };
-
-    const contactListElement = contactListRef.current;
-    if (contactListElement) {
-      contactListElement.addEventListener('scroll', handleScroll);
-    }
-
-    return () => {
-      if (contactListElement) {
-        contactListElement.removeEventListener('scroll', handleScroll);
-      }
-    };
-  }, [visibleContacts.length, filteredContacts.length, isLoadingMore, loadMoreContacts]);
-
-  const toggleSelectContact = (resourceName: string) => {
+  // Stable so that rows whose selection didn't change aren't rendered again
+  const toggleSelectContact = useCallback((resourceName: string) => {
     setSelectedContacts((prev) => {
       const newSet = new Set(prev);
       if (newSet.has(resourceName)) {
@@ -239,25 +173,57 @@ const ContactsPage = () => {
       }
       return newSet;
     });
+  }, []);
+
+  // Add contacts to the selection, or take them out of it
+  const updateSelection = (contacts: Contact[], selected: boolean) => {
+    setSelectedContacts(prev => {
+      const newSet = new Set(prev);
+      contacts.forEach(contact => {
+        if (selected) {
+          newSet.add(contact.resourceName);
+        } else {
+          newSet.delete(contact.resourceName);
+        }
+      });
+      return newSet;
+    });
+  };
+
+  // The header checkbox only covers the rows in view; the menu next to it
+  // can select every matching contact
+  const toggleSelectPage = () => {
+    updateSelection(visibleContacts, !isPageSelected);
   };
 
-  const toggleSelectAll = () => {
-    if (selectAll) {
-      setSelectedContacts(new Set());
-    } else {
-      const newSet = new Set<string>();
-      visibleContacts.forEach(contact => {
-        newSet.add(contact.resourceName);
+  const selectAllMatching = () => {
+    updateSelection(filteredContacts, true);
+  };
+
+  // Flip the matching contacts; selected contacts hidden by the filters stay selected
+  const invertSelection = () => {
+    setSelectedContacts(prev => {
+      const newSet = new Set(prev);
+      filteredContacts.forEach(contact => {
+        if (newSet.has(contact.resourceName)) {
+          newSet.delete(contact.resourceName);
+        } else {
+          newSet.add(contact.resourceName);
+        }
       });
-      setSelectedContacts(newSet);
-    }
-    setSelectAll(!selectAll);
+      return newSet;
+    });
+  };
+
+  // Every contact in the group, whether or not the filters show it
+  const selectByLabel = (label: string) => {
+    updateSelection(allContactsWithEmail.filter(contact => getContactLabels(contact).some(l => l.name === label)), true);
   };
 
-  const getContactUrl = (contact: Contact) => {
-    // Extract contact ID from resourceName (format: "people/{contact_id}")
-    const contactId = contact.resourceName.split('/')[1];
-    return `https://contacts.google.com/person/${contactId}`;
+  const deselectHidden = () => {
+    setSelectedContacts(new Set(
+      filteredContacts.filter(contact => selectedContacts.has(contact.resourceName)).map(contact => contact.resourceName)
+    ));
   };
 
   const toggleIncludeLabel = (label: string) => {
@@ -294,21 +260,40 @@ const ContactsPage = () => {
     refreshContacts();
   };
   
-  // Save current filters to preferences
-  const handleSaveFilters = () => {
-    const currentFilters = {
-      nameFilter,
-      emailFilter,
-      includeLabels,
-      excludeLabels,
-      orgFilter
-    };
-    
-    saveFilters(currentFilters);
-    saveFilterPreferences(currentFilters);
-    
+  const applySegment = (segment: SavedSegment) => {
+    setNameFilter(segment.filters.nameFilter);
+    setEmailFilter(segment.filters.emailFilter);
+    setIncludeLabels(segment.filters.includeLabels);
+    setExcludeLabels(segment.filters.excludeLabels);
+    setOrgFilter(segment.filters.orgFilter);
+    setSegmentQuery(segment.filters.segmentQuery);
+    setActiveSegmentId(segment.id);
+  };
+
+  const handleCreateSegment = (name: string) => {
+    const segment = createSegment(name, currentFilters);
+    setActiveSegmentId(segment.id);
+    showSavedIndicator();
+  };
+
+  const handleUpdateSegment = (segment: SavedSegment) => {
+    updateSegment(segment.id, { filters: currentFilters });
+    showSavedIndicator();
+  };
+
+  const handleDeleteSegment = (segment: SavedSegment) => {
+    deleteSegment(segment.id);
+    if (segment.id === activeSegmentId) setActiveSegmentId(null);
+  };
+
+  const openComposer = (segmentId: string | null) => {
+    setComposerSegmentId(segmentId);
+    setComposerOpen(true);
+  };
+
+  const showSavedIndicator = () => {
     // Show temporary saved message
-    const savedIndicator = document.getElementById('filters-saved-indicator');
+    const savedIndicator = document.getElementById('segment-saved-indicator');
     if (savedIndicator) {
       savedIndicator.classList.remove('opacity-0');
       setTimeout(() => {
@@ -317,22 +302,19 @@ const ContactsPage = () => {
     }
   };
 
-  // Force load all contacts for small data sets
-  const loadAllContacts = () => {
-    setVisibleCount(filteredContacts.length);
-  };
-
   return (
     <div className="animate-fadeIn">
       <div className="mb-3 flex justify-between items-center">
         <div>
           <h1 className="text-xl font-bold text-gray-900">Contact Groups</h1>
           <p className="text-xs text-gray-600">
-            {selectedContacts.size > 0 ? 
-              `${selectedContacts.size} ${selectedContacts.size === 1 ? 'contact' : 'contacts'} selected` : 
+            {selectedContactList.length > 0 ? 
+              `${selectedContactList.length} ${selectedContactList.length === 1 ? 'contact' : 'contacts'} selected` : 
               isLoading ? 
                 'Loading contacts...' : 
                 `${allContactsWithEmail.length} contacts with email addresses${
+                  isSearching ?
+                    ' (searching...)' :
                   filteredContacts.length !== allContactsWithEmail.length ? 
                     ` (${filteredContacts.length} shown with current filters)` : 
                     ''
@@ -341,25 +323,27 @@ const ContactsPage = () => {
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          {selectedContacts.size > 0 && (
+          {selectedContactList.length > 0 && (
             <button 
+              onClick={() => openComposer(null)}
               className="text-xs bg-green-50 hover:bg-green-100 text-green-600 px-2 py-1 rounded flex items-center"
-              disabled={true}
             >
+              <Send className="w-3 h-3 mr-1" />
               <span>Broadcast</span>
-              <span className="ml-1 bg-blue-100 text-blue-800 text-xs rounded-full px-2">Soon</span>
-            </button>
-          )}
-          {/* Filter save button */}
-          {(nameFilter || emailFilter || includeLabels.length > 0 || excludeLabels.length > 0 || orgFilter) && (
-            <button 
-              onClick={handleSaveFilters}
-              className="text-xs bg-primary-50 hover:bg-primary-100 text-primary-600 px-2 py-1 rounded flex items-center"
-            >
-              <Save className="w-3 h-3 mr-1" />
-              <span>Save Filters</span>
             </button>
           )}
+          <SegmentMenu
+            segments={segments}
+            memberCounts={segmentMemberCounts}
+            activeSegment={activeSegment}
+            hasFilters={hasActiveFilters(currentFilters)}
+            isModified={activeSegmentModified}
+            onApply={applySegment}
+            onCreate={handleCreateSegment}
+            onUpdate={handleUpdateSegment}
+            onDelete={handleDeleteSegment}
+            onBroadcast={(segment) => openComposer(segment.id)}
+          />
           <button 
             onClick={handleRefresh}
             className="text-xs bg-blue-50 hover:bg-blue-100 text-blue-600 px-2 py-1 rounded flex items-center"
@@ -371,11 +355,21 @@ const ContactsPage = () => {
         </div>
       </div>
       
-      {/* Saved filters indicator */}
-      <div id="filters-saved-indicator" className="mb-2 text-xs text-green-600 opacity-0 transition-opacity duration-300">
-        Filters saved successfully
+      {/* Segment saved indicator */}
+      <div id="segment-saved-indicator" className="mb-2 text-xs text-green-600 opacity-0 transition-opacity duration-300">
+        Segment saved
       </div>
 
+      {/* Result of the last incremental sync */}
+      {lastSyncChanges && !syncProgress && (
+        <div className="mb-2 flex items-center text-xs text-gray-500">
+          <RotateCw className="w-3 h-3 mr-1" />
+          {lastSyncChanges.changed === 0 && lastSyncChanges.removed === 0
+            ? 'Contacts are up to date'
+            : `Synced: ${lastSyncChanges.changed} changed, ${lastSyncChanges.removed} removed`}
+        </div>
+      )}
+
       {/* Sync progress indicator */}
       {syncProgress && (
         <div className="mb-3 bg-blue-50 p-2 rounded-lg">
@@ -392,6 +386,8 @@ const ContactsPage = () => {
         </div>
       )}
 
+      <SegmentFilter value={segmentQuery} onChange={setSegmentQuery} labels={segmentLabels} />
+
       <div className="bg-white shadow rounded-lg overflow-hidden">
         {/* Fixed table header with search filters */}
         <div className="sticky top-0 z-10 bg-white border-b border-gray-200">
@@ -600,12 +596,27 @@ const ContactsPage = () => {
 
           {/* Table header */}
           <div className="grid grid-cols-12 py-1 px-2 border-b border-gray-200 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-            <div className="col-span-1 min-w-[20px] w-[28px] flex justify-center">
+            <div className="col-span-1 min-w-[20px] w-[28px] flex justify-center items-center">
               <input
                 type="checkbox"
                 className="h-3 w-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                checked={selectAll}
-                onChange={toggleSelectAll}
+                checked={isPageSelected}
+                ref={(input) => {
+                  if (input) input.indeterminate = !isPageSelected && selectedMatchingCount > 0;
+                }}
+                onChange={toggleSelectPage}
+                title={isPageSelected ? 'Deselect the rows shown' : 'Select the rows shown'}
+              />
+              <SelectionMenu
+                pageCount={visibleContacts.length}
+                matchingCount={filteredContacts.length}
+                labels={allGroupLabels}
+                hasSelection={selectedContacts.size > 0}
+                onSelectPage={() => updateSelection(visibleContacts, true)}
+                onSelectAllMatching={selectAllMatching}
+                onInvert={invertSelection}
+                onSelectLabel={selectByLabel}
+                onClear={() => setSelectedContacts(new Set())}
               />
             </div>
             <div className="col-span-3 text-xs">Name</div>
@@ -615,7 +626,7 @@ const ContactsPage = () => {
           </div>
         </div>
 
-        {isLoading && visibleContacts.length === 0 ? (
+        {isLoading && filteredContacts.length === 0 ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
           </div>
@@ -636,196 +647,66 @@ const ContactsPage = () => {
             <User className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">No contacts found</h3>
             <p className="mt-1 text-xs text-gray-500">
-              {nameFilter || emailFilter || includeLabels.length > 0 || excludeLabels.length > 0 || orgFilter ? 
+              {hasActiveFilters(currentFilters) ? 
                 'Try different filter settings' : 
                 'You don\'t have any contacts with email addresses'}
             </p>
           </div>
         ) : (
-          <div ref={contactListRef} className="overflow-y-auto max-h-[calc(100vh-240px)]">
-            {visibleContacts.map((contact) => {
-              const displayName = contact.names?.[0]?.displayName || 'Unnamed Contact';
-              const photoUrl = contact.photos?.[0]?.url || '';
-              const emails = contact.emailAddresses || [];
-              const labels = getContactLabels(contact);
-              const isSelected = selectedContacts.has(contact.resourceName);
-              const contactUrl = getContactUrl(contact);
-              const orgDetails = getOrganizationDetails(contact);
-
-              return (
-                <div 
-                  key={contact.resourceName} 
-                  className={`grid grid-cols-12 py-1.5 px-2 border-b border-gray-200 text-xs ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
-                >
-                  <div className="col-span-1 min-w-[20px] w-[28px] flex justify-center items-center">
-                    <input
-                      type="checkbox"
-                      className="h-3 w-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      checked={isSelected}
-                      onChange={() => toggleSelectContact(contact.resourceName)}
-                    />
-                  </div>
-                  <div className="col-span-3">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0 mr-1">
-                        {photoUrl ? (
-                          <img className="h-6 w-6 rounded-full" src={photoUrl} alt="" />
-                        ) : (
-                          <div className="h-6 w-6 rounded-full bg-gray-200 flex items-center justify-center">
-                            <User className="h-3 w-3 text-gray-500" />
-                          </div>
-                        )}
-                      </div>
-                      <div>
-                        <a
-                          href={contactUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-800 hover:underline flex items-center text-xs"
-                        >
-                          {displayName}
-                          <ExternalLink className="ml-1 h-2.5 w-2.5" />
-                        </a>
-                      </div>
-                    </div>
-                  </div>
-                  <div className="col-span-2">
-                    {orgDetails ? (
-                      <div className="text-xs text-gray-600">
-                        {orgDetails.title && (
-                          <div className="flex items-center">
-                            <Briefcase className="h-2.5 w-2.5 mr-1" />
-                            <span className="font-medium">{orgDetails.title}</span>
-                          </div>
-                        )}
-                        {orgDetails.name && (
-                          <div className="mt-0.5">{orgDetails.name}</div>
-                        )}
-                        {orgDetails.department && (
-                          <div className="italic text-gray-500 text-xs">{orgDetails.department}</div>
-                        )}
-                      </div>
-                    ) : (
-                      <span className="text-gray-400 italic text-xs">No organization</span>
-                    )}
-                  </div>
-                  <div className="col-span-3">
-                    <div className="space-y-0.5">
-                      {emails.map((email, idx) => (
-                        <div key={idx} className="flex items-center text-xs">
-                          <a href={`mailto:${email.value}`} className="text-gray-600 hover:text-gray-900 truncate">
-                            {email.value}
-                          </a>
-                          {email.type && (
-                            <span className="ml-1 inline-flex items-center px-1 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-                              {email.type}
-                            </span>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                  <div className="col-span-3">
-                    {labels.length > 0 ? (
-                      <div className="flex flex-wrap gap-0.5">
-                        {labels.map((label, idx) => {
-                          const isIncluded = includeLabels.includes(label.name);
-                          const isExcluded = excludeLabels.includes(label.name);
-                          // All labels are group type since getContactLabels now only returns group labels
-                          let bgColor = 'bg-blue-100';
-                          let textColor = 'text-blue-800';
-                          
-                          // Highlight included/excluded labels
-                          if (isIncluded) {
-                            bgColor = 'bg-green-200';
-                            textColor = 'text-green-900';
-                          } else if (isExcluded) {
-                            bgColor = 'bg-red-200';
-                            textColor = 'text-red-900';
-                          }
-                          
-                          return (
-                            <span 
-                              key={idx}
-                              className={`inline-flex items-center px-1 py-0.5 rounded text-xs font-medium ${bgColor} ${textColor}`}
-                            >
-                              {label.name}
-                            </span>
-                          );
-                        })}
-                      </div>
-                    ) : (
-                      <span className="text-gray-400 italic text-xs">No groups</span>
-                    )}
-                  </div>
-                </div>
-              );
-            })}
-            
-            {/* Improved infinite scroll loader element */}
-            {visibleContacts.length < filteredContacts.length && (
-              <div 
-                ref={loaderRef}
-                className="py-4 text-center text-sm text-gray-500"
-                id="contacts-loader"
-              >
-                {isLoadingMore ? (
-                  <div className="flex justify-center items-center">
-                    <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-primary-500 mr-2"></div>
-                    Loading more contacts...
-                  </div>
-                ) : (
-                  <div className="text-xs text-gray-400 flex flex-col items-center">
-                    <div>Scroll to load more</div>
-                    <div className="mt-1">
-                      ({visibleContacts.length} of {filteredContacts.length} shown)
-                    </div>
-                    {/* Load all button for large data sets */}
-                    {filteredContacts.length - visibleContacts.length > 100 && (
-                      <button
-                        onClick={loadAllContacts}
-                        className="mt-2 text-xs bg-blue-50 hover:bg-blue-100 text-blue-600 px-2 py-1 rounded-md"
-                      >
-                        Load all contacts
-                      </button>
-                    )}
-                  </div>
-                )}
-              </div>
-            )}
-            
-            {/* Show when all contacts are loaded */}
-            {filteredContacts.length > 0 && visibleContacts.length === filteredContacts.length && (
-              <div className="py-3 text-center text-xs text-gray-500">
-                All contacts loaded ({filteredContacts.length} total)
-              </div>
+          <VirtualList
+            items={filteredContacts}
+            rowHeight={CONTACT_ROW_HEIGHT}
+            getKey={getContactKey}
+            onActivate={(contact) => toggleSelectContact(contact.resourceName)}
+            onRangeChange={handleRangeChange}
+            className="max-h-[calc(100vh-240px)]"
+            ariaLabel="Contacts"
+            renderRow={(contact, _index, isActive) => (
+              <ContactRow
+                contact={contact}
+                isSelected={selectedContacts.has(contact.resourceName)}
+                isActive={isActive}
+                includeLabels={includeLabels}
+                excludeLabels={excludeLabels}
+                getContactLabels={getContactLabels}
+                getOrganizationDetails={getOrganizationDetails}
+                onToggleSelect={toggleSelectContact}
+              />
             )}
-          </div>
+          />
         )}
       </div>
       
-      {selectedContacts.size > 0 && (
-        <div className="mt-3 bg-white p-2 rounded-lg shadow flex items-center justify-between">
-          <span className="text-xs font-medium">
-            {selectedContacts.size} {selectedContacts.size === 1 ? 'contact' : 'contacts'} selected
-          </span>
-          <div className="flex space-x-2">
-            <button
-              disabled={true}
-              className="text-xs bg-primary-50 text-primary-600 px-3 py-1 rounded-md flex items-center opacity-75 cursor-not-allowed"
-            >
-              <span>Broadcast</span>
-              <span className="ml-1 bg-blue-100 text-blue-800 text-xs rounded-full px-1.5">Soon</span>
-            </button>
-            <button
-              onClick={() => setSelectedContacts(new Set())}
-              className="text-xs text-red-600 hover:text-red-800"
-            >
-              Clear selection
-            </button>
+      {selectedContactList.length > 0 && (
+        <SelectionSummary
+          contacts={selectedContactList}
+          hiddenCount={hiddenSelectedCount}
+          getOrganizationDetails={getOrganizationDetails}
+          onRemove={toggleSelectContact}
+          onDeselectHidden={deselectHidden}
+          onClear={() => setSelectedContacts(new Set())}
+          onBroadcast={() => openComposer(null)}
+        />
+      )}
+
+      {composerOpen && (hasScopes(['gmailSend']) ? (
+        <BroadcastComposer
+          contacts={selectedContactList}
+          segmentMembers={segmentMembers}
+          isCountingSegments={isCountingSegments}
+          initialSegmentId={composerSegmentId}
+          getOrganizationDetails={getOrganizationDetails}
+          onClose={() => setComposerOpen(false)}
+        />
+      ) : (
+        // Gmail access is only asked for the first time a broadcast is composed
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="fixed inset-0 bg-slate-600 bg-opacity-75" onClick={() => setComposerOpen(false)}></div>
+          <div className="relative w-full">
+            <GrantAccessPrompt scopes={['gmailSend']} onCancel={() => setComposerOpen(false)} />
           </div>
         </div>
-      )}
+      ))}
     </div>
   );
 };
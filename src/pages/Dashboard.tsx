@@ -63,8 +63,7 @@ const Dashboard = () => {
       icon: MessageSquare,
       path: '/contacts',
       bgColor: 'bg-emerald-500',
-      color: 'text-white',
-      comingSoon: true
+      color: 'text-white'
     },
     {
       name: 'Templates',
@@ -72,8 +71,7 @@ const Dashboard = () => {
       icon: Bell,
       path: '/templates',
       bgColor: 'bg-amber-500',
-      color: 'text-white',
-      comingSoon: true
+      color: 'text-white'
     }
   ];
 
@@ -120,9 +118,8 @@ const Dashboard = () => {
         {services.map((service) => (
           <Link
             key={service.name}
-            to={service.comingSoon ? '#' : service.path}
+            to={service.path}
             className="group block rounded-xl bg-white shadow-sm border border-slate-200 overflow-hidden hover:shadow-md transition-all"
-            onClick={service.comingSoon ? (e) => e.preventDefault() : undefined}
           >
             <div className={`${service.bgColor} p-4`}>
               <service.icon className={`h-7 w-7 ${service.color}`} />
@@ -132,11 +129,6 @@ const Dashboard = () => {
                 <h3 className="text-base font-semibold text-slate-900 group-hover:text-primary-600 transition-colors">
                   {service.name}
                 </h3>
-                {service.comingSoon && (
-                  <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 text-xs rounded-full">
-                    Coming Soon
-                  </span>
-                )}
               </div>
               <p className="mt-1 text-sm text-slate-600">
                 {service.description}
@@ -157,7 +149,7 @@ const Dashboard = () => {
               )}
               <div className="mt-3 flex justify-end">
                 <span className="inline-flex items-center text-xs font-medium text-primary-600 group-hover:text-primary-700">
-                  {service.comingSoon ? 'Coming soon' : 'Get started'} 
+                  Get started
                   <ChevronRight className="ml-1 h-4 w-4" />
                 </span>
               </div>
@@ -1,9 +1,12 @@
 import { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useSecureApi } from '../hooks/useSecureApi';
+import { encodeRawMessage } from '../utils/mime';
 import { Send, X, CheckCircle, AlertCircle } from 'lucide-react';
 
 const EmailPage = () => {
   const { user } = useAuth();
+  const { fetchWithToken } = useSecureApi();
   const [to, setTo] = useState('');
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
@@ -24,38 +27,19 @@ const EmailPage = () => {
     setStatus('idle');
     
     try {
-      const message = [
-        'To: ' + to,
-        'Subject: ' + subject,
-        'Content-Type: text/plain; charset=utf-8',
-        '',
-        body
-      ].join('\r\n');
+      // Build a UTF-8 safe MIME message
+      const encodedMessage = encodeRawMessage({
+        from: { name: user?.name, email: user?.email || '' },
+        to: { email: to },
+        subject,
+        text: body
+      });
       
-      // Base64 encode the message
-      const encodedMessage = btoa(message)
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
-      
-      const response = await fetch(
-        'https://www.googleapis.com/gmail/v1/users/me/messages/send',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${user?.token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            raw: encodedMessage
-          }),
-        }
-      );
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || 'Failed to send email');
-      }
+      await fetchWithToken('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
+        method: 'POST',
+        body: { raw: encodedMessage },
+        throwOnError: true
+      });
       
       setStatus('success');
       // Reset form
@@ -229,7 +213,7 @@ const EmailPage = () => {
           <p>For this application to work properly, you need to:</p>
           <ol className="list-decimal ml-5 mt-2 space-y-1">
             <li>Set up your Google Cloud project with appropriate OAuth credentials</li>
-            <li>Configure the VITE_GOOGLE_CLIENT_ID environment variable in your .env file</li>
+            <li>Set googleClientId in the config.json deployed with the app</li>
             <li>Add the required API scopes (Gmail, Contacts, Drive) to your OAuth consent screen</li>
           </ol>
         </div>
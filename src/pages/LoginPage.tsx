@@ -1,30 +1,36 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useGoogleLogin } from '@react-oauth/google';
 import { useAuth } from '../context/AuthContext';
-import { AlertTriangle } from 'lucide-react';
+import { startAuthCodeLogin, startRedirectLogin, fetchGoogleUser } from '../utils/authCodeFlow';
+import { POPUP_BLOCKED_ERROR_TYPE, parseGrantedScopes, toScopeString } from '../utils/oauthScopes';
+import { getAppConfig } from '../utils/appConfig';
+import { takeEraseSummary, describeDeviceData } from '../utils/deviceData';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
 
 const LoginPage = () => {
   const { isAuthenticated, login, authError, clearAuthError } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // AuthGuard sends users here from the page they asked for
+  const from = (location.state as { from?: { pathname: string; search: string } } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : '/';
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Confirms a "sign out and erase this device" that led here
+  const [erasedData] = useState(() => takeEraseSummary());
   const mountedRef = useRef(true);
 
-  // Check if Google Client ID is configured
-  const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-  const hasValidConfig = Boolean(googleClientId && googleClientId.length > 10);
-
   useEffect(() => {
     // Check for existing authentication status
     if (isAuthenticated) {
-      navigate('/');
+      navigate(returnTo);
     }
     
     return () => {
       mountedRef.current = false;
     };
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, returnTo]);
 
   // Clear authentication errors when component unmounts or updates
   useEffect(() => {
@@ -51,31 +57,13 @@ const LoginPage = () => {
       
       try {
         // Get user profile information
-        const userInfoResponse = await fetch('https://www.googleapis.com/oauth2/v3/userinfo', {
-          headers: {
-            Authorization: `Bearer ${response.access_token}`,
-          },
-        });
-        
-        if (!userInfoResponse.ok) {
-          throw new Error('Failed to get user info');
-        }
-        
-        const userInfo = await userInfoResponse.json();
+        const user = await fetchGoogleUser(response.access_token);
         console.log("User info retrieved successfully");
         
         if (!mountedRef.current) return;
         
         // Log in the user with the new token structure
-        login(
-          response.access_token, 
-          {
-            id: userInfo.sub,
-            name: userInfo.name,
-            email: userInfo.email,
-            picture: userInfo.picture
-          }
-        );
+        login(response.access_token, user, { scopes: parseGrantedScopes(response.scope) }, returnTo);
         
         // Important: Once we've called login, we should reset loading state
         setIsLoading(false);
@@ -105,20 +93,41 @@ const LoginPage = () => {
       }
       setIsLoading(false);
     },
+    onNonOAuthError: (nonOAuthError) => {
+      if (!mountedRef.current) return;
+      
+      // Locked-down browsers block the popup: sign in with a redirect instead
+      if (nonOAuthError.type === POPUP_BLOCKED_ERROR_TYPE) {
+        console.log("Login popup blocked, signing in with a redirect");
+        startRedirectLogin({ returnTo }).catch(err => {
+          console.error('Error starting redirect login:', err);
+          setError("The login popup was blocked by your browser. Please allow popups for this website and try again.");
+          setIsLoading(false);
+        });
+        return;
+      }
+      setIsLoading(false);
+    },
     flow: 'implicit', // Specify flow type
     ux_mode: 'popup', // Use popup instead of redirect
-    scope: 'email profile https://www.googleapis.com/auth/contacts.readonly https://www.googleapis.com/auth/gmail.send https://www.googleapis.com/auth/drive.appdata',
+    // Gmail and Drive access are asked for when first needed
+    scope: toScopeString(getAppConfig().loginScopes),
   });
 
   const handleLogin = () => {
-    if (!hasValidConfig) {
-      setError("Google Client ID is not configured. Please set the VITE_GOOGLE_CLIENT_ID environment variable.");
-      return;
-    }
-    
     setIsLoading(true);
     setError(null);
     
+    // The authorization-code mode leaves the page for Google's consent screen
+    if (getAppConfig().authMode === 'code') {
+      startAuthCodeLogin({ returnTo }).catch(err => {
+        console.error('Error starting login:', err);
+        setError('Failed to start the login. Please try again.');
+        setIsLoading(false);
+      });
+      return;
+    }
+    
     // Trigger the Google OAuth login flow
     googleLogin();
   };
@@ -134,34 +143,34 @@ const LoginPage = () => {
         </div>
         
         <div className="mt-8 bg-white py-8 px-4 shadow-soft rounded-xl sm:px-10 border border-slate-200">
-          {error && (
-            <div className="mb-4 rounded-lg bg-red-50 p-4 border border-red-200">
+          {erasedData && (
+            <div className="mb-4 rounded-lg bg-green-50 p-4 border border-green-200">
               <div className="flex items-start">
                 <div className="flex-shrink-0">
-                  <AlertTriangle className="h-5 w-5 text-red-400" aria-hidden="true" />
+                  <CheckCircle className="h-5 w-5 text-green-500" aria-hidden="true" />
                 </div>
                 <div className="ml-3">
-                  <h3 className="text-sm font-medium text-red-800">Login Error</h3>
-                  <p className="text-sm text-red-700 mt-1">{error}</p>
+                  <h3 className="text-sm font-medium text-green-800">This device has been erased</h3>
+                  <p className="text-sm text-green-700 mt-1">All accounts were signed out and their access revoked. Deleted:</p>
+                  <ul className="mt-1 text-sm text-green-700 list-disc pl-5">
+                    {describeDeviceData(erasedData).map(line => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
                 </div>
               </div>
             </div>
           )}
           
-          {!hasValidConfig && (
-            <div className="mb-4 rounded-lg bg-amber-50 p-4 border border-amber-200">
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 p-4 border border-red-200">
               <div className="flex items-start">
                 <div className="flex-shrink-0">
-                  <AlertTriangle className="h-5 w-5 text-amber-400" aria-hidden="true" />
+                  <AlertTriangle className="h-5 w-5 text-red-400" aria-hidden="true" />
                 </div>
                 <div className="ml-3">
-                  <h3 className="text-sm font-medium text-amber-800">Configuration Error</h3>
-                  <p className="text-sm text-amber-700 mt-1">
-                    Google Client ID is not configured. Please add it to the .env.local file:
-                  </p>
-                  <pre className="mt-2 text-xs bg-amber-100 p-2 rounded border border-amber-200 overflow-auto">
-                    VITE_GOOGLE_CLIENT_ID=your_client_id_here
-                  </pre>
+                  <h3 className="text-sm font-medium text-red-800">Login Error</h3>
+                  <p className="text-sm text-red-700 mt-1">{error}</p>
                 </div>
               </div>
             </div>
@@ -170,7 +179,7 @@ const LoginPage = () => {
           <div className="space-y-6">
             <button
               onClick={handleLogin}
-              disabled={isLoading || !hasValidConfig}
+              disabled={isLoading}
               className="w-full flex justify-center py-2.5 px-4 border border-slate-300 rounded-lg shadow-sm text-sm font-medium text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-60 disabled:cursor-not-allowed transition-all duration-200"
             >
               {isLoading ? (
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useVault } from '../context/VaultContext';
+import { useAuth } from '../context/AuthContext';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/vault';
+import { IDLE_TIMEOUT_OPTIONS } from '../utils/sessionLock';
+import { Lock, Shield, ShieldCheck, KeyRound, AlertCircle, CheckCircle, Timer } from 'lucide-react';
+
+type VaultAction = 'enable' | 'change' | 'disable' | null;
+
+const SettingsPage = () => {
+  const { isEnabled, lock, enableVault, changePassphrase, disableVault } = useVault();
+  const { idleTimeoutMinutes, setIdleTimeout, lockSession } = useAuth();
+
+  const [action, setAction] = useState<VaultAction>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const resetForm = (nextAction: VaultAction = null) => {
+    setAction(nextAction);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError('The passphrases do not match');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    if ((action === 'enable' || action === 'change') && !validateNewPassphrase()) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      if (action === 'enable') {
+        await enableVault(newPassphrase);
+        setMessage('Vault enabled. You will be asked for your passphrase after every reload.');
+      } else if (action === 'change') {
+        if (!(await changePassphrase(currentPassphrase, newPassphrase))) {
+          setError('The current passphrase is not correct');
+          return;
+        }
+        setMessage('Passphrase changed');
+      } else if (action === 'disable') {
+        if (!(await disableVault(currentPassphrase))) {
+          setError('The passphrase is not correct');
+          return;
+        }
+        setMessage('Vault disabled');
+      }
+      resetForm();
+    } catch (err) {
+      console.error('Error updating vault:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="animate-fadeIn">
+      <div className="mb-3">
+        <h1 className="text-xl font-bold text-gray-900">Settings</h1>
+        <p className="text-xs text-gray-600">Security of the data stored in this browser</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-4 max-w-2xl">
+        <div className="flex items-start">
+          {isEnabled ? (
+            <ShieldCheck className="h-6 w-6 text-green-500 flex-shrink-0" />
+          ) : (
+            <Shield className="h-6 w-6 text-slate-400 flex-shrink-0" />
+          )}
+          <div className="ml-3 flex-1">
+            <h2 className="text-sm font-semibold text-slate-900">
+              Passphrase vault {isEnabled ? 'is on' : 'is off'}
+            </h2>
+            <p className="mt-1 text-xs text-slate-600">
+              {isEnabled
+                ? 'Contacts, templates, history and your session are encrypted with a key derived from your passphrase. The key is only kept in memory, so the app is locked after every reload.'
+                : 'Stored data is encrypted with a key derived from this browser, which changes when the browser is updated or the screen changes. Protect it with a passphrase instead.'}
+            </p>
+          </div>
+        </div>
+
+        {message && (
+          <div className="mt-3 rounded-md bg-green-50 p-2 text-xs text-green-700 flex items-center">
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {message}
+          </div>
+        )}
+
+        {!action && (
+          <div className="mt-4 flex items-center space-x-2">
+            {isEnabled ? (
+              <>
+                <button onClick={lock} className="btn btn-secondary">
+                  <Lock className="mr-2 h-4 w-4" />
+                  Lock now
+                </button>
+                <button onClick={() => resetForm('change')} className="btn btn-secondary">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Change passphrase
+                </button>
+                <button onClick={() => resetForm('disable')} className="btn btn-secondary text-red-600">
+                  Turn off
+                </button>
+              </>
+            ) : (
+              <button onClick={() => resetForm('enable')} className="btn btn-primary">
+                <Shield className="mr-2 h-4 w-4" />
+                Set a passphrase
+              </button>
+            )}
+          </div>
+        )}
+
+        {action && (
+          <form onSubmit={handleSubmit} className="mt-4 space-y-3 max-w-sm">
+            {error && (
+              <div className="rounded-md bg-red-50 p-2 text-xs text-red-700 flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {(action === 'change' || action === 'disable') && (
+              <div>
+                <label htmlFor="vault-current" className="block text-xs font-medium text-slate-700">
+                  Current passphrase
+                </label>
+                <input
+                  id="vault-current"
+                  type="password"
+                  autoComplete="current-password"
+                  className="form-input mt-1 text-sm"
+                  value={currentPassphrase}
+                  onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {(action === 'enable' || action === 'change') && (
+              <>
+                <div>
+                  <label htmlFor="vault-new" className="block text-xs font-medium text-slate-700">
+                    New passphrase
+                  </label>
+                  <input
+                    id="vault-new"
+                    type="password"
+                    autoComplete="new-password"
+                    className="form-input mt-1 text-sm"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="vault-confirm" className="block text-xs font-medium text-slate-700">
+                    Repeat new passphrase
+                  </label>
+                  <input
+                    id="vault-confirm"
+                    type="password"
+                    autoComplete="new-password"
+                    className="form-input mt-1 text-sm"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    required
+                  />
+                </div>
+                <p className="text-xs text-amber-700">
+                  There is no way to recover a forgotten passphrase. Without it the data in this browser has to be erased.
+                </p>
+              </>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <button type="submit" disabled={isWorking} className="btn btn-primary">
+                {isWorking
+                  ? 'Re-encrypting...'
+                  : action === 'enable' ? 'Turn on vault' : action === 'change' ? 'Change passphrase' : 'Turn off vault'}
+              </button>
+              <button type="button" onClick={() => resetForm()} disabled={isWorking} className="btn btn-secondary">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-4 max-w-2xl mt-4">
+        <div className="flex items-start">
+          <Timer className="h-6 w-6 text-slate-400 flex-shrink-0" />
+          <div className="ml-3 flex-1">
+            <h2 className="text-sm font-semibold text-slate-900">Lock when idle</h2>
+            <p className="mt-1 text-xs text-slate-600">
+              {isEnabled
+                ? 'Covers the app after a period without activity in any tab until you enter your passphrase.'
+                : 'Covers the app after a period without activity in any tab until you sign in with Google again.'}
+              {' '}Syncing pauses while the app is locked; a broadcast that is sending carries on.
+            </p>
+            <div className="mt-3 flex items-center space-x-2">
+              <label htmlFor="idle-timeout" className="sr-only">Lock when idle</label>
+              <select
+                id="idle-timeout"
+                className="form-input text-sm w-auto"
+                value={idleTimeoutMinutes}
+                onChange={(e) => setIdleTimeout(Number(e.target.value))}
+              >
+                {IDLE_TIMEOUT_OPTIONS.map(option => (
+                  <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                ))}
+              </select>
+              <button onClick={lockSession} className="btn btn-secondary">
+                <Lock className="mr-2 h-4 w-4" />
+                Lock now
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,91 @@
+import { CONFIG_URL } from '../utils/appConfig';
+import { AUTH_CALLBACK_PATH } from '../utils/authCodeFlow';
+import { ConfigLoadResult } from '../types/config';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+const EXAMPLE_CONFIG = `{
+  "googleClientId": "1234567890-abc123.apps.googleusercontent.com",
+  "authMode": "implicit",
+  "loginScopes": ["contacts"],
+  "syncIntervals": { "contactsMinutes": 30, "driveOnFocusSeconds": 60 },
+  "features": { "driveSync": true, "multipleAccounts": true }
+}`;
+
+interface SetupDiagnosticsPageProps {
+  result: ConfigLoadResult;
+}
+
+// Shown instead of the app when the runtime configuration is missing or
+// invalid, with what to fix for this deployment
+const SetupDiagnosticsPage = ({ result }: SetupDiagnosticsPageProps) => {
+  const origin = window.location.origin;
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-2xl animate-fadeIn">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-slate-900 tracking-tight">gBroadcast</h1>
+          <p className="mt-2 text-sm text-slate-600">
+            This deployment is not set up correctly
+          </p>
+        </div>
+
+        <div className="mt-8 bg-white py-8 px-4 shadow-soft rounded-xl sm:px-10 border border-slate-200 space-y-6">
+          <div className="rounded-lg bg-red-50 p-4 border border-red-200">
+            <div className="flex items-start">
+              <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" aria-hidden="true" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-red-800">
+                  {result.source === 'config.json'
+                    ? `Problems in ${CONFIG_URL}`
+                    : `No ${CONFIG_URL} was found, and the VITE_ environment variables are not valid either`}
+                </h3>
+                <ul className="mt-2 space-y-1 text-sm text-red-700">
+                  {result.issues.map(issue => (
+                    <li key={`${issue.field}:${issue.message}`}>
+                      <code className="text-xs bg-red-100 px-1 rounded">{issue.field}</code> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">Configuration file</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Serve a <code>{CONFIG_URL}</code> next to <code>index.html</code>. Only <code>googleClientId</code> is
+              required; <code>tokenServiceUrl</code> is too when <code>authMode</code> is <code>"code"</code>.{' '}
+              <code>loginScopes</code>, when set, has to include <code>"contacts"</code>.
+            </p>
+            <pre className="mt-2 text-xs bg-slate-100 p-3 rounded border border-slate-200 overflow-auto">
+              {EXAMPLE_CONFIG}
+            </pre>
+          </div>
+
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">Google Cloud OAuth client</h2>
+            <p className="mt-1 text-sm text-slate-600">The client has to allow this deployment:</p>
+            <dl className="mt-2 text-sm space-y-1">
+              <div className="flex flex-wrap">
+                <dt className="text-slate-500 w-56">Authorized JavaScript origin</dt>
+                <dd><code className="text-xs">{origin}</code></dd>
+              </div>
+              <div className="flex flex-wrap">
+                <dt className="text-slate-500 w-56">Authorized redirect URI</dt>
+                <dd><code className="text-xs">{`${origin}${AUTH_CALLBACK_PATH}`}</code></dd>
+              </div>
+            </dl>
+          </div>
+
+          <button onClick={() => window.location.reload()} className="btn btn-primary">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Check again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupDiagnosticsPage;
@@ -0,0 +1,321 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useTemplates } from '../hooks/useTemplates';
+import { STANDARD_MERGE_FIELDS, extractPlaceholders } from '../utils/mergeFields';
+import { MessageTemplate, TemplateContent } from '../types/templates';
+import { Search, X, Plus, Copy, Trash2, Save, History, RotateCcw, FileText } from 'lucide-react';
+
+const EMPTY_TEMPLATE: TemplateContent = {
+  name: '',
+  subject: '',
+  body: '',
+  bodyFormat: 'text'
+};
+
+const TemplatesPage = () => {
+  const {
+    templates,
+    createTemplate,
+    updateTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    restoreVersion
+  } = useTemplates();
+
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateContent>(EMPTY_TEMPLATE);
+  const [showHistory, setShowHistory] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const selectedTemplate = useMemo(
+    () => templates.find(template => template.id === selectedId) || null,
+    [templates, selectedId]
+  );
+
+  // Search names, subjects and bodies
+  const filteredTemplates = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return templates;
+
+    return templates.filter(template =>
+      template.name.toLowerCase().includes(query) ||
+      template.subject.toLowerCase().includes(query) ||
+      template.body.toLowerCase().includes(query)
+    );
+  }, [templates, search]);
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    if (selectedTemplate) {
+      setDraft({
+        name: selectedTemplate.name,
+        subject: selectedTemplate.subject,
+        body: selectedTemplate.body,
+        bodyFormat: selectedTemplate.bodyFormat
+      });
+    } else {
+      setDraft(EMPTY_TEMPLATE);
+    }
+    setSaveError(null);
+  }, [selectedTemplate]);
+
+  const isDirty = selectedTemplate
+    ? draft.name !== selectedTemplate.name ||
+      draft.subject !== selectedTemplate.subject ||
+      draft.body !== selectedTemplate.body ||
+      draft.bodyFormat !== selectedTemplate.bodyFormat
+    : draft.name !== '' || draft.subject !== '' || draft.body !== '';
+
+  const placeholders = useMemo(() => {
+    const fields = extractPlaceholders(draft.subject + '\n' + draft.body).map(p => p.field);
+    return Array.from(new Set(fields));
+  }, [draft.subject, draft.body]);
+
+  const confirmDiscard = () => !isDirty || window.confirm('Discard unsaved changes to this template?');
+
+  const handleSelect = (template: MessageTemplate) => {
+    if (template.id === selectedId || !confirmDiscard()) return;
+    setSelectedId(template.id);
+    setShowHistory(false);
+  };
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    setSelectedId(null);
+    setDraft(EMPTY_TEMPLATE);
+    setShowHistory(false);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setSaveError('Please give the template a name');
+      return;
+    }
+
+    if (!draft.subject.trim() && !draft.body.trim()) {
+      setSaveError('A template needs a subject or a message');
+      return;
+    }
+
+    setSaveError(null);
+    const content = { ...draft, name: draft.name.trim() };
+
+    if (selectedTemplate) {
+      updateTemplate(selectedTemplate.id, content);
+    } else {
+      const created = createTemplate(content);
+      setSelectedId(created.id);
+    }
+  };
+
+  const handleDuplicate = () => {
+    if (!selectedTemplate || !confirmDiscard()) return;
+    const copy = duplicateTemplate(selectedTemplate.id);
+    if (copy) {
+      setSelectedId(copy.id);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedTemplate) return;
+    if (!window.confirm(`Delete the template "${selectedTemplate.name}"? Its version history will be lost.`)) return;
+    deleteTemplate(selectedTemplate.id);
+    setSelectedId(null);
+  };
+
+  const handleRestore = (version: number) => {
+    if (!selectedTemplate || !confirmDiscard()) return;
+    restoreVersion(selectedTemplate.id, version);
+  };
+
+  return (
+    <div className="animate-fadeIn">
+      <div className="mb-3 flex justify-between items-center">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Templates</h1>
+          <p className="text-xs text-gray-600">
+            Reusable subjects and messages with merge placeholders
+          </p>
+        </div>
+        <button
+          onClick={handleNew}
+          className="text-xs bg-primary-50 hover:bg-primary-100 text-primary-600 px-2 py-1 rounded flex items-center"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          New template
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="p-2 bg-gray-50 border-b border-gray-200 relative">
+            <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+              <Search className="h-3 w-3 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="form-input block w-full pl-6 pr-6 py-1 text-xs rounded-md"
+              placeholder="Search templates..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            {search && (
+              <button
+                className="absolute inset-y-0 right-0 pr-4 flex items-center"
+                onClick={() => setSearch('')}
+              >
+                <X className="h-3 w-3 text-gray-400 hover:text-gray-600" />
+              </button>
+            )}
+          </div>
+
+          {filteredTemplates.length === 0 ? (
+            <div className="text-center py-10">
+              <FileText className="mx-auto h-8 w-8 text-gray-400" />
+              <p className="mt-2 text-xs text-gray-500">
+                {templates.length === 0 ? 'No templates yet' : 'No templates match your search'}
+              </p>
+            </div>
+          ) : (
+            <ul className="max-h-[calc(100vh-220px)] overflow-y-auto">
+              {filteredTemplates.map(template => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => handleSelect(template)}
+                    className={`w-full text-left px-3 py-2 border-b border-gray-100 ${template.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+                    <p className="text-xs text-gray-500 truncate">{template.subject || 'No subject'}</p>
+                    <p className="text-xs text-gray-400">
+                      v{template.version} · updated {new Date(template.updatedAt).toLocaleDateString()}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 bg-white shadow rounded-lg p-4 space-y-4">
+          {saveError && (
+            <div className="rounded-md bg-red-50 p-2 text-xs text-red-700">{saveError}</div>
+          )}
+
+          <div>
+            <label htmlFor="template-name" className="block text-xs font-medium text-slate-700">Name</label>
+            <input
+              id="template-name"
+              type="text"
+              className="form-input mt-1 text-sm"
+              placeholder="e.g. Quarterly newsletter"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="template-subject" className="block text-xs font-medium text-slate-700">Subject</label>
+            <input
+              id="template-subject"
+              type="text"
+              className="form-input mt-1 text-sm"
+              placeholder="News for {{organization.name|you}}"
+              value={draft.subject}
+              onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label htmlFor="template-body" className="block text-xs font-medium text-slate-700">Message</label>
+              <div className="flex text-xs rounded-md border border-slate-200 overflow-hidden">
+                {(['text', 'html'] as const).map(format => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => setDraft(prev => ({ ...prev, bodyFormat: format }))}
+                    className={`px-2 py-0.5 ${draft.bodyFormat === format ? 'bg-primary-50 text-primary-700' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {format === 'text' ? 'Plain text' : 'HTML'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <textarea
+              id="template-body"
+              rows={12}
+              className="form-input mt-1 text-sm font-mono"
+              placeholder="Hi {{firstName|there}}, ..."
+              value={draft.body}
+              onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+            ></textarea>
+            <p className="mt-1 text-xs text-slate-500">
+              Available fields: {STANDARD_MERGE_FIELDS.map(field => `{{${field}}}`).join(', ')} and any custom contact field.
+            </p>
+            {placeholders.length > 0 && (
+              <p className="mt-1 text-xs text-slate-600">
+                Uses: {placeholders.join(', ')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {selectedTemplate && (
+              <>
+                <button onClick={handleDuplicate} className="btn btn-secondary">
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate
+                </button>
+                <button onClick={() => setShowHistory(!showHistory)} className="btn btn-secondary">
+                  <History className="mr-2 h-4 w-4" />
+                  History ({selectedTemplate.history.length})
+                </button>
+                <button onClick={handleDelete} className="btn btn-secondary text-red-600">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </button>
+              </>
+            )}
+            <button onClick={handleSave} disabled={!isDirty} className="btn btn-primary ml-auto">
+              <Save className="mr-2 h-4 w-4" />
+              {selectedTemplate ? 'Save changes' : 'Create template'}
+            </button>
+          </div>
+
+          {showHistory && selectedTemplate && (
+            <div className="border border-slate-200 rounded-md">
+              <div className="px-3 py-1.5 bg-slate-50 border-b border-slate-200 text-xs font-medium text-slate-700">
+                Version history · current is v{selectedTemplate.version}
+              </div>
+              {selectedTemplate.history.length === 0 ? (
+                <p className="px-3 py-2 text-xs text-slate-500">No earlier versions</p>
+              ) : (
+                <ul className="max-h-60 overflow-y-auto">
+                  {selectedTemplate.history.map(version => (
+                    <li key={version.version} className="flex items-center px-3 py-1.5 border-b border-slate-100 text-xs">
+                      <span className="font-medium text-slate-700 w-10">v{version.version}</span>
+                      <span className="flex-1 truncate text-slate-600" title={version.subject}>
+                        {version.subject || version.name}
+                      </span>
+                      <span className="ml-2 text-slate-400">{new Date(version.savedAt).toLocaleString()}</span>
+                      <button
+                        onClick={() => handleRestore(version.version)}
+                        className="ml-2 text-primary-600 hover:text-primary-800 flex items-center"
+                        title="Restore this version"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-0.5" />
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesPage;
@@ -10,10 +10,53 @@ export interface AuthTokens {
   refresh_token?: string;
   id_token?: string;
   expires_at: number;
+  scopes?: string[];
 }
 
 export interface AuthState {
   user: User | null;
   tokens: AuthTokens | null;
   isAuthenticated: boolean;
-}
\ No newline at end of file
+}
+
+// Extra details from the token response
+export interface LoginTokenDetails {
+  // Token service handle for the refresh token
+  refreshToken?: string;
+  // Seconds until the access token expires
+  expiresIn?: number;
+  // Scope URLs Google reported as granted with this token
+  scopes?: string[];
+}
+
+// Google API access the app asks for, each when a feature first needs it
+export type GoogleScope = 'contacts' | 'gmailSend' | 'driveAppData';
+
+// A Google account signed in on this browser. Its data is kept apart from
+// the other accounts' under its own storage namespace.
+export interface StoredAccount {
+  id: string;
+  email: string;
+  name: string;
+  picture: string;
+  contactsDatabase: string;
+  lastUsedAt: number;
+}
+
+export interface AccountsState {
+  activeId: string | null;
+  accounts: StoredAccount[];
+  // The account that took over the data from before accounts existed
+  legacyOwnerId?: string;
+}
+
+// Idle lock settings, shared by every account on this browser
+export interface SessionLockState {
+  // 0 turns the idle lock off
+  timeoutMinutes: number;
+  // Set while the app is locked; only this account can unlock it again
+  locked?: {
+    accountId: string;
+    at: number;
+  };
+}
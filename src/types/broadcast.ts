@@ -0,0 +1,55 @@
+import { MimeAttachment } from '../utils/mime';
+
+export type RecipientStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface BroadcastRecipient {
+  resourceName: string;
+  name: string;
+  email: string;
+  status: RecipientStatus;
+  error?: string;
+  messageId?: string;
+  // Per-recipient values for {{placeholders}} in the subject and body
+  mergeData?: Record<string, string>;
+}
+
+export interface BroadcastDraft {
+  fromName: string;
+  fromEmail: string;
+  subject: string;
+  body: string;
+  // 'html' bodies are sent as multipart/alternative with a derived plain text part
+  bodyFormat?: 'text' | 'html';
+  attachments?: MimeAttachment[];
+}
+
+export interface BroadcastSummary {
+  total: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export type OutboxState = 'running' | 'paused' | 'completed' | 'cancelled';
+
+// A broadcast in progress, persisted so it survives reloads and token expiry
+export interface Outbox {
+  id: string;
+  draft: BroadcastDraft;
+  recipients: BroadcastRecipient[];
+  state: OutboxState;
+  createdAt: number;
+  updatedAt: number;
+  // Why the queue was paused automatically (e.g. session expired)
+  pauseReason?: string;
+}
+
+export interface BroadcastHistoryEntry {
+  id: string;
+  subject: string;
+  fromEmail: string;
+  state: OutboxState;
+  summary: BroadcastSummary;
+}
@@ -0,0 +1,39 @@
+import { GoogleScope } from './auth';
+
+// Settings read from /config.json when the app starts, so one build can be
+// deployed with different OAuth clients
+export interface AppConfig {
+  googleClientId: string;
+  // 'code' logs in with the authorization-code flow through the token service
+  authMode: 'implicit' | 'code';
+  tokenServiceUrl: string;
+  // Drive v3 endpoints for the appDataFolder sync, e.g. to use the fake Drive
+  driveApiUrl: string;
+  driveUploadUrl: string;
+  // Asked for at login; the other scopes when a feature first needs them
+  loginScopes: GoogleScope[];
+  syncIntervals: {
+    // How often cached contacts are refreshed from Google
+    contactsMinutes: number;
+    // Minimum time between Drive syncs when the tab regains focus
+    driveOnFocusSeconds: number;
+  };
+  features: {
+    driveSync: boolean;
+    multipleAccounts: boolean;
+  };
+}
+
+// Something wrong with one field of the configuration
+export interface ConfigIssue {
+  field: string;
+  message: string;
+}
+
+export interface ConfigLoadResult {
+  // null when the configuration can't be used
+  config: AppConfig | null;
+  issues: ConfigIssue[];
+  // Where the settings came from
+  source: 'config.json' | 'environment';
+}
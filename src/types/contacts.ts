@@ -20,13 +20,15 @@ export interface ContactOrganization {
 
 export interface Contact {
   resourceName: string;
-  names?: { displayName: string; metadata?: { source?: { id?: string } } }[];
+  names?: { displayName: string; givenName?: string; familyName?: string; metadata?: { source?: { id?: string } } }[];
   photos?: { url: string }[];
   emailAddresses?: { value: string; type?: string; metadata?: { primary?: boolean } }[];
   phoneNumbers?: { value: string }[];
   organizations?: ContactOrganization[];
   memberships?: { contactGroupMembership: { contactGroupResourceName: string } }[];
   userDefined?: { key: string; value: string }[];
+  // Set on people removed since the sync token was issued
+  metadata?: { deleted?: boolean };
   // Local tracking properties
   _localUpdatedAt?: number;
   _isDirty?: boolean;
@@ -35,5 +37,8 @@ export interface Contact {
 export interface ContactsMetadata {
   lastSyncTime: number;
   totalCount: number;
+  // Storage schema version (see migrations) the cache was written under
   version: number;
+  // People API token for fetching only the changes since the last sync
+  syncToken?: string;
 }
\ No newline at end of file
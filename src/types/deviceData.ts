@@ -0,0 +1,10 @@
+// What "sign out and erase this device" removes, shown before and after
+export interface DeviceDataSummary {
+  accounts: number;
+  contacts: number;
+  groups: number;
+  // Preferences, saved segments, templates, send queues, history, sync state
+  // and sign-in data
+  storedItems: number;
+  erasedAt?: number;
+}
@@ -0,0 +1,27 @@
+// One step in upgrading stored data. Migrations run in version order and
+// must be safe to run again if a later step fails or the tab is closed midway.
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void> | void;
+}
+
+export interface MigrationFailure {
+  version: number;
+  description: string;
+  error: string;
+  failedAt: number;
+}
+
+// Stored under storage_schema
+export interface StorageSchemaState {
+  version: number;
+  updatedAt: number;
+  lastFailure?: MigrationFailure;
+}
+
+export interface MigrationResult {
+  version: number;
+  applied: number[];
+  failure?: MigrationFailure;
+}
@@ -0,0 +1,27 @@
+import { SavedSegment, SegmentFilters, SegmentSubject } from './segments';
+
+// What the search index knows about one contact; plain data so it can be
+// posted to the search worker
+export interface ContactSearchDocument extends SegmentSubject {
+  // resourceName of the contact
+  id: string;
+}
+
+export interface ContactSearchResult {
+  id: string;
+  // Higher is a better match; 0 when only non-text filters were applied
+  score: number;
+}
+
+export type SegmentDefinition = Pick<SavedSegment, 'id' | 'filters'>;
+
+export type SearchWorkerRequest =
+  | { type: 'index'; documents: ContactSearchDocument[] }
+  | { type: 'search'; requestId: number; filters: SegmentFilters }
+  | { type: 'segments'; requestId: number; segments: SegmentDefinition[] };
+
+export type SearchWorkerResponse =
+  | { type: 'indexed'; size: number }
+  | { type: 'results'; requestId: number; results: ContactSearchResult[] }
+  // resourceNames of the members of each segment, by segment id
+  | { type: 'segments'; requestId: number; members: Record<string, string[]> };
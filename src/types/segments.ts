@@ -0,0 +1,87 @@
+// Contact fields a segment query can test
+export type SegmentField =
+  | 'label'
+  | 'name'
+  | 'email'
+  | 'domain'
+  | 'org'
+  | 'org.name'
+  | 'org.title'
+  | 'org.department';
+
+// `field:value` compares the whole value, `field:~value` looks for it
+// anywhere in the field; both ignore case
+export type SegmentMatch = 'is' | 'contains';
+
+export interface SegmentTerm {
+  type: 'term';
+  field: SegmentField;
+  match: SegmentMatch;
+  value: string;
+}
+
+// Parsed form of a query like `label:Clients AND NOT label:Former`
+export type SegmentNode =
+  | SegmentTerm
+  | { type: 'and'; children: SegmentNode[] }
+  | { type: 'or'; children: SegmentNode[] }
+  | { type: 'not'; child: SegmentNode };
+
+// Where in the query text something is wrong, as offsets into the text
+export interface SegmentSyntaxError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type SegmentParseResult =
+  // query is null when the text is empty, which matches every contact
+  | { ok: true; query: SegmentNode | null }
+  | { ok: false; error: SegmentSyntaxError };
+
+// What a query is evaluated against for one contact
+export interface SegmentSubject {
+  name: string;
+  emails: string[];
+  labels: string[];
+  organization: { name: string; title: string; department: string } | null;
+}
+
+// One line of the visual builder: any of its terms (OR), optionally
+// negated. The lines are combined with AND.
+export interface SegmentBuilderRow {
+  negate: boolean;
+  terms: SegmentTerm[];
+}
+
+export interface SegmentCompletion {
+  label: string;
+  // Replaces the text between from and to in the query
+  insert: string;
+  detail?: string;
+}
+
+export interface SegmentCompletions {
+  from: number;
+  to: number;
+  options: SegmentCompletion[];
+}
+
+// Everything the contacts page filters on; a saved segment stores this and
+// not the matching contacts, so it follows changes to the contacts
+export interface SegmentFilters {
+  nameFilter: string;
+  emailFilter: string;
+  includeLabels: string[];
+  excludeLabels: string[];
+  orgFilter: string;
+  segmentQuery: string;
+}
+
+export interface SavedSegment {
+  id: string;
+  name: string;
+  filters: SegmentFilters;
+  createdAt: number;
+  updatedAt: number;
+}
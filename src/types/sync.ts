@@ -0,0 +1,49 @@
+// Documents mirrored to the Drive appDataFolder, one JSON file each
+export type SyncDocumentName = 'preferences' | 'filters' | 'templates' | 'history';
+
+export type SyncStatus = 'idle' | 'syncing' | 'error';
+
+// Contents of a synced file in Drive
+export interface SyncEnvelope {
+  schemaVersion: number;
+  document: SyncDocumentName;
+  updatedAt: number;
+  deviceId: string;
+  data: Record<string, unknown>;
+}
+
+// What this browser knows about a document since it last synced
+export interface SyncDocumentState {
+  fileId?: string;
+  // updatedAt of the version both sides agreed on at the last sync
+  syncedAt?: number;
+  // When the local copy was last changed
+  localUpdatedAt?: number;
+  // Changed locally since the last sync
+  dirty?: boolean;
+}
+
+export interface SyncState {
+  deviceId: string;
+  lastSyncedAt: number | null;
+  documents: Partial<Record<SyncDocumentName, SyncDocumentState>>;
+}
+
+// Both copies changed since the last sync; the newer one was kept and the
+// other is stored here so the user can bring it back
+export interface SyncConflict {
+  id: string;
+  document: SyncDocumentName;
+  detectedAt: number;
+  kept: 'local' | 'remote';
+  localUpdatedAt: number;
+  remoteUpdatedAt: number;
+  remoteDeviceId: string;
+  discarded: Record<string, unknown>;
+}
+
+export interface SyncResult {
+  syncedAt: number;
+  conflicts: SyncConflict[];
+  errors: string[];
+}
@@ -0,0 +1,31 @@
+import { BroadcastDraft, BroadcastRecipient } from './broadcast';
+
+// Work that only one open tab may do at a time
+export type TabRole = 'session' | 'contacts-sync' | 'drive-sync' | 'outbox';
+
+// Outbox actions taken in a tab that doesn't own the send queue, carried
+// out by the tab that does
+export type OutboxCommand =
+  | { action: 'start'; draft: BroadcastDraft; recipients: BroadcastRecipient[] }
+  | { action: 'pause' | 'resume' | 'cancel' | 'retry' | 'dismiss' };
+
+export type TabMessage =
+  // Login, logout or a new access token
+  | { type: 'auth-changed' }
+  // The contacts cache was rewritten after a sync
+  | { type: 'contacts-updated' }
+  | { type: 'contacts-sync-requested' }
+  // Drive sync finished, or another tab has local changes to upload
+  | { type: 'drive-synced' }
+  | { type: 'drive-sync-requested' }
+  // The stored outbox changed
+  | { type: 'outbox-updated' }
+  | { type: 'outbox-command'; command: OutboxCommand }
+  // Everything stored was erased; other tabs drop what they hold and start over
+  | { type: 'device-erased' }
+  // The vault passphrase was set, changed or removed
+  | { type: 'vault-changed' }
+  // The app was locked or unlocked, or the idle timeout changed
+  | { type: 'session-lock-changed' }
+  // The user did something in another tab, so this one isn't idle either
+  | { type: 'user-active'; at: number };
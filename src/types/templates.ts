@@ -0,0 +1,20 @@
+export interface TemplateContent {
+  name: string;
+  subject: string;
+  body: string;
+  bodyFormat: 'text' | 'html';
+}
+
+export interface TemplateVersion extends TemplateContent {
+  version: number;
+  savedAt: number;
+}
+
+export interface MessageTemplate extends TemplateContent {
+  id: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  // Previous versions, most recent first
+  history: TemplateVersion[];
+}
@@ -0,0 +1,120 @@
+import { secureStorage } from './secureStorage';
+import { getContactsDatabaseName, setContactsDatabase, findContactsDatabases } from './contactsDb';
+import { AccountsState, StoredAccount, User } from '../types/auth';
+
+// Shared between accounts, see SHARED_KEYS in secureStorage
+const STORAGE_KEY_ACCOUNTS = 'accounts';
+
+export const UNKNOWN_ACCOUNT_ERROR = 'That account is not signed in on this browser';
+export const ACCOUNT_MISMATCH_ERROR = 'Google signed in a different account than the one you picked';
+
+const getState = (): AccountsState => {
+  const stored = secureStorage.getItem(STORAGE_KEY_ACCOUNTS) as AccountsState | null;
+  return stored || { activeId: null, accounts: [] };
+};
+
+const saveState = (state: AccountsState) => {
+  secureStorage.setItem(STORAGE_KEY_ACCOUNTS, state);
+};
+
+// Point storage and the contacts database at the active account
+const applyActiveAccount = (state: AccountsState) => {
+  const account = state.accounts.find(candidate => candidate.id === state.activeId) || null;
+  secureStorage.setNamespace(account ? account.id : null);
+  setContactsDatabase(account ? account.contactsDatabase : getContactsDatabaseName(null));
+};
+
+// The Google accounts signed in on this browser and which one is in use
+export const accountStore = {
+  list: (): StoredAccount[] => getState().accounts,
+
+  getActive: (): StoredAccount | null => {
+    const state = getState();
+    return state.accounts.find(account => account.id === state.activeId) || null;
+  },
+
+  // Use whatever account is stored as active, e.g. on startup or after
+  // another tab switched
+  restore: () => {
+    applyActiveAccount(getState());
+  },
+
+  // Add or update the account for a login and make it the active one. The
+  // first account ever signed in takes over the data from before accounts.
+  activate: (user: User): StoredAccount => {
+    const state = getState();
+    const existing = state.accounts.find(account => account.id === user.id);
+    const isLegacyOwner = state.legacyOwnerId === undefined || state.legacyOwnerId === user.id;
+
+    const account: StoredAccount = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      picture: user.picture,
+      contactsDatabase: existing?.contactsDatabase || getContactsDatabaseName(isLegacyOwner ? null : user.id),
+      lastUsedAt: Date.now()
+    };
+
+    if (state.legacyOwnerId === undefined) {
+      secureStorage.adoptUnscopedItems(user.id);
+      console.log(`Moved data stored before accounts existed to ${user.email}`);
+    }
+
+    const next: AccountsState = {
+      activeId: user.id,
+      accounts: [account, ...state.accounts.filter(candidate => candidate.id !== user.id)],
+      legacyOwnerId: state.legacyOwnerId ?? user.id
+    };
+    saveState(next);
+    applyActiveAccount(next);
+    return account;
+  },
+
+  setActive: (accountId: string) => {
+    const state = getState();
+    if (!state.accounts.some(account => account.id === accountId)) {
+      throw new Error(UNKNOWN_ACCOUNT_ERROR);
+    }
+    const next: AccountsState = {
+      ...state,
+      activeId: accountId,
+      accounts: state.accounts.map(account => (
+        account.id === accountId ? { ...account, lastUsedAt: Date.now() } : account
+      ))
+    };
+    saveState(next);
+    applyActiveAccount(next);
+  },
+
+  // Forget an account after signing out of it. Its stored data is kept for
+  // the next time it signs in. Returns the account that is active afterwards.
+  remove: (accountId: string): StoredAccount | null => {
+    const state = getState();
+    const accounts = state.accounts.filter(account => account.id !== accountId);
+    const activeId = state.activeId === accountId
+      ? [...accounts].sort((a, b) => b.lastUsedAt - a.lastUsedAt)[0]?.id || null
+      : state.activeId;
+
+    const next: AccountsState = { ...state, activeId, accounts };
+    saveState(next);
+    applyActiveAccount(next);
+    return accounts.find(account => account.id === activeId) || null;
+  }
+};
+
+// The contacts databases of every account, the one from before accounts and
+// any left by accounts that have signed out
+export const listContactsDatabases = async (): Promise<string[]> => {
+  let found: string[] = [];
+  try {
+    found = await findContactsDatabases();
+  } catch (error) {
+    console.error('Error listing contacts databases:', error);
+  }
+
+  return Array.from(new Set([
+    getContactsDatabaseName(null),
+    ...accountStore.list().map(account => account.contactsDatabase),
+    ...found
+  ]));
+};
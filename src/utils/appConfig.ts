@@ -0,0 +1,184 @@
+import { GOOGLE_SCOPES } from './oauthScopes';
+import { DRIVE_API_URL, DRIVE_UPLOAD_URL } from './driveClient';
+import { AppConfig, ConfigIssue, ConfigLoadResult } from '../types/config';
+import { GoogleScope } from '../types/auth';
+
+export const CONFIG_URL = '/config.json';
+
+export const CONFIG_NOT_LOADED_ERROR = 'The app configuration has not been loaded';
+
+const CLIENT_ID_PATTERN = /^\d+-[a-z0-9]+\.apps\.googleusercontent\.com$/;
+
+const DEFAULTS = {
+  authMode: 'implicit',
+  tokenServiceUrl: 'http://localhost:8788',
+  driveApiUrl: DRIVE_API_URL,
+  driveUploadUrl: DRIVE_UPLOAD_URL,
+  loginScopes: ['contacts'] as GoogleScope[],
+  syncIntervals: {
+    contactsMinutes: 30,
+    driveOnFocusSeconds: 60
+  },
+  features: {
+    driveSync: true,
+    multipleAccounts: true
+  }
+} satisfies Omit<AppConfig, 'googleClientId'>;
+
+let appConfig: AppConfig | null = null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Check every field and fill in defaults for the optional ones. All issues
+// are collected so the setup screen can list them at once.
+export const validateAppConfig = (raw: unknown): { config: AppConfig | null; issues: ConfigIssue[] } => {
+  const issues: ConfigIssue[] = [];
+  if (!isRecord(raw)) {
+    return { config: null, issues: [{ field: '(file)', message: 'The configuration must be a JSON object' }] };
+  }
+
+  const {
+    googleClientId,
+    authMode,
+    tokenServiceUrl,
+    driveApiUrl,
+    driveUploadUrl,
+    loginScopes,
+    syncIntervals,
+    features
+  } = raw;
+
+  if (typeof googleClientId !== 'string' || !googleClientId) {
+    issues.push({ field: 'googleClientId', message: 'Set this to the OAuth client ID of a Google Cloud web application' });
+  } else if (!CLIENT_ID_PATTERN.test(googleClientId)) {
+    issues.push({ field: 'googleClientId', message: `"${googleClientId}" does not look like a Google OAuth client ID (…apps.googleusercontent.com)` });
+  }
+
+  if (authMode !== undefined && authMode !== 'implicit' && authMode !== 'code') {
+    issues.push({ field: 'authMode', message: 'Use "implicit" or "code"' });
+  }
+
+  if (tokenServiceUrl !== undefined && (typeof tokenServiceUrl !== 'string' || !isValidUrl(tokenServiceUrl))) {
+    issues.push({ field: 'tokenServiceUrl', message: 'Must be an absolute URL' });
+  } else if (authMode === 'code' && tokenServiceUrl === undefined) {
+    issues.push({ field: 'tokenServiceUrl', message: 'Required when authMode is "code"' });
+  }
+
+  for (const [field, value] of Object.entries({ driveApiUrl, driveUploadUrl })) {
+    if (value !== undefined && (typeof value !== 'string' || !isValidUrl(value))) {
+      issues.push({ field, message: 'Must be an absolute URL' });
+    }
+  }
+
+  if (loginScopes !== undefined) {
+    const known = Object.keys(GOOGLE_SCOPES);
+    if (!Array.isArray(loginScopes) || loginScopes.some(scope => !known.includes(scope))) {
+      issues.push({ field: 'loginScopes', message: `Must be a list of: ${known.join(', ')}` });
+    } else if (!loginScopes.includes('contacts')) {
+      // The app can't do anything without reading contacts
+      issues.push({ field: 'loginScopes', message: 'Must include "contacts"' });
+    }
+  }
+
+  if (syncIntervals !== undefined && !isRecord(syncIntervals)) {
+    issues.push({ field: 'syncIntervals', message: 'Must be an object' });
+  }
+  const intervals = isRecord(syncIntervals) ? syncIntervals : {};
+  const minimums: Record<keyof AppConfig['syncIntervals'], number> = { contactsMinutes: 1, driveOnFocusSeconds: 10 };
+  for (const [name, minimum] of Object.entries(minimums)) {
+    const value = intervals[name];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < minimum)) {
+      issues.push({ field: `syncIntervals.${name}`, message: `Must be a number of at least ${minimum}` });
+    }
+  }
+
+  if (features !== undefined && !isRecord(features)) {
+    issues.push({ field: 'features', message: 'Must be an object' });
+  }
+  const flags = isRecord(features) ? features : {};
+  for (const name of Object.keys(DEFAULTS.features)) {
+    if (flags[name] !== undefined && typeof flags[name] !== 'boolean') {
+      issues.push({ field: `features.${name}`, message: 'Must be true or false' });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { config: null, issues };
+  }
+
+  return {
+    config: {
+      googleClientId: googleClientId as string,
+      authMode: (authMode as AppConfig['authMode']) || DEFAULTS.authMode,
+      tokenServiceUrl: (tokenServiceUrl as string) || DEFAULTS.tokenServiceUrl,
+      driveApiUrl: (driveApiUrl as string) || DEFAULTS.driveApiUrl,
+      driveUploadUrl: (driveUploadUrl as string) || DEFAULTS.driveUploadUrl,
+      loginScopes: (loginScopes as GoogleScope[]) || DEFAULTS.loginScopes,
+      syncIntervals: { ...DEFAULTS.syncIntervals, ...intervals },
+      features: { ...DEFAULTS.features, ...flags }
+    },
+    issues
+  };
+};
+
+// The VITE_ variables from .env.local, so local development works without
+// a config.json
+const readEnvironment = () => ({
+  googleClientId: import.meta.env.VITE_GOOGLE_CLIENT_ID,
+  authMode: import.meta.env.VITE_AUTH_MODE,
+  tokenServiceUrl: import.meta.env.VITE_TOKEN_SERVICE_URL || DEFAULTS.tokenServiceUrl
+});
+
+// Fetch and validate the configuration before the app renders
+export const loadAppConfig = async (): Promise<ConfigLoadResult> => {
+  let raw: unknown;
+  let source: ConfigLoadResult['source'] = 'config.json';
+
+  try {
+    const response = await fetch(CONFIG_URL, { cache: 'no-store' });
+    // The dev server answers unknown paths with index.html
+    const isJson = response.headers.get('Content-Type')?.includes('json');
+
+    if (response.ok && isJson) {
+      raw = await response.json();
+    } else if (import.meta.env.DEV) {
+      raw = readEnvironment();
+      source = 'environment';
+    } else {
+      return {
+        config: null,
+        issues: [{ field: '(file)', message: `${CONFIG_URL} could not be loaded (${response.status})` }],
+        source
+      };
+    }
+  } catch (error) {
+    console.error('Error loading the app configuration:', error);
+    return {
+      config: null,
+      issues: [{ field: '(file)', message: `${CONFIG_URL} is not valid JSON or could not be fetched` }],
+      source
+    };
+  }
+
+  const { config, issues } = validateAppConfig(raw);
+  appConfig = config;
+  return { config, issues, source };
+};
+
+export const getAppConfig = (): AppConfig => {
+  if (!appConfig) {
+    throw new Error(CONFIG_NOT_LOADED_ERROR);
+  }
+  return appConfig;
+};
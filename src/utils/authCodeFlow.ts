@@ -0,0 +1,292 @@
+import { GoogleScope, User } from '../types/auth';
+import { toScopeString } from './oauthScopes';
+import { getAppConfig } from './appConfig';
+
+// Two login modes, picked with authMode in the app config. 'implicit' gets
+// short-lived tokens from a Google popup and has to show it again to
+// refresh. 'code' uses the authorization-code flow with PKCE and the
+// companion token service (server/token-service.js), which keeps the refresh
+// token and lets the app refresh silently.
+//
+// Either mode falls back to a full-page redirect to Google when the browser
+// won't open popups (startRedirectLogin).
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const USERINFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+// The PKCE verifier only has to survive the redirect to Google and back
+const PENDING_LOGIN_KEY = 'pending_auth_code_login';
+const PENDING_REDIRECT_LOGIN_KEY = 'pending_redirect_login';
+
+export const INVALID_LOGIN_STATE_ERROR = 'The login response did not match the login that was started';
+export const SESSION_REVOKED_ERROR = 'The token service no longer has a session for this login';
+export const INVALID_ID_TOKEN_ERROR = 'Google returned an identity token that was not issued for this login';
+
+interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+  createdAt: number;
+  returnTo?: string;
+  replacesSession?: string;
+}
+
+interface AuthCodeLoginOptions {
+  scopes?: GoogleScope[];
+  // Where to go once the login completes
+  returnTo?: string;
+  // Session handle of the login this one adds scopes to
+  replacesSession?: string;
+  // Preselect this account on Google's screen
+  loginHint?: string;
+  // Let the user pick another account, e.g. to add it
+  selectAccount?: boolean;
+}
+
+interface PendingRedirectLogin {
+  state: string;
+  nonce: string;
+  createdAt: number;
+  returnTo?: string;
+}
+
+export interface TokenServiceTokens {
+  accessToken: string;
+  expiresIn: number;
+  scope?: string;
+  // Opaque handle for the refresh token held by the token service
+  session?: string;
+}
+
+export interface CompletedAuthCodeLogin extends TokenServiceTokens {
+  returnTo?: string;
+}
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const randomString = (byteLength: number): string => {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+const createCodeChallenge = async (verifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+const getRedirectUri = () => `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+
+const base64UrlDecode = (value: string): string => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+};
+
+// The token came straight from Google over TLS, so only the claims tying it
+// to this login are checked, not the signature
+const checkIdToken = (idToken: string | null, nonce: string) => {
+  try {
+    const claims = JSON.parse(base64UrlDecode(idToken?.split('.')[1] || ''));
+    const issuers = ['accounts.google.com', 'https://accounts.google.com'];
+    return claims.nonce === nonce
+      && claims.aud === getAppConfig().googleClientId
+      && issuers.includes(claims.iss)
+      && claims.exp * 1000 > Date.now();
+  } catch {
+    return false;
+  }
+};
+
+const callTokenService = async <T>(path: string, body: Record<string, string>): Promise<T> => {
+  const response = await fetch(`${getAppConfig().tokenServiceUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 401) {
+    throw new Error(SESSION_REVOKED_ERROR);
+  }
+  if (!response.ok) {
+    throw new Error(data.error_description || data.error || `Token service error ${response.status}`);
+  }
+  return data as T;
+};
+
+// Send the browser to Google's consent screen. The page unloads, so this
+// only returns if something went wrong before the redirect.
+export const startAuthCodeLogin = async (options: AuthCodeLoginOptions = {}): Promise<void> => {
+  const pending: PendingLogin = {
+    state: randomString(16),
+    codeVerifier: randomString(48),
+    createdAt: Date.now(),
+    returnTo: options.returnTo,
+    replacesSession: options.replacesSession
+  };
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    client_id: getAppConfig().googleClientId,
+    redirect_uri: getRedirectUri(),
+    response_type: 'code',
+    scope: `openid email profile ${toScopeString(options.scopes || getAppConfig().loginScopes)}`,
+    // Keep the scopes granted earlier when asking for more
+    include_granted_scopes: 'true',
+    state: pending.state,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+    // Without these Google only issues a refresh token on the very first consent
+    access_type: 'offline',
+    prompt: options.selectAccount ? 'select_account consent' : 'consent'
+  });
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint);
+  }
+
+  window.location.assign(`${GOOGLE_AUTH_URL}?${params.toString()}`);
+};
+
+// Trade the code Google redirected back with for tokens
+export const completeAuthCodeLogin = async (search: string): Promise<CompletedAuthCodeLogin> => {
+  const params = new URLSearchParams(search);
+  const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+
+  const googleError = params.get('error');
+  if (googleError) {
+    throw new Error(googleError === 'access_denied' ? 'Access was not granted' : googleError);
+  }
+
+  const pending = stored ? JSON.parse(stored) as PendingLogin : null;
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new Error(INVALID_LOGIN_STATE_ERROR);
+  }
+
+  const tokens = await callTokenService<TokenServiceTokens>('/token', {
+    code,
+    codeVerifier: pending.codeVerifier,
+    redirectUri: getRedirectUri(),
+    ...(pending.replacesSession ? { replaces: pending.replacesSession } : {})
+  });
+  return { ...tokens, returnTo: pending.returnTo };
+};
+
+// Google sends the browser back with the token in the URL fragment
+export const isRedirectLoginResponse = (hash: string): boolean => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.has('state') && sessionStorage.getItem(PENDING_REDIRECT_LOGIN_KEY) !== null;
+};
+
+// Sign in by sending the whole page to Google instead of opening a popup,
+// for browsers that block popups. Like startAuthCodeLogin it only returns if
+// something went wrong before the redirect.
+export const startRedirectLogin = (options: Omit<AuthCodeLoginOptions, 'replacesSession'> = {}) => {
+  if (getAppConfig().authMode === 'code') {
+    return startAuthCodeLogin(options);
+  }
+
+  const pending: PendingRedirectLogin = {
+    state: randomString(16),
+    nonce: randomString(16),
+    createdAt: Date.now(),
+    returnTo: options.returnTo
+  };
+  sessionStorage.setItem(PENDING_REDIRECT_LOGIN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    client_id: getAppConfig().googleClientId,
+    redirect_uri: getRedirectUri(),
+    response_type: 'token id_token',
+    scope: `openid email profile ${toScopeString(options.scopes || getAppConfig().loginScopes)}`,
+    include_granted_scopes: 'true',
+    state: pending.state,
+    nonce: pending.nonce
+  });
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint);
+  }
+  if (options.selectAccount) {
+    params.set('prompt', 'select_account');
+  }
+
+  window.location.assign(`${GOOGLE_AUTH_URL}?${params.toString()}`);
+  return Promise.resolve();
+};
+
+// Read the token from the fragment Google redirected back with
+export const completeRedirectLogin = (hash: string): CompletedAuthCodeLogin => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const stored = sessionStorage.getItem(PENDING_REDIRECT_LOGIN_KEY);
+  sessionStorage.removeItem(PENDING_REDIRECT_LOGIN_KEY);
+
+  const googleError = params.get('error');
+  if (googleError) {
+    throw new Error(googleError === 'access_denied' ? 'Access was not granted' : googleError);
+  }
+
+  const pending = stored ? JSON.parse(stored) as PendingRedirectLogin : null;
+  const accessToken = params.get('access_token');
+  if (!pending || !accessToken || params.get('state') !== pending.state) {
+    throw new Error(INVALID_LOGIN_STATE_ERROR);
+  }
+  if (!checkIdToken(params.get('id_token'), pending.nonce)) {
+    throw new Error(INVALID_ID_TOKEN_ERROR);
+  }
+
+  return {
+    accessToken,
+    expiresIn: Number(params.get('expires_in')) || 3600,
+    scope: params.get('scope') || undefined,
+    returnTo: pending.returnTo
+  };
+};
+
+export const refreshWithTokenService = (session: string): Promise<TokenServiceTokens> => {
+  return callTokenService<TokenServiceTokens>('/refresh', { session });
+};
+
+export const revokeTokenServiceSession = async (session: string): Promise<void> => {
+  await callTokenService('/revoke', { session });
+};
+
+export const fetchGoogleUser = async (accessToken: string): Promise<User> => {
+  const response = await fetch(USERINFO_URL, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to get user info');
+  }
+
+  const userInfo = await response.json();
+  return {
+    id: userInfo.sub,
+    name: userInfo.name,
+    email: userInfo.email,
+    picture: userInfo.picture
+  };
+};
+
+// Revoking a token ends the whole grant, so the app needs consent again at
+// the next login
+export const revokeGoogleToken = async (token: string): Promise<void> => {
+  const response = await fetch(GOOGLE_REVOKE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ token })
+  });
+
+  // 400 means the token had already expired or been revoked
+  if (!response.ok && response.status !== 400) {
+    throw new Error(`Failed to revoke the token (${response.status})`);
+  }
+};
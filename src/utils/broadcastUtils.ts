@@ -0,0 +1,76 @@
+import { Contact } from '../types/contacts';
+import { BroadcastDraft, BroadcastRecipient, BroadcastSummary } from '../types/broadcast';
+import { buildMergeData, renderTemplate, escapeHtml, OrganizationLookup } from './mergeFields';
+import { encodeRawMessage, htmlToText } from './mime';
+
+export const GMAIL_SEND_URL = 'https://gmail.googleapis.com/gmail/v1/users/me/messages/send';
+
+// Pick the primary email address of a contact, or the first one available
+export const getPrimaryEmail = (contact: Contact): string | null => {
+  const emails = contact.emailAddresses || [];
+  const primary = emails.find(email => email.metadata?.primary);
+  return (primary || emails[0])?.value || null;
+};
+
+// Build the recipient list for a broadcast, skipping contacts without an email
+export const buildRecipients = (
+  contacts: Contact[],
+  getOrganizationDetails: OrganizationLookup
+): BroadcastRecipient[] => {
+  const seen = new Set<string>();
+  const recipients: BroadcastRecipient[] = [];
+
+  contacts.forEach(contact => {
+    const email = getPrimaryEmail(contact);
+    if (!email) return;
+
+    // Don't send the same message twice to one address
+    const normalized = email.toLowerCase();
+    if (seen.has(normalized)) return;
+    seen.add(normalized);
+
+    recipients.push({
+      resourceName: contact.resourceName,
+      name: contact.names?.[0]?.displayName || '',
+      email,
+      status: 'queued',
+      mergeData: buildMergeData(contact, email, getOrganizationDetails)
+    });
+  });
+
+  return recipients;
+};
+
+// Render the personalized subject and body for one recipient
+export const renderForRecipient = (draft: BroadcastDraft, recipient: BroadcastRecipient) => ({
+  subject: renderTemplate(draft.subject, recipient.mergeData || {}),
+  body: renderTemplate(draft.body, recipient.mergeData || {}, draft.bodyFormat === 'html' ? escapeHtml : undefined)
+});
+
+export const buildRawMessage = (draft: BroadcastDraft, recipient: BroadcastRecipient): string => {
+  const { subject, body } = renderForRecipient(draft, recipient);
+  const isHtml = draft.bodyFormat === 'html';
+
+  return encodeRawMessage({
+    from: { name: draft.fromName, email: draft.fromEmail },
+    to: { name: recipient.name, email: recipient.email },
+    subject,
+    text: isHtml ? htmlToText(body) : body,
+    html: isHtml ? body : undefined,
+    attachments: draft.attachments
+  });
+};
+
+// Count recipient states for progress and summary displays
+export const summarizeRecipients = (
+  recipients: BroadcastRecipient[],
+  startedAt: number,
+  finishedAt: number = Date.now()
+): BroadcastSummary => ({
+  total: recipients.length,
+  sent: recipients.filter(r => r.status === 'sent').length,
+  failed: recipients.filter(r => r.status === 'failed').length,
+  skipped: recipients.filter(r => r.status === 'skipped').length,
+  startedAt,
+  finishedAt
+});
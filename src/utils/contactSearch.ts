@@ -0,0 +1,192 @@
+import { Contact, ContactLabel } from '../types/contacts';
+import { SegmentFilters } from '../types/segments';
+import { ContactSearchDocument, ContactSearchResult } from '../types/search';
+import { OrganizationLookup } from './mergeFields';
+import { parseSegmentQuery, matchesSegment } from './segmentQuery';
+import { normalizeSearchText } from './searchText';
+
+// Same shape as getContactLabels from useContactsStorage
+export type ContactLabelLookup = (contact: Contact) => ContactLabel[];
+
+interface IndexedField {
+  tokens: string[];
+  // Whole normalized values, for queries spanning several tokens
+  texts: string[];
+}
+
+interface IndexEntry {
+  document: ContactSearchDocument;
+  name: IndexedField;
+  email: IndexedField;
+  org: IndexedField;
+}
+
+// Normalized tokens of every contact, built once per sync rather than on
+// every keystroke
+export interface ContactSearchIndex {
+  entries: IndexEntry[];
+}
+
+const tokenize = (text: string): string[] => {
+  return normalizeSearchText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+const indexField = (values: string[]): IndexedField => ({
+  tokens: Array.from(new Set(values.flatMap(tokenize))),
+  texts: values.map(normalizeSearchText).filter(Boolean)
+});
+
+// Edit distance counting a swap of neighbouring letters as one edit, giving
+// up once it exceeds max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Short words have to match exactly; longer ones may have a typo or two
+const allowedEdits = (token: string): number => {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+};
+
+// How well one query token matches the best token of a field
+const scoreToken = (query: string, tokens: string[]): number => {
+  const maxEdits = allowedEdits(query);
+  let best = 0;
+
+  for (const token of tokens) {
+    if (token === query) return 4;
+    if (token.startsWith(query)) {
+      best = Math.max(best, 3);
+    } else if (token.includes(query)) {
+      best = Math.max(best, 2);
+    } else if (maxEdits > 0 && best < 1.5) {
+      const distance = editDistance(query, token, maxEdits);
+      if (distance <= maxEdits) {
+        best = Math.max(best, 1.5 - distance * 0.25);
+      } else if (token.length > query.length && editDistance(query, token.slice(0, query.length), maxEdits) <= maxEdits) {
+        // Still typing a word with a typo in it
+        best = Math.max(best, 0.75);
+      }
+    }
+  }
+
+  return best;
+};
+
+interface TextQuery {
+  tokens: string[];
+  phrase: string;
+}
+
+// Tokenize a filter once per search instead of once per contact
+const prepareQuery = (text: string): TextQuery | null => {
+  const tokens = tokenize(text);
+  return tokens.length > 0 ? { tokens, phrase: normalizeSearchText(text.trim()) } : null;
+};
+
+// 0 when a query word matches nothing
+const scoreField = (query: TextQuery, field: IndexedField): number => {
+  let total = 0;
+  for (const queryToken of query.tokens) {
+    const score = scoreToken(queryToken, field.tokens);
+    if (score === 0) return 0;
+    total += score;
+  }
+
+  // Words found next to each other in the same order rank higher
+  if (query.tokens.length > 1 && field.texts.some(text => text.includes(query.phrase))) {
+    total += 2;
+  }
+
+  return total;
+};
+
+export const buildSearchDocument = (
+  contact: Contact,
+  getContactLabels: ContactLabelLookup,
+  getOrganizationDetails: OrganizationLookup
+): ContactSearchDocument => ({
+  id: contact.resourceName,
+  name: contact.names?.[0]?.displayName || '',
+  emails: (contact.emailAddresses || []).map(email => email.value.toLowerCase()),
+  labels: getContactLabels(contact).map(label => label.name),
+  organization: getOrganizationDetails(contact)
+});
+
+export const createSearchIndex = (documents: ContactSearchDocument[]): ContactSearchIndex => ({
+  entries: documents.map(document => {
+    const organization = document.organization;
+    return {
+      document,
+      name: indexField([document.name]),
+      email: indexField(document.emails),
+      org: indexField(organization ? [organization.name, organization.title, organization.department] : [])
+    };
+  })
+});
+
+// Contacts matching the filters. With text in the name, email or
+// organization filters the best matches come first; otherwise the index
+// order is kept.
+export const searchContacts = (index: ContactSearchIndex, filters: SegmentFilters): ContactSearchResult[] => {
+  const parsed = parseSegmentQuery(filters.segmentQuery);
+  // A query with a syntax error is ignored until it is fixed
+  const query = parsed.ok ? parsed.query : null;
+  const textQueries = [
+    { query: prepareQuery(filters.nameFilter), field: 'name' as const },
+    { query: prepareQuery(filters.emailFilter), field: 'email' as const },
+    { query: prepareQuery(filters.orgFilter), field: 'org' as const }
+  ].filter((item): item is { query: TextQuery; field: 'name' | 'email' | 'org' } => item.query !== null);
+  const results: ContactSearchResult[] = [];
+
+  for (const entry of index.entries) {
+    const { document } = entry;
+
+    // Include labels: at least one of them; exclude labels: none of them
+    if (filters.includeLabels.length > 0 && !filters.includeLabels.some(label => document.labels.includes(label))) continue;
+    if (filters.excludeLabels.some(label => document.labels.includes(label))) continue;
+
+    // Every text filter has to match
+    let score = 0;
+    let matched = true;
+    for (const { query: textQuery, field } of textQueries) {
+      const fieldScore = scoreField(textQuery, entry[field]);
+      if (fieldScore === 0) {
+        matched = false;
+        break;
+      }
+      score += fieldScore;
+    }
+    if (!matched) continue;
+
+    if (query && !matchesSegment(query, document)) continue;
+
+    results.push({ id: document.id, score });
+  }
+
+  // Array sort is stable, so equal scores keep the index order
+  return textQueries.length > 0 ? results.sort((a, b) => b.score - a.score) : results;
+};
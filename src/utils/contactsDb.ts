@@ -0,0 +1,344 @@
+import { secureStorage, encryptData, decryptData } from './secureStorage';
+import { isEnvelope } from './envelope';
+import { Contact, ContactGroup } from '../types/contacts';
+
+const DB_NAME = 'gbroadcast';
+const DB_VERSION = 2;
+const STORE_CONTACTS = 'contacts';
+const STORE_GROUPS = 'contactGroups';
+
+// Keys of the old localStorage cache, moved over by migrateContactsToIndexedDb
+const LEGACY_KEY_CONTACTS = 'google_contacts';
+const LEGACY_KEY_GROUPS = 'google_contact_groups';
+
+// Contacts are stored one record each, encrypted like the rest of our
+// storage. Nothing about a contact is kept readable for an index; lookups
+// decrypt the records and filter them in memory.
+interface ContactRecord {
+  resourceName: string;
+  payload: string;
+}
+
+// Version 1 indexed the contacts by these, stored next to the payload
+const LEGACY_INDEXES = ['email', 'domain', 'group'];
+
+interface GroupRecord {
+  resourceName: string;
+  payload: string;
+}
+
+// Each account caches its contacts in its own database. The one from before
+// accounts existed keeps the original name and belongs to the account that
+// adopted it.
+let activeDatabase = DB_NAME;
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const getContactsDatabaseName = (accountId: string | null): string => {
+  return accountId ? `${DB_NAME}:${accountId}` : DB_NAME;
+};
+
+export const setContactsDatabase = (name: string) => {
+  activeDatabase = name;
+};
+
+const openDb = (name: string): Promise<IDBDatabase> => {
+  const existing = connections.get(name);
+  if (existing) return existing;
+
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_CONTACTS)) {
+        db.createObjectStore(STORE_CONTACTS, { keyPath: 'resourceName' });
+      } else if (event.oldVersion < 2) {
+        // Drop the indexes and the plaintext emails, domains and groups
+        // they were built from
+        const contacts = request.transaction!.objectStore(STORE_CONTACTS);
+        LEGACY_INDEXES
+          .filter(indexName => contacts.indexNames.contains(indexName))
+          .forEach(indexName => contacts.deleteIndex(indexName));
+
+        const cursorRequest = contacts.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const { resourceName, payload } = cursor.value as ContactRecord;
+          cursor.update({ resourceName, payload });
+          cursor.continue();
+        };
+      }
+      if (!db.objectStoreNames.contains(STORE_GROUPS)) {
+        db.createObjectStore(STORE_GROUPS, { keyPath: 'resourceName' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(name);
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      connections.delete(name);
+      reject(request.error || new Error('Failed to open the contacts database'));
+    };
+  });
+
+  connections.set(name, dbPromise);
+  return dbPromise;
+};
+
+// Contacts databases on this device, including those of accounts that have
+// signed out since. Empty where the browser can't list databases.
+export const findContactsDatabases = async (): Promise<string[]> => {
+  if (typeof indexedDB === 'undefined' || typeof indexedDB.databases !== 'function') {
+    return [];
+  }
+  const databases = await indexedDB.databases();
+  return databases
+    .map(database => database.name)
+    .filter((name): name is string => Boolean(name) && (name === DB_NAME || name!.startsWith(`${DB_NAME}:`)));
+};
+
+export const deleteContactsDatabase = async (name: string): Promise<void> => {
+  const connection = connections.get(name);
+  connections.delete(name);
+  if (connection) {
+    (await connection.catch(() => null))?.close();
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error || new Error(`Failed to delete ${name}`));
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a set of operations in one transaction and resolve once it is committed
+const runTransaction = async (
+  name: string,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  operations: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb(name);
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    operations(transaction);
+  });
+};
+
+// Encryption is asynchronous, so records are prepared before a transaction
+// is opened; awaiting inside one would let it commit early
+const toContactRecord = async (contact: Contact): Promise<ContactRecord> => ({
+  resourceName: contact.resourceName,
+  payload: await encryptData(contact)
+});
+
+const getContactEmails = (contact: Contact): string[] => {
+  return (contact.emailAddresses || [])
+    .map(email => email.value?.trim().toLowerCase())
+    .filter((email): email is string => Boolean(email));
+};
+
+// Decrypt records, counting the ones that can no longer be read and
+// collecting the ones still in a pre-envelope format
+const fromContactRecords = async (
+  records: ContactRecord[]
+): Promise<{ contacts: Contact[], corrupted: number, legacy: Contact[] }> => {
+  const contacts: Contact[] = [];
+  const legacy: Contact[] = [];
+  let corrupted = 0;
+
+  for (const record of records) {
+    const contact = await decryptData(record.payload) as Contact | null;
+    if (contact && contact.resourceName) {
+      contacts.push(contact);
+      if (!isEnvelope(record.payload)) {
+        legacy.push(contact);
+      }
+    } else {
+      corrupted++;
+    }
+  }
+
+  return { contacts, corrupted, legacy };
+};
+
+const createContactsStore = (getName: () => string) => {
+  const api = {
+    getAllContacts: async (): Promise<{ contacts: Contact[], corrupted: number }> => {
+      const db = await openDb(getName());
+      const store = db.transaction(STORE_CONTACTS, 'readonly').objectStore(STORE_CONTACTS);
+      const records = await requestToPromise(store.getAll()) as ContactRecord[];
+      const { contacts, corrupted, legacy } = await fromContactRecords(records);
+
+      // Re-encrypt records in the old format the first time they are read
+      if (legacy.length > 0) {
+        await api.putContacts(legacy);
+        console.log(`Migrated ${legacy.length} cached contacts to the current storage format`);
+      }
+
+      return { contacts, corrupted };
+    },
+
+    findContacts: async (predicate: (contact: Contact) => boolean): Promise<Contact[]> => {
+      return (await api.getAllContacts()).contacts.filter(predicate);
+    },
+
+    getContactsByEmail: (email: string) => {
+      const value = email.trim().toLowerCase();
+      return api.findContacts(contact => getContactEmails(contact).includes(value));
+    },
+
+    getContactsByDomain: (domain: string) => {
+      const value = domain.trim().toLowerCase();
+      return api.findContacts(contact => getContactEmails(contact).some(email => email.split('@')[1] === value));
+    },
+
+    getContactsByGroup: (groupResourceName: string) => {
+      return api.findContacts(contact => (contact.memberships || []).some(
+        membership => membership.contactGroupMembership?.contactGroupResourceName === groupResourceName
+      ));
+    },
+
+    // Write or overwrite individual contacts
+    putContacts: async (contacts: Contact[]): Promise<void> => {
+      const records = await Promise.all(contacts.map(toContactRecord));
+      return runTransaction(getName(), [STORE_CONTACTS], 'readwrite', transaction => {
+        const store = transaction.objectStore(STORE_CONTACTS);
+        records.forEach(record => store.put(record));
+      });
+    },
+
+    deleteContacts: (resourceNames: string[]): Promise<void> => {
+      return runTransaction(getName(), [STORE_CONTACTS], 'readwrite', transaction => {
+        const store = transaction.objectStore(STORE_CONTACTS);
+        resourceNames.forEach(resourceName => store.delete(resourceName));
+      });
+    },
+
+    // Replace the whole cache after a full sync
+    replaceContacts: async (contacts: Contact[]): Promise<void> => {
+      const records = await Promise.all(contacts.map(toContactRecord));
+      return runTransaction(getName(), [STORE_CONTACTS], 'readwrite', transaction => {
+        const store = transaction.objectStore(STORE_CONTACTS);
+        store.clear();
+        records.forEach(record => store.put(record));
+      });
+    },
+
+    getGroups: async (): Promise<Record<string, ContactGroup>> => {
+      const db = await openDb(getName());
+      const store = db.transaction(STORE_GROUPS, 'readonly').objectStore(STORE_GROUPS);
+      const records = await requestToPromise(store.getAll()) as GroupRecord[];
+
+      const groups: Record<string, ContactGroup> = {};
+      let hasLegacy = false;
+      for (const record of records) {
+        const group = await decryptData(record.payload) as ContactGroup | null;
+        if (group) {
+          groups[record.resourceName] = group;
+          hasLegacy = hasLegacy || !isEnvelope(record.payload);
+        }
+      }
+
+      if (hasLegacy) {
+        await api.replaceGroups(groups);
+      }
+      return groups;
+    },
+
+    replaceGroups: async (groups: Record<string, ContactGroup>): Promise<void> => {
+      const records: GroupRecord[] = await Promise.all(Object.values(groups).map(async group => ({
+        resourceName: group.resourceName,
+        payload: await encryptData(group)
+      })));
+      return runTransaction(getName(), [STORE_GROUPS], 'readwrite', transaction => {
+        const store = transaction.objectStore(STORE_GROUPS);
+        store.clear();
+        records.forEach(record => store.put(record));
+      });
+    },
+
+    // Number of cached records, without decrypting them
+    count: async (): Promise<{ contacts: number, groups: number }> => {
+      const db = await openDb(getName());
+      const transaction = db.transaction([STORE_CONTACTS, STORE_GROUPS], 'readonly');
+      const [contacts, groups] = await Promise.all([
+        requestToPromise(transaction.objectStore(STORE_CONTACTS).count()),
+        requestToPromise(transaction.objectStore(STORE_GROUPS).count())
+      ]);
+      return { contacts, groups };
+    },
+
+    clear: (): Promise<void> => {
+      return runTransaction(getName(), [STORE_CONTACTS, STORE_GROUPS], 'readwrite', transaction => {
+        transaction.objectStore(STORE_CONTACTS).clear();
+        transaction.objectStore(STORE_GROUPS).clear();
+      });
+    }
+  };
+  return api;
+};
+
+// The active account's contacts
+export const contactsDb = createContactsStore(() => activeDatabase);
+
+// Contacts of any account, e.g. to re-encrypt all of them
+export const getAccountContactsDb = (name: string) => createContactsStore(() => name);
+
+// Move a contacts cache left in localStorage by earlier versions into
+// IndexedDB. The old keys are only removed once the copy is committed; when
+// any of it can't be read it throws and they are left for another try.
+export const migrateContactsToIndexedDb = async (): Promise<boolean> => {
+  const hasLegacyContacts = localStorage.getItem(LEGACY_KEY_CONTACTS) !== null;
+  const hasLegacyGroups = localStorage.getItem(LEGACY_KEY_GROUPS) !== null;
+  if (!hasLegacyContacts && !hasLegacyGroups) {
+    return false;
+  }
+
+  const contacts = secureStorage.getItem(LEGACY_KEY_CONTACTS) as Contact[] | null;
+  const groups = secureStorage.getItem(LEGACY_KEY_GROUPS) as Record<string, ContactGroup> | null;
+
+  if (hasLegacyContacts && (!Array.isArray(contacts) || contacts.some(contact => !contact?.resourceName))) {
+    throw new Error('The cached contacts in localStorage could not be read');
+  }
+  if (hasLegacyGroups && (!groups || typeof groups !== 'object')) {
+    throw new Error('The cached contact groups in localStorage could not be read');
+  }
+
+  if (contacts && contacts.length > 0) {
+    await contactsDb.replaceContacts(contacts);
+  }
+  if (groups) {
+    await contactsDb.replaceGroups(groups);
+  }
+
+  secureStorage.removeItem(LEGACY_KEY_CONTACTS);
+  secureStorage.removeItem(LEGACY_KEY_GROUPS);
+  console.log(`Migrated ${contacts?.length || 0} cached contacts to IndexedDB`);
+  return true;
+};
@@ -0,0 +1,73 @@
+import { secureStorage } from './secureStorage';
+import { vault } from './vault';
+import { accountStore, listContactsDatabases } from './accounts';
+import { getAccountContactsDb, deleteContactsDatabase } from './contactsDb';
+import { DeviceDataSummary } from '../types/deviceData';
+
+// Survives the reload after an erase so the login page can confirm it
+const ERASE_SUMMARY_KEY = 'erased_device_data';
+
+// Everything gBroadcast keeps on this device, counted without decrypting it
+export const summarizeDeviceData = async (): Promise<DeviceDataSummary> => {
+  let contacts = 0;
+  let groups = 0;
+  for (const name of await listContactsDatabases()) {
+    try {
+      const counts = await getAccountContactsDb(name).count();
+      contacts += counts.contacts;
+      groups += counts.groups;
+    } catch (error) {
+      console.error(`Error counting contacts in ${name}:`, error);
+    }
+  }
+
+  return {
+    accounts: accountStore.list().length,
+    contacts,
+    groups,
+    storedItems: localStorage.length
+  };
+};
+
+// Delete all app data on this device: every account's contacts database and
+// everything in localStorage, the vault passphrase setup included. Tokens
+// should be revoked before, while they can still be read.
+export const eraseDeviceData = async (): Promise<DeviceDataSummary> => {
+  const summary = await summarizeDeviceData();
+
+  for (const name of await listContactsDatabases()) {
+    await deleteContactsDatabase(name);
+  }
+
+  secureStorage.clearAll();
+  vault.activate(null);
+  vault.saveConfig();
+  sessionStorage.clear();
+
+  const erased = { ...summary, erasedAt: Date.now() };
+  sessionStorage.setItem(ERASE_SUMMARY_KEY, JSON.stringify(erased));
+  console.log('Erased all app data from this device', erased);
+  return erased;
+};
+
+// The summary of an erase that just happened, once
+export const takeEraseSummary = (): DeviceDataSummary | null => {
+  const stored = sessionStorage.getItem(ERASE_SUMMARY_KEY);
+  sessionStorage.removeItem(ERASE_SUMMARY_KEY);
+  try {
+    return stored ? JSON.parse(stored) as DeviceDataSummary : null;
+  } catch {
+    return null;
+  }
+};
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) => {
+  return `${count.toLocaleString()} ${count === 1 ? singular : pluralForm}`;
+};
+
+// One line per kind of data, for the confirmation before and after erasing
+export const describeDeviceData = (summary: DeviceDataSummary): string[] => [
+  `Sign-in for ${plural(summary.accounts, 'Google account')}`,
+  `${plural(summary.contacts, 'cached contact')} and ${plural(summary.groups, 'contact group')}`,
+  `${plural(summary.storedItems, 'stored item')}: preferences, saved segments, templates, send queues, broadcast history and sync state`
+];
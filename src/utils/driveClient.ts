@@ -0,0 +1,119 @@
+import { rateLimiter } from './rateLimiter';
+
+export const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
+export const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3';
+
+const FILE_FIELDS = 'id,name,modifiedTime';
+
+export interface DriveAppDataFile {
+  id: string;
+  name: string;
+  modifiedTime?: string;
+}
+
+export interface DriveClientOptions {
+  getAccessToken: () => Promise<string | null>;
+  // Overridable so the client can run against a local fake of the files endpoints
+  baseUrl?: string;
+  uploadUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface DriveAppDataClient {
+  listFiles: () => Promise<DriveAppDataFile[]>;
+  readFile: <T>(fileId: string) => Promise<T | null>;
+  createFile: (name: string, content: unknown) => Promise<DriveAppDataFile>;
+  updateFile: (fileId: string, content: unknown) => Promise<DriveAppDataFile>;
+}
+
+// Minimal Drive v3 client for JSON files in the hidden appDataFolder
+export const createDriveAppDataClient = (options: DriveClientOptions): DriveAppDataClient => {
+  const baseUrl = options.baseUrl || DRIVE_API_URL;
+  const uploadUrl = options.uploadUrl || DRIVE_UPLOAD_URL;
+  const fetchImpl = options.fetch || ((input: RequestInfo | URL, init?: RequestInit) => window.fetch(input, init));
+
+  const request = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const token = await options.getAccessToken();
+    if (!token) {
+      throw new Error('Not authenticated');
+    }
+
+    await rateLimiter.acquire('drive');
+    const response = await fetchImpl(url, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...init.headers
+      }
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Drive request failed with status ${response.status}`;
+      try {
+        const errorData = await response.json();
+        if (errorData.error?.message) {
+          errorMessage = errorData.error.message;
+        }
+      } catch {
+        // Ignore parse errors
+      }
+      throw new Error(errorMessage);
+    }
+
+    return response;
+  };
+
+  const listFiles = async (): Promise<DriveAppDataFile[]> => {
+    const files: DriveAppDataFile[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        spaces: 'appDataFolder',
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        pageSize: '100'
+      });
+      if (pageToken) {
+        params.set('pageToken', pageToken);
+      }
+
+      const response = await request(`${baseUrl}/files?${params.toString()}`);
+      const data = await response.json();
+      files.push(...(data.files || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  };
+
+  const readFile = async <T>(fileId: string): Promise<T | null> => {
+    const response = await request(`${baseUrl}/files/${encodeURIComponent(fileId)}?alt=media`);
+    try {
+      return await response.json() as T;
+    } catch {
+      console.warn(`Drive file ${fileId} does not contain valid JSON`);
+      return null;
+    }
+  };
+
+  const updateFile = async (fileId: string, content: unknown): Promise<DriveAppDataFile> => {
+    const response = await request(
+      `${uploadUrl}/files/${encodeURIComponent(fileId)}?uploadType=media&fields=${FILE_FIELDS}`,
+      { method: 'PATCH', body: JSON.stringify(content) }
+    );
+    return response.json();
+  };
+
+  // Create the metadata first, then upload the content
+  const createFile = async (name: string, content: unknown): Promise<DriveAppDataFile> => {
+    const response = await request(`${baseUrl}/files?fields=${FILE_FIELDS}`, {
+      method: 'POST',
+      body: JSON.stringify({ name, parents: ['appDataFolder'], mimeType: 'application/json' })
+    });
+    const file: DriveAppDataFile = await response.json();
+    return updateFile(file.id, content);
+  };
+
+  return { listFiles, readFile, createFile, updateFile };
+};
@@ -0,0 +1,250 @@
+import { secureStorage } from './secureStorage';
+import { DriveAppDataClient, DriveAppDataFile } from './driveClient';
+import {
+  SyncConflict,
+  SyncDocumentName,
+  SyncDocumentState,
+  SyncEnvelope,
+  SyncResult,
+  SyncState
+} from '../types/sync';
+
+const SCHEMA_VERSION = 1;
+const STORAGE_KEY_SYNC_STATE = 'drive_sync_state';
+const STORAGE_KEY_SYNC_CONFLICTS = 'drive_sync_conflicts';
+const MAX_CONFLICTS = 20;
+
+// Fired on window when a local document changes or a remote copy is applied
+export const SYNC_LOCAL_CHANGE_EVENT = 'gbroadcast:sync-local-change';
+export const SYNC_APPLIED_EVENT = 'gbroadcast:sync-applied';
+
+// Local storage keys making up each synced document
+const SYNC_DOCUMENTS: Record<SyncDocumentName, string[]> = {
+  preferences: ['user_pref_theme', 'user_pref_view_mode'],
+  filters: ['user_pref_filters', 'user_pref_segments'],
+  templates: ['message_templates'],
+  history: ['broadcast_history']
+};
+
+const getFileName = (document: SyncDocumentName): string => `gbroadcast-${document}.json`;
+
+const createDeviceId = (): string => {
+  return `dev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const getSyncState = (): SyncState => {
+  const stored = secureStorage.getItem(STORAGE_KEY_SYNC_STATE) as SyncState | null;
+  if (stored && stored.deviceId) {
+    return { ...stored, documents: stored.documents || {} };
+  }
+
+  const state: SyncState = { deviceId: createDeviceId(), lastSyncedAt: null, documents: {} };
+  secureStorage.setItem(STORAGE_KEY_SYNC_STATE, state);
+  return state;
+};
+
+const updateDocumentState = (document: SyncDocumentName, changes: Partial<SyncDocumentState>) => {
+  const state = getSyncState();
+  state.documents[document] = { ...state.documents[document], ...changes };
+  secureStorage.setItem(STORAGE_KEY_SYNC_STATE, state);
+};
+
+// Record that a document changed locally so the next sync uploads it
+export const markLocalChange = (document: SyncDocumentName): void => {
+  updateDocumentState(document, { localUpdatedAt: Date.now(), dirty: true });
+  window.dispatchEvent(new CustomEvent(SYNC_LOCAL_CHANGE_EVENT, { detail: { document } }));
+};
+
+const readLocalDocument = (document: SyncDocumentName): Record<string, unknown> => {
+  const data: Record<string, unknown> = {};
+  SYNC_DOCUMENTS[document].forEach(key => {
+    const value = secureStorage.getItem(key);
+    if (value !== null && value !== undefined) {
+      data[key] = value;
+    }
+  });
+  return data;
+};
+
+const writeLocalDocument = (document: SyncDocumentName, data: Record<string, unknown>) => {
+  SYNC_DOCUMENTS[document].forEach(key => {
+    if (data[key] === undefined || data[key] === null) {
+      secureStorage.removeItem(key);
+    } else {
+      secureStorage.setItem(key, data[key]);
+    }
+  });
+  window.dispatchEvent(new CustomEvent(SYNC_APPLIED_EVENT, { detail: { document } }));
+};
+
+// Read the synced documents and the sync state again after another tab
+// changed them. With `applied` the hooks showing the documents reload too.
+export const reloadSyncedData = async (applied = false): Promise<void> => {
+  const documents = Object.keys(SYNC_DOCUMENTS) as SyncDocumentName[];
+  await secureStorage.reloadItems([
+    STORAGE_KEY_SYNC_STATE,
+    STORAGE_KEY_SYNC_CONFLICTS,
+    ...documents.flatMap(document => SYNC_DOCUMENTS[document])
+  ]);
+
+  if (applied) {
+    documents.forEach(document => {
+      window.dispatchEvent(new CustomEvent(SYNC_APPLIED_EVENT, { detail: { document } }));
+    });
+  }
+};
+
+export const getSyncConflicts = (): SyncConflict[] => {
+  return (secureStorage.getItem(STORAGE_KEY_SYNC_CONFLICTS) as SyncConflict[] | null) || [];
+};
+
+const recordConflict = (conflict: SyncConflict) => {
+  const conflicts = getSyncConflicts().filter(item => item.document !== conflict.document || item.kept !== conflict.kept);
+  secureStorage.setItem(STORAGE_KEY_SYNC_CONFLICTS, [conflict, ...conflicts].slice(0, MAX_CONFLICTS));
+};
+
+export const dismissSyncConflict = (id: string): void => {
+  secureStorage.setItem(STORAGE_KEY_SYNC_CONFLICTS, getSyncConflicts().filter(conflict => conflict.id !== id));
+};
+
+// Bring back the copy a conflict discarded; it is uploaded by the next sync
+export const restoreSyncConflict = (id: string): void => {
+  const conflict = getSyncConflicts().find(item => item.id === id);
+  if (!conflict) return;
+
+  writeLocalDocument(conflict.document, conflict.discarded);
+  dismissSyncConflict(id);
+  markLocalChange(conflict.document);
+};
+
+const isEnvelope = (value: unknown): value is SyncEnvelope => {
+  const envelope = value as SyncEnvelope | null;
+  return Boolean(envelope && typeof envelope.updatedAt === 'number' && envelope.data && typeof envelope.data === 'object');
+};
+
+// Pick the newest file when two devices created the same document at once
+const findRemoteFile = (files: DriveAppDataFile[], document: SyncDocumentName): DriveAppDataFile | undefined => {
+  return files
+    .filter(file => file.name === getFileName(document))
+    .sort((a, b) => (b.modifiedTime || '').localeCompare(a.modifiedTime || ''))[0];
+};
+
+const syncDocument = async (
+  client: DriveAppDataClient,
+  files: DriveAppDataFile[],
+  document: SyncDocumentName,
+  deviceId: string
+): Promise<SyncConflict | null> => {
+  const state = getSyncState().documents[document] || {};
+  const localData = readLocalDocument(document);
+  const hasLocalData = Object.keys(localData).length > 0;
+
+  const remoteFile = files.find(file => file.id === state.fileId) || findRemoteFile(files, document);
+  const remoteContent = remoteFile ? await client.readFile<unknown>(remoteFile.id) : null;
+  const remote = isEnvelope(remoteContent) ? remoteContent : null;
+
+  // A browser that never synced treats its existing data as changed at time 0,
+  // so an existing remote copy wins but is still reported as a conflict
+  const localUpdatedAt = state.localUpdatedAt ?? 0;
+  const localChanged = hasLocalData && (state.syncedAt === undefined || Boolean(state.dirty));
+  const remoteChanged = remote !== null && remote.updatedAt !== state.syncedAt;
+
+  const upload = async () => {
+    const envelope: SyncEnvelope = {
+      schemaVersion: SCHEMA_VERSION,
+      document,
+      updatedAt: localUpdatedAt || Date.now(),
+      deviceId,
+      data: localData
+    };
+
+    const file = remoteFile
+      ? await client.updateFile(remoteFile.id, envelope)
+      : await client.createFile(getFileName(document), envelope);
+
+    // Stay dirty if the document was edited again while uploading
+    const latest = getSyncState().documents[document];
+    updateDocumentState(document, {
+      fileId: file.id,
+      syncedAt: envelope.updatedAt,
+      dirty: latest?.localUpdatedAt !== state.localUpdatedAt
+    });
+    console.log(`Uploaded ${document} to Drive`);
+  };
+
+  const applyRemote = (envelope: SyncEnvelope) => {
+    writeLocalDocument(document, envelope.data);
+    updateDocumentState(document, {
+      fileId: remoteFile?.id,
+      syncedAt: envelope.updatedAt,
+      localUpdatedAt: envelope.updatedAt,
+      dirty: false
+    });
+    console.log(`Applied ${document} from Drive (changed by ${envelope.deviceId})`);
+  };
+
+  if (!remote) {
+    if (hasLocalData) {
+      await upload();
+    }
+    return null;
+  }
+
+  if (localChanged && remoteChanged) {
+    // Last writer wins; the losing copy is kept with the conflict
+    const keepLocal = localUpdatedAt >= remote.updatedAt;
+    const conflict: SyncConflict = {
+      id: `sc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      document,
+      detectedAt: Date.now(),
+      kept: keepLocal ? 'local' : 'remote',
+      localUpdatedAt,
+      remoteUpdatedAt: remote.updatedAt,
+      remoteDeviceId: remote.deviceId,
+      discarded: keepLocal ? remote.data : localData
+    };
+
+    console.warn(`Sync conflict on ${document}, keeping the ${conflict.kept} copy`);
+    if (keepLocal) {
+      await upload();
+    } else {
+      applyRemote(remote);
+    }
+    recordConflict(conflict);
+    return conflict;
+  }
+
+  if (localChanged) {
+    await upload();
+  } else if (remoteChanged) {
+    applyRemote(remote);
+  }
+
+  return null;
+};
+
+// Reconcile every document with its copy in the Drive appDataFolder
+export const syncAll = async (client: DriveAppDataClient): Promise<SyncResult> => {
+  const { deviceId } = getSyncState();
+  const files = await client.listFiles();
+  const conflicts: SyncConflict[] = [];
+  const errors: string[] = [];
+
+  for (const document of Object.keys(SYNC_DOCUMENTS) as SyncDocumentName[]) {
+    try {
+      const conflict = await syncDocument(client, files, document, deviceId);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    } catch (error) {
+      console.error(`Error syncing ${document}:`, error);
+      errors.push(`${document}: ${error instanceof Error ? error.message : 'sync failed'}`);
+    }
+  }
+
+  const syncedAt = Date.now();
+  const state = getSyncState();
+  secureStorage.setItem(STORAGE_KEY_SYNC_STATE, { ...state, lastSyncedAt: syncedAt });
+
+  return { syncedAt, conflicts, errors };
+};
@@ -0,0 +1,99 @@
+// Storage envelope written by secureStorage and the contacts database:
+//   "enc:" + base64([version][key source][12-byte IV][AES-GCM ciphertext + tag])
+// The two header bytes are passed as additional data, so changing either of
+// them fails the integrity check just like changing the ciphertext does.
+export const ENVELOPE_PREFIX = 'enc:';
+export const ENVELOPE_VERSION = 1;
+export const INTEGRITY_ERROR = 'Stored data failed its integrity check';
+export const UNSUPPORTED_ENVELOPE_ERROR = 'Stored data uses an unsupported envelope version';
+
+const HEADER_LENGTH = 2;
+const IV_LENGTH = 12;
+
+// Which key an envelope was sealed with: the default key derived from this
+// browser, or the passphrase vault key
+export type EnvelopeKeySource = 'device' | 'vault';
+
+const KEY_SOURCE_BYTES: Record<EnvelopeKeySource, number> = {
+  device: 0,
+  vault: 1
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+};
+
+export const isEnvelope = (value: string): boolean => value.startsWith(ENVELOPE_PREFIX);
+
+const decodeEnvelope = (value: string): Uint8Array | null => {
+  if (!isEnvelope(value)) return null;
+  try {
+    const bytes = base64ToBytes(value.slice(ENVELOPE_PREFIX.length));
+    return bytes.length > HEADER_LENGTH + IV_LENGTH ? bytes : null;
+  } catch {
+    return null;
+  }
+};
+
+// Read the key source from the header without decrypting
+export const getEnvelopeKeySource = (value: string): EnvelopeKeySource | null => {
+  const bytes = decodeEnvelope(value);
+  if (!bytes) return null;
+
+  const source = (Object.keys(KEY_SOURCE_BYTES) as EnvelopeKeySource[])
+    .find(name => KEY_SOURCE_BYTES[name] === bytes[1]);
+  return source || null;
+};
+
+export const sealEnvelope = async (plaintext: string, key: CryptoKey, source: EnvelopeKeySource): Promise<string> => {
+  const header = new Uint8Array([ENVELOPE_VERSION, KEY_SOURCE_BYTES[source]]);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: header },
+    key,
+    new TextEncoder().encode(plaintext)
+  ));
+
+  const bytes = new Uint8Array(HEADER_LENGTH + IV_LENGTH + ciphertext.length);
+  bytes.set(header, 0);
+  bytes.set(iv, HEADER_LENGTH);
+  bytes.set(ciphertext, HEADER_LENGTH + IV_LENGTH);
+  return ENVELOPE_PREFIX + bytesToBase64(bytes);
+};
+
+// Decrypt and verify an envelope. Throws instead of returning partial or
+// unverified data.
+export const openEnvelope = async (value: string, key: CryptoKey): Promise<string> => {
+  const bytes = decodeEnvelope(value);
+  if (!bytes) {
+    throw new Error(INTEGRITY_ERROR);
+  }
+  if (bytes[0] !== ENVELOPE_VERSION) {
+    throw new Error(UNSUPPORTED_ENVELOPE_ERROR);
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: bytes.slice(HEADER_LENGTH, HEADER_LENGTH + IV_LENGTH),
+        additionalData: bytes.slice(0, HEADER_LENGTH)
+      },
+      key,
+      bytes.slice(HEADER_LENGTH + IV_LENGTH)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // WebCrypto reports a failed tag check as a bare OperationError
+    throw new Error(INTEGRITY_ERROR);
+  }
+};
@@ -0,0 +1,149 @@
+import { Contact } from '../types/contacts';
+
+// Matches {{field}} and {{field|fallback}}, with optional whitespace
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export type MergeData = Record<string, string>;
+
+export interface Placeholder {
+  raw: string;
+  field: string;
+  fallback?: string;
+}
+
+export interface MergeValidationIssue {
+  resourceName: string;
+  email: string;
+  name: string;
+  missingFields: string[];
+}
+
+type OrganizationDetails = { name: string; title: string; department: string } | null;
+
+// Same shape as getOrganizationDetails from useContactsStorage
+export type OrganizationLookup = (contact: Contact) => OrganizationDetails;
+
+// Fields every contact can provide, shown as suggestions in the composer
+export const STANDARD_MERGE_FIELDS = [
+  'firstName',
+  'lastName',
+  'displayName',
+  'email',
+  'organization.name',
+  'organization.title',
+  'organization.department'
+];
+
+// Flatten the contact fields usable in placeholders into a simple lookup
+export const buildMergeData = (
+  contact: Contact,
+  email: string,
+  getOrganizationDetails: OrganizationLookup
+): MergeData => {
+  const name = contact.names?.[0];
+  const displayName = name?.displayName || '';
+  const org = getOrganizationDetails(contact);
+
+  const data: MergeData = {
+    firstName: name?.givenName || displayName.split(' ')[0] || '',
+    lastName: name?.familyName || displayName.split(' ').slice(1).join(' '),
+    displayName,
+    email,
+    'organization.name': org?.name || '',
+    'organization.title': org?.title || '',
+    'organization.department': org?.department || ''
+  };
+
+  // Custom fields are reachable both as {{key}} and {{userDefined.key}}
+  (contact.userDefined || []).forEach(field => {
+    if (!field.key) return;
+    data[`userDefined.${field.key}`] = field.value || '';
+    if (!(field.key in data)) {
+      data[field.key] = field.value || '';
+    }
+  });
+
+  return data;
+};
+
+// List the placeholders used in a template, in order of appearance
+export const extractPlaceholders = (template: string): Placeholder[] => {
+  const placeholders: Placeholder[] = [];
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    placeholders.push({
+      raw: match[0],
+      field: match[1],
+      fallback: match[2] !== undefined ? match[2].trim() : undefined
+    });
+  }
+
+  return placeholders;
+};
+
+// Fields used without a fallback must be present for every recipient
+export const getRequiredFields = (...templates: string[]): string[] => {
+  const required = new Set<string>();
+
+  templates.forEach(template => {
+    extractPlaceholders(template).forEach(placeholder => {
+      if (placeholder.fallback === undefined) {
+        required.add(placeholder.field);
+      }
+    });
+  });
+
+  return Array.from(required);
+};
+
+// Escape merged values for use inside an HTML body
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Replace placeholders with recipient data, falling back to defaults when empty
+export const renderTemplate = (
+  template: string,
+  data: MergeData,
+  escape: (value: string) => string = value => value
+): string => {
+  return template.replace(PLACEHOLDER_PATTERN, (_raw, field: string, fallback?: string) => {
+    const value = data[field];
+    if (value && value.trim() !== '') {
+      return escape(value);
+    }
+    return fallback !== undefined ? escape(fallback.trim()) : '';
+  });
+};
+
+// Find recipients that lack a value for any required placeholder
+export const validateMergeData = (
+  recipients: { resourceName: string; email: string; name: string; mergeData?: MergeData }[],
+  ...templates: string[]
+): MergeValidationIssue[] => {
+  const required = getRequiredFields(...templates);
+  if (required.length === 0) return [];
+
+  const issues: MergeValidationIssue[] = [];
+
+  recipients.forEach(recipient => {
+    const data = recipient.mergeData || {};
+    const missingFields = required.filter(field => !data[field] || data[field].trim() === '');
+
+    if (missingFields.length > 0) {
+      issues.push({
+        resourceName: recipient.resourceName,
+        email: recipient.email,
+        name: recipient.name,
+        missingFields
+      });
+    }
+  });
+
+  return issues;
+};
@@ -0,0 +1,119 @@
+import { secureStorage } from './secureStorage';
+import { contactsDb, migrateContactsToIndexedDb } from './contactsDb';
+import { accountStore } from './accounts';
+import { checkStoredOutbox } from './outboxStorage';
+import { checkStoredTemplates } from './templateStorage';
+import { User } from '../types/auth';
+import { MigrationFailure, MigrationResult, StorageMigration, StorageSchemaState } from '../types/migrations';
+
+const STORAGE_KEY_SCHEMA = 'storage_schema';
+
+// Fired on window after migrations ran, with the MigrationResult as detail
+export const MIGRATIONS_COMPLETED_EVENT = 'gbroadcast:migrations-completed';
+
+// Ordered list of every change to the shape or location of stored data.
+// Add new steps at the end with the next version number; never edit or
+// renumber one that has shipped.
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the contacts cache from localStorage to IndexedDB',
+    migrate: async () => {
+      await migrateContactsToIndexedDb();
+    }
+  },
+  {
+    version: 2,
+    description: 'Re-encrypt cached contacts and groups as AES-GCM envelopes',
+    migrate: async () => {
+      // Reading the records rewrites the ones still in the old format
+      await contactsDb.getAllContacts();
+      await contactsDb.getGroups();
+    }
+  },
+  {
+    version: 3,
+    description: 'Check that stored templates, broadcasts and preferences can be read',
+    migrate: () => {
+      checkStoredTemplates();
+      checkStoredOutbox();
+      secureStorage.preferences.check();
+    }
+  },
+  {
+    version: 4,
+    description: 'Keep the signed-in user\'s data under their own account',
+    migrate: async () => {
+      // Signed out users' data is taken over by the next account to sign in
+      const user = secureStorage.getItem('user') as User | null;
+      if (user?.id) {
+        accountStore.activate(user);
+      }
+    }
+  }
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getStorageSchema = (): StorageSchemaState => {
+  const stored = secureStorage.getItem(STORAGE_KEY_SCHEMA) as StorageSchemaState | null;
+  return stored || { version: 0, updatedAt: 0 };
+};
+
+export const dismissMigrationFailure = () => {
+  const state = getStorageSchema();
+  delete state.lastFailure;
+  secureStorage.setItem(STORAGE_KEY_SCHEMA, state);
+};
+
+const finish = (result: MigrationResult): MigrationResult => {
+  window.dispatchEvent(new CustomEvent<MigrationResult>(MIGRATIONS_COMPLETED_EVENT, { detail: result }));
+  return result;
+};
+
+// Bring stored data up to STORAGE_SCHEMA_VERSION. Stops at the first failing
+// step and records it, leaving the data for that step and later ones as it was
+// so the run can be retried.
+export const runStorageMigrations = async (): Promise<MigrationResult> => {
+  const state = getStorageSchema();
+
+  // Data written by a newer version of the app; don't guess at its shape
+  if (state.version > STORAGE_SCHEMA_VERSION) {
+    const failure: MigrationFailure = {
+      version: state.version,
+      description: 'Stored data was written by a newer version of gBroadcast',
+      error: `This version understands stored data up to version ${STORAGE_SCHEMA_VERSION}`,
+      failedAt: Date.now()
+    };
+    secureStorage.setItem(STORAGE_KEY_SCHEMA, { ...state, lastFailure: failure });
+    return finish({ version: state.version, applied: [], failure });
+  }
+
+  const applied: number[] = [];
+  let version = state.version;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+
+    try {
+      console.log(`Running storage migration ${migration.version}: ${migration.description}`);
+      await migration.migrate();
+    } catch (error) {
+      console.error(`Storage migration ${migration.version} failed:`, error);
+      const failure: MigrationFailure = {
+        version: migration.version,
+        description: migration.description,
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: Date.now()
+      };
+      secureStorage.setItem(STORAGE_KEY_SCHEMA, { version, updatedAt: Date.now(), lastFailure: failure });
+      return finish({ version, applied, failure });
+    }
+
+    version = migration.version;
+    applied.push(version);
+    secureStorage.setItem(STORAGE_KEY_SCHEMA, { version, updatedAt: Date.now() });
+  }
+
+  return finish({ version, applied });
+};
@@ -0,0 +1,283 @@
+// Minimal RFC 5322 / MIME message builder for the Gmail API `raw` field.
+// Headers are RFC 2047 encoded, bodies and attachments are base64 encoded.
+
+const CRLF = '\r\n';
+const MAX_LINE_LENGTH = 76;
+const MAX_HEADER_LENGTH = 78;
+
+export interface MimeAddress {
+  name?: string;
+  email: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  // Base64 encoded content (no data: URL prefix)
+  data: string;
+  // Set for inline images referenced from the HTML body as cid:<contentId>
+  contentId?: string;
+}
+
+export interface MimeMessage {
+  from: MimeAddress;
+  to: MimeAddress | MimeAddress[];
+  cc?: MimeAddress[];
+  replyTo?: MimeAddress;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+  headers?: Record<string, string>;
+}
+
+// Encode a UTF-8 string as standard base64
+export const utf8ToBase64 = (value: string): string => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Base64url without padding, as expected by the Gmail API
+export const toBase64Url = (value: string): string => {
+  return utf8ToBase64(value)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+// Split base64 content into lines of at most 76 characters
+const wrapBase64 = (base64: string): string => {
+  const lines: string[] = [];
+  for (let i = 0; i < base64.length; i += MAX_LINE_LENGTH) {
+    lines.push(base64.slice(i, i + MAX_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+};
+
+const isPrintableAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+// RFC 2047 "B" encoding, split so that no encoded word exceeds 75 characters
+// and no multi-byte character is cut in half
+export const encodeHeaderValue = (value: string): string => {
+  if (isPrintableAscii(value)) {
+    return value;
+  }
+
+  const maxBytesPerWord = 39; // 39 bytes -> 52 base64 chars + 12 chars of =?UTF-8?B??=
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+
+  for (const char of value) {
+    const charBytes = encoder.encode(char).length;
+    if (chunkBytes + charBytes > maxBytesPerWord) {
+      words.push(`=?UTF-8?B?${utf8ToBase64(chunk)}?=`);
+      chunk = '';
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+
+  if (chunk) {
+    words.push(`=?UTF-8?B?${utf8ToBase64(chunk)}?=`);
+  }
+
+  return words.join(CRLF + ' ');
+};
+
+// Format an address, quoting or encoding the display name as needed
+export const formatAddress = (address: MimeAddress): string => {
+  const name = address.name?.trim();
+  if (!name) {
+    return address.email;
+  }
+
+  if (!isPrintableAscii(name)) {
+    return `${encodeHeaderValue(name)} <${address.email}>`;
+  }
+
+  // Quote names containing RFC 5322 specials
+  const needsQuoting = /[()<>[\]:;@\\,."]/.test(name);
+  const displayName = needsQuoting ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+  return `${displayName} <${address.email}>`;
+};
+
+// Fold a header line on whitespace so it stays within 78 characters
+const foldHeader = (name: string, value: string): string => {
+  const line = `${name}: ${value}`;
+  if (line.length <= MAX_HEADER_LENGTH || value.includes(CRLF)) {
+    return line;
+  }
+
+  const parts = line.split(' ');
+  const folded: string[] = [];
+  let current = '';
+
+  parts.forEach(part => {
+    if (current && current.length + part.length + 1 > MAX_HEADER_LENGTH) {
+      folded.push(current);
+      current = ' ' + part;
+    } else {
+      current = current ? `${current} ${part}` : part;
+    }
+  });
+
+  if (current) {
+    folded.push(current);
+  }
+
+  return folded.join(CRLF);
+};
+
+// Encode a filename for Content-Disposition, per RFC 2231 when non-ASCII
+const encodeFilenameParams = (filename: string, param: 'filename' | 'name'): string => {
+  const safe = filename.replace(/["\\\r\n]/g, '_');
+  if (isPrintableAscii(safe)) {
+    return `${param}="${safe}"`;
+  }
+  return `${param}*=UTF-8''${encodeURIComponent(safe)}`;
+};
+
+const createBoundary = (): string => {
+  const random = new Uint8Array(12);
+  crypto.getRandomValues(random);
+  return '----=_gBroadcast_' + Array.from(random, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const textPart = (content: string, subtype: 'plain' | 'html'): MimePart => ({
+  headers: [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: base64'
+  ],
+  // Normalise line endings before encoding so clients render them consistently
+  body: wrapBase64(utf8ToBase64(content.replace(/\r?\n/g, CRLF)))
+});
+
+const attachmentPart = (attachment: MimeAttachment): MimePart => {
+  const headers = [
+    `Content-Type: ${attachment.contentType || 'application/octet-stream'}; ${encodeFilenameParams(attachment.filename, 'name')}`,
+    'Content-Transfer-Encoding: base64'
+  ];
+
+  if (attachment.contentId) {
+    headers.push(`Content-ID: <${attachment.contentId}>`);
+    headers.push(`Content-Disposition: inline; ${encodeFilenameParams(attachment.filename, 'filename')}`);
+  } else {
+    headers.push(`Content-Disposition: attachment; ${encodeFilenameParams(attachment.filename, 'filename')}`);
+  }
+
+  return {
+    headers,
+    body: wrapBase64(attachment.data.replace(/\s+/g, ''))
+  };
+};
+
+const multipart = (subtype: 'mixed' | 'alternative' | 'related', parts: MimePart[]): MimePart => {
+  const boundary = createBoundary();
+  const body = parts
+    .map(part => `--${boundary}${CRLF}${part.headers.join(CRLF)}${CRLF}${CRLF}${part.body}`)
+    .join(CRLF);
+
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}${CRLF}--${boundary}--`
+  };
+};
+
+// Build the body structure: mixed(related(alternative(text, html), inline...), attachments...)
+const buildBody = (message: MimeMessage): MimePart => {
+  const text = message.text ?? '';
+  const attachments = message.attachments || [];
+  // Inline images only make sense next to an HTML body that references them
+  const inlineImages = message.html ? attachments.filter(a => a.contentId) : [];
+  const regularAttachments = attachments.filter(a => !inlineImages.includes(a));
+
+  let content: MimePart;
+  if (message.html) {
+    content = multipart('alternative', [textPart(text, 'plain'), textPart(message.html, 'html')]);
+    if (inlineImages.length > 0) {
+      content = multipart('related', [content, ...inlineImages.map(attachmentPart)]);
+    }
+  } else {
+    content = textPart(text, 'plain');
+  }
+
+  if (regularAttachments.length > 0) {
+    content = multipart('mixed', [
+      content,
+      ...regularAttachments.map(a => attachmentPart({ ...a, contentId: undefined }))
+    ]);
+  }
+
+  return content;
+};
+
+// Build a complete RFC 5322 message
+export const buildMimeMessage = (message: MimeMessage): string => {
+  const to = Array.isArray(message.to) ? message.to : [message.to];
+  const headers = [
+    foldHeader('From', formatAddress(message.from)),
+    foldHeader('To', to.map(formatAddress).join(', '))
+  ];
+
+  if (message.cc && message.cc.length > 0) {
+    headers.push(foldHeader('Cc', message.cc.map(formatAddress).join(', ')));
+  }
+
+  if (message.replyTo) {
+    headers.push(foldHeader('Reply-To', formatAddress(message.replyTo)));
+  }
+
+  headers.push(foldHeader('Subject', encodeHeaderValue(message.subject)));
+  headers.push(`Date: ${new Date().toUTCString()}`);
+  headers.push('MIME-Version: 1.0');
+
+  Object.entries(message.headers || {}).forEach(([name, value]) => {
+    headers.push(foldHeader(name, encodeHeaderValue(value)));
+  });
+
+  const body = buildBody(message);
+  return [...headers, ...body.headers].join(CRLF) + CRLF + CRLF + body.body;
+};
+
+// Build a message and encode it for the Gmail API `raw` field
+export const encodeRawMessage = (message: MimeMessage): string => {
+  return toBase64Url(buildMimeMessage(message));
+};
+
+// Derive a plain text alternative from an HTML body
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '$&\n'),
+    'text/html'
+  );
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Read a File into an attachment with base64 content
+export const fileToAttachment = (file: File): Promise<MimeAttachment> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result || '');
+      resolve({
+        filename: file.name,
+        contentType: file.type || 'application/octet-stream',
+        data: result.slice(result.indexOf(',') + 1)
+      });
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
@@ -0,0 +1,114 @@
+import { GoogleScope } from '../types/auth';
+
+export const GOOGLE_SCOPES: Record<GoogleScope, string> = {
+  contacts: 'https://www.googleapis.com/auth/contacts.readonly',
+  gmailSend: 'https://www.googleapis.com/auth/gmail.send',
+  driveAppData: 'https://www.googleapis.com/auth/drive.appdata'
+};
+
+// Shown in the prompt that asks for a missing scope
+export const SCOPE_DESCRIPTIONS: Record<GoogleScope, { title: string; description: string }> = {
+  contacts: {
+    title: 'Read your contacts',
+    description: 'gBroadcast needs read-only access to your Google Contacts to list and filter them.'
+  },
+  gmailSend: {
+    title: 'Send email as you',
+    description: 'Broadcasts are sent from your Gmail account, one message per recipient. gBroadcast cannot read your mail.'
+  },
+  driveAppData: {
+    title: 'Sync settings through Drive',
+    description: 'Preferences, filters, templates and history are kept in a hidden app folder in your Google Drive. gBroadcast cannot see your other files.'
+  }
+};
+
+// Tokens stored before scopes were recorded came from a login that asked
+// for everything at once
+const LEGACY_GRANTED_SCOPES = Object.values(GOOGLE_SCOPES);
+
+export const toScopeString = (scopes: GoogleScope[]): string => {
+  return scopes.map(scope => GOOGLE_SCOPES[scope]).join(' ');
+};
+
+// Google lists the granted scopes space-separated in the token response
+export const parseGrantedScopes = (scope?: string): string[] | undefined => {
+  return scope ? scope.split(' ').filter(Boolean) : undefined;
+};
+
+export const getMissingScopes = (granted: string[] | undefined, needed: GoogleScope[]): GoogleScope[] => {
+  const grantedScopes = granted || LEGACY_GRANTED_SCOPES;
+  return needed.filter(scope => !grantedScopes.includes(GOOGLE_SCOPES[scope]));
+};
+
+// The parts of Google Identity Services' token client used here; the
+// library is loaded by @react-oauth/google, which doesn't export its types
+interface GoogleTokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  scope?: string;
+  error?: string;
+}
+
+interface GoogleTokenClient {
+  requestAccessToken: () => void;
+}
+
+interface GoogleOAuth2 {
+  initTokenClient: (config: {
+    client_id: string;
+    scope: string;
+    include_granted_scopes: boolean;
+    hint?: string;
+    callback: (response: GoogleTokenResponse) => void;
+    error_callback?: (error: { type: string; message?: string }) => void;
+  }) => GoogleTokenClient;
+}
+
+export const SCOPE_REQUEST_UNAVAILABLE_ERROR = 'Google sign-in has not finished loading. Please try again.';
+export const SCOPE_REQUEST_DENIED_ERROR = 'Access was not granted';
+export const POPUP_BLOCKED_ERROR = 'The browser blocked the Google sign-in popup';
+
+// GIS reports this when the browser blocks its popup
+export const POPUP_BLOCKED_ERROR_TYPE = 'popup_failed_to_open';
+
+// Ask for more scopes with Google's popup, keeping the ones already granted.
+// Must be called from a click handler or the popup is blocked, in which
+// case it fails with POPUP_BLOCKED_ERROR.
+export const requestScopesWithPopup = (
+  clientId: string,
+  scopes: GoogleScope[],
+  hint?: string
+): Promise<{ accessToken: string; expiresIn?: number; scopes?: string[] }> => {
+  const oauth2 = (window as unknown as { google?: { accounts?: { oauth2?: GoogleOAuth2 } } }).google?.accounts?.oauth2;
+  if (!oauth2) {
+    return Promise.reject(new Error(SCOPE_REQUEST_UNAVAILABLE_ERROR));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = oauth2.initTokenClient({
+      client_id: clientId,
+      scope: toScopeString(scopes),
+      include_granted_scopes: true,
+      hint,
+      callback: (response) => {
+        if (response.error || !response.access_token) {
+          reject(new Error(response.error === 'access_denied' ? SCOPE_REQUEST_DENIED_ERROR : response.error || SCOPE_REQUEST_DENIED_ERROR));
+          return;
+        }
+        resolve({
+          accessToken: response.access_token,
+          expiresIn: response.expires_in ? Number(response.expires_in) : undefined,
+          scopes: parseGrantedScopes(response.scope)
+        });
+      },
+      error_callback: (error) => {
+        if (error.type === POPUP_BLOCKED_ERROR_TYPE) {
+          reject(new Error(POPUP_BLOCKED_ERROR));
+        } else {
+          reject(new Error(error.type === 'popup_closed' ? SCOPE_REQUEST_DENIED_ERROR : error.message || error.type));
+        }
+      }
+    });
+    client.requestAccessToken();
+  });
+};
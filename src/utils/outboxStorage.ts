@@ -0,0 +1,131 @@
+import { secureStorage } from './secureStorage';
+import { BroadcastDraft, BroadcastHistoryEntry, BroadcastRecipient, Outbox } from '../types/broadcast';
+import { summarizeRecipients } from './broadcastUtils';
+import { markLocalChange } from './driveSync';
+
+// The draft (with attachments) is stored apart from the jobs so that
+// per-recipient updates don't re-encrypt the attachments every time
+const STORAGE_KEY_OUTBOX = 'broadcast_outbox';
+const STORAGE_KEY_OUTBOX_DRAFT = 'broadcast_outbox_draft';
+const STORAGE_KEY_HISTORY = 'broadcast_history';
+const MAX_HISTORY_ENTRIES = 100;
+
+// localStorage holds about 5MB per origin, shared with everything else the
+// app stores, so a broadcast with a larger draft couldn't be resumed
+export const MAX_STORED_DRAFT_SIZE = 3 * 1024 * 1024;
+
+export const INTERRUPTED_SEND_ERROR = 'Interrupted while sending - check your Sent folder before retrying';
+
+type StoredOutbox = Omit<Outbox, 'draft'>;
+
+export const createOutboxId = (): string => {
+  return `bc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// Load the persisted outbox. When restoring after a reload (or after the tab
+// that was sending closed), jobs left in flight are normalized; other tabs
+// following the sending tab's progress read it as it is.
+export const loadOutbox = (restoring = true): Outbox | null => {
+  try {
+    const stored = secureStorage.getItem(STORAGE_KEY_OUTBOX) as StoredOutbox | null;
+    const draft = secureStorage.getItem(STORAGE_KEY_OUTBOX_DRAFT) as BroadcastDraft | null;
+
+    if (!stored || !draft || !Array.isArray(stored.recipients)) {
+      return null;
+    }
+
+    if (!restoring) {
+      return { ...stored, draft };
+    }
+
+    // We can't know whether a message that was being sent reached Gmail,
+    // so surface it as failed instead of silently sending it twice
+    const recipients: BroadcastRecipient[] = stored.recipients.map(recipient => (
+      recipient.status === 'sending'
+        ? { ...recipient, status: 'failed', error: INTERRUPTED_SEND_ERROR }
+        : recipient
+    ));
+
+    return {
+      ...stored,
+      draft,
+      recipients,
+      // Never resume sending without the user asking for it
+      state: stored.state === 'running' ? 'paused' : stored.state
+    };
+  } catch (error) {
+    console.error('Error loading broadcast outbox:', error);
+    return null;
+  }
+};
+
+// Read the outbox again after another tab changed it
+export const reloadOutbox = async (restoring = false): Promise<Outbox | null> => {
+  await secureStorage.reloadItems([STORAGE_KEY_OUTBOX, STORAGE_KEY_OUTBOX_DRAFT, STORAGE_KEY_HISTORY]);
+  return loadOutbox(restoring);
+};
+
+// Whether the draft fits in storage once encrypted, which base64 encodes the
+// JSON (and the base64 attachments in it) once more
+export const canStoreDraft = (draft: BroadcastDraft): boolean => {
+  return Math.ceil(JSON.stringify(draft).length * 4 / 3) <= MAX_STORED_DRAFT_SIZE;
+};
+
+export const saveOutbox = (outbox: Outbox, includeDraft = false): void => {
+  const { draft, ...jobs } = outbox;
+  if (includeDraft) {
+    secureStorage.setItem(STORAGE_KEY_OUTBOX_DRAFT, draft);
+  }
+  secureStorage.setItem(STORAGE_KEY_OUTBOX, { ...jobs, updatedAt: Date.now() });
+};
+
+export const clearOutbox = (): void => {
+  secureStorage.removeItem(STORAGE_KEY_OUTBOX);
+  secureStorage.removeItem(STORAGE_KEY_OUTBOX_DRAFT);
+};
+
+// Check whether the outbox still has work to do or failures to review
+export const isOutboxUnfinished = (outbox: Outbox | null): boolean => {
+  if (!outbox || outbox.state === 'completed' || outbox.state === 'cancelled') {
+    return false;
+  }
+  return outbox.recipients.some(r => r.status === 'queued' || r.status === 'sending' || r.status === 'failed');
+};
+
+// Throw when the stored outbox or history isn't in the shape this version
+// reads, so the storage migration reports it instead of it being dropped
+export const checkStoredOutbox = (): void => {
+  const stored = secureStorage.getItem(STORAGE_KEY_OUTBOX) as StoredOutbox | null;
+  const draft = secureStorage.getItem(STORAGE_KEY_OUTBOX_DRAFT) as BroadcastDraft | null;
+  if (stored && (!Array.isArray(stored.recipients) || typeof stored.state !== 'string' || typeof draft?.subject !== 'string')) {
+    throw new Error('The stored broadcast outbox is not in a format this version can read');
+  }
+
+  const history = secureStorage.getItem(STORAGE_KEY_HISTORY) as BroadcastHistoryEntry[] | null;
+  if (history && (!Array.isArray(history) || history.some(entry => !entry?.id || !entry.summary))) {
+    throw new Error('The stored broadcast history is not in a format this version can read');
+  }
+};
+
+export const getBroadcastHistory = (): BroadcastHistoryEntry[] => {
+  return (secureStorage.getItem(STORAGE_KEY_HISTORY) as BroadcastHistoryEntry[] | null) || [];
+};
+
+// Keep a short summary of each finished broadcast
+export const archiveOutbox = (outbox: Outbox): void => {
+  try {
+    const entry: BroadcastHistoryEntry = {
+      id: outbox.id,
+      subject: outbox.draft.subject,
+      fromEmail: outbox.draft.fromEmail,
+      state: outbox.state,
+      summary: summarizeRecipients(outbox.recipients, outbox.createdAt)
+    };
+
+    const history = getBroadcastHistory().filter(item => item.id !== outbox.id);
+    secureStorage.setItem(STORAGE_KEY_HISTORY, [entry, ...history].slice(0, MAX_HISTORY_ENTRIES));
+    markLocalChange('history');
+  } catch (error) {
+    console.error('Error archiving broadcast:', error);
+  }
+};
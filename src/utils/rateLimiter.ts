@@ -0,0 +1,181 @@
+import { secureStorage } from './secureStorage';
+
+// Request buckets, each throttled independently
+export type RateLimitBucket = 'gmail.send' | 'gmail' | 'people' | 'drive' | 'default';
+
+// Minimum spacing between requests of a bucket when no errors occur.
+// Gmail allows 250 quota units per user per second and a send costs 100;
+// People API allows 90 contact reads per user per minute.
+const BASE_INTERVALS: Record<RateLimitBucket, number> = {
+  'gmail.send': 500,
+  gmail: 100,
+  people: 700,
+  drive: 100,
+  default: 0
+};
+
+const MAX_INTERVAL_MULTIPLIER = 16;
+const MAX_BACKOFF_DELAY = 60 * 1000;
+const BASE_BACKOFF_DELAY = 1000;
+export const MAX_RETRIES = 5;
+
+// Rolling 24 hour send log, used to warn before the Gmail daily cap
+const STORAGE_KEY_SEND_LOG = 'gmail_send_log';
+const STORAGE_KEY_DAILY_LIMIT = 'gmail_daily_send_limit';
+const SEND_LOG_WINDOW = 24 * 60 * 60 * 1000;
+
+// Consumer Gmail accounts can send 500 messages a day, Google Workspace accounts 2000
+export const DAILY_SEND_LIMITS = {
+  gmail: 500,
+  workspace: 2000
+};
+
+interface BucketState {
+  nextAvailableAt: number;
+  multiplier: number;
+}
+
+const bucketStates: Partial<Record<RateLimitBucket, BucketState>> = {};
+
+const getBucketState = (bucket: RateLimitBucket): BucketState => {
+  if (!bucketStates[bucket]) {
+    bucketStates[bucket] = { nextAvailableAt: 0, multiplier: 1 };
+  }
+  return bucketStates[bucket]!;
+};
+
+// Wait for the given time, stopping early if the request is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Map a Google API request to its rate limit bucket
+export const getRateLimitBucket = (url: string, method = 'GET'): RateLimitBucket => {
+  if (url.includes('gmail.googleapis.com') || url.includes('/gmail/')) {
+    return method.toUpperCase() === 'POST' && url.includes('/messages/send') ? 'gmail.send' : 'gmail';
+  }
+  if (url.includes('people.googleapis.com')) return 'people';
+  if (url.includes('/drive/')) return 'drive';
+  return 'default';
+};
+
+export const isRetryableStatus = (status: number): boolean => {
+  return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
+};
+
+// Parse a Retry-After header given either in seconds or as an HTTP date
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+};
+
+// Exponential backoff with full jitter, or the server provided Retry-After
+export const getRetryDelay = (attempt: number, retryAfter: string | null): number => {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) {
+    return Math.min(serverDelay, MAX_BACKOFF_DELAY);
+  }
+
+  const ceiling = Math.min(MAX_BACKOFF_DELAY, BASE_BACKOFF_DELAY * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+export const rateLimiter = {
+  // Resolve when the next request of this bucket may be sent
+  acquire: async (bucket: RateLimitBucket, signal?: AbortSignal): Promise<void> => {
+    const state = getBucketState(bucket);
+    const interval = BASE_INTERVALS[bucket] * state.multiplier;
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextAvailableAt);
+
+    // Reserve the slot before waiting so concurrent callers queue up behind it
+    state.nextAvailableAt = startAt + interval;
+
+    if (startAt > now) {
+      await sleep(startAt - now, signal);
+    }
+  },
+
+  // Slow the bucket down after a throttling or server error
+  penalize: (bucket: RateLimitBucket, delay: number, throttled: boolean) => {
+    const state = getBucketState(bucket);
+    if (throttled) {
+      state.multiplier = Math.min(MAX_INTERVAL_MULTIPLIER, state.multiplier * 2);
+    }
+    state.nextAvailableAt = Math.max(state.nextAvailableAt, Date.now() + delay);
+    console.warn(`Rate limiting ${bucket}: waiting ${Math.round(delay / 1000)}s, interval x${state.multiplier}`);
+  },
+
+  // When the next request of this bucket may be sent
+  getNextAvailableAt: (bucket: RateLimitBucket): number => {
+    return Math.max(Date.now(), getBucketState(bucket).nextAvailableAt);
+  },
+
+  // Gradually return to the base rate after successful requests
+  reward: (bucket: RateLimitBucket) => {
+    const state = getBucketState(bucket);
+    if (state.multiplier > 1) {
+      state.multiplier = Math.max(1, state.multiplier * 0.9);
+    }
+  }
+};
+
+export const sendQuota = {
+  getSendLog: (): number[] => {
+    const log = (secureStorage.getItem(STORAGE_KEY_SEND_LOG) as number[] | null) || [];
+    const cutoff = Date.now() - SEND_LOG_WINDOW;
+    return log.filter(timestamp => timestamp > cutoff);
+  },
+
+  recordSend: () => {
+    const log = sendQuota.getSendLog();
+    log.push(Date.now());
+    secureStorage.setItem(STORAGE_KEY_SEND_LOG, log);
+  },
+
+  getSentInLast24h: (): number => sendQuota.getSendLog().length,
+
+  getDailyLimit: (): number => {
+    return (secureStorage.getItem(STORAGE_KEY_DAILY_LIMIT) as number | null) || DAILY_SEND_LIMITS.gmail;
+  },
+
+  setDailyLimit: (limit: number) => {
+    secureStorage.setItem(STORAGE_KEY_DAILY_LIMIT, limit);
+  },
+
+  getRemaining: (): number => Math.max(0, sendQuota.getDailyLimit() - sendQuota.getSentInLast24h()),
+
+  // When the oldest send in the window expires, freeing up quota again
+  getNextSlotAt: (): number | null => {
+    const log = sendQuota.getSendLog();
+    return log.length > 0 ? Math.min(...log) + SEND_LOG_WINDOW : null;
+  }
+};
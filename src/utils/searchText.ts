@@ -0,0 +1,13 @@
+// Letters that don't decompose into a base letter and a combining mark
+const FOLDED_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+// Lowercase and drop diacritics, so "Müller" and "muller" compare equal
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[ßæœøłđðþı]/g, letter => FOLDED_LETTERS[letter]);
+};
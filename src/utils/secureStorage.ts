@@ -1,4 +1,7 @@
 import CryptoJS from 'crypto-js';
+import { vault, VAULT_LOCKED_EVENT } from './vault';
+import { isEnvelope, sealEnvelope, openEnvelope, getEnvelopeKeySource } from './envelope';
+import { SavedSegment } from '../types/segments';
 
 // Generate a static encryption key based on browser fingerprint
 // This isn't perfectly secure, but adds a layer of protection
@@ -17,95 +20,119 @@ const getEncryptionKey = (): string => {
 // Hard-coded fallback key in case the fingerprinting fails
 const FALLBACK_KEY = 'gBroadcast-20250608-default-secure-key';
 
-// Encrypt data before storing
-export const encryptData = (data: any): string => {
-  if (!data) return '';
+let deviceKeyPromise: Promise<CryptoKey> | null = null;
+
+// AES-GCM key for when no vault passphrase is set, made from the same
+// fingerprint the CryptoJS values were encrypted with
+const getDeviceKey = (): Promise<CryptoKey> => {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = (async () => {
+      let keyMaterial = getEncryptionKey();
+      if (!keyMaterial) {
+        console.warn('Using fallback encryption key');
+        keyMaterial = FALLBACK_KEY;
+      }
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(keyMaterial));
+      return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+    })();
+    deviceKeyPromise.catch(() => {
+      deviceKeyPromise = null;
+    });
+  }
+  return deviceKeyPromise;
+};
+
+// Encrypt data before storing. There is no plaintext fallback: if this
+// fails (or the vault is locked) it throws and nothing should be written.
+export const encryptData = async (data: any): Promise<string> => {
+  if (data === undefined || data === null || data === '') return '';
   
+  const jsonString = JSON.stringify(data);
+  if (vault.isEnabled()) {
+    return sealEnvelope(jsonString, vault.getKey(), 'vault');
+  }
+  return sealEnvelope(jsonString, await getDeviceKey(), 'device');
+};
+
+// Values written before AES-GCM envelopes: CryptoJS passphrase-mode output
+// ("Salted__" in base64) and the old unencrypted fallback
+const isLegacyValue = (value: string): boolean => {
+  return value.startsWith('U2FsdGVkX1') || value.startsWith('{"_unencrypted":true');
+};
+
+// Decrypt a pre-envelope value. Only used to migrate data, never to write it.
+const decryptLegacyData = (encryptedData: string): unknown => {
   try {
-    const jsonString = JSON.stringify(data);
-    
-    // Try to use the browser fingerprint key
-    let key = getEncryptionKey();
-    
-    // If key generation fails, use fallback
-    if (!key) {
-      console.warn('Using fallback encryption key');
-      key = FALLBACK_KEY;
+    if (encryptedData.startsWith('{"_unencrypted":true')) {
+      return JSON.parse(encryptedData).data;
     }
     
-    const encrypted = CryptoJS.AES.encrypt(jsonString, key).toString();
-    return encrypted;
+    // Try the browser fingerprint key first, then the fallback key
+    for (const key of [getEncryptionKey(), FALLBACK_KEY]) {
+      try {
+        const jsonString = CryptoJS.AES.decrypt(encryptedData, key).toString(CryptoJS.enc.Utf8);
+        if (jsonString) {
+          return JSON.parse(jsonString);
+        }
+      } catch {
+        // Wrong key, try the next one
+      }
+    }
   } catch (error) {
-    console.error('Error encrypting data:', error);
-    // Last resort - store as JSON string
-    return JSON.stringify({
-      _unencrypted: true,
-      data
-    });
+    console.error('Error decrypting legacy data:', error);
   }
+  return null;
 };
 
-// Decrypt data after retrieving
-export const decryptData = (encryptedData: string): any => {
+// Decrypt data after retrieving. Returns null when the value can't be
+// decrypted or fails its integrity check.
+export const decryptData = async (encryptedData: string): Promise<any> => {
   if (!encryptedData) return null;
   
+  if (!isEnvelope(encryptedData)) {
+    return isLegacyValue(encryptedData) ? decryptLegacyData(encryptedData) : null;
+  }
+  
   try {
-    // Check if this is an unencrypted fallback
-    if (encryptedData.startsWith('{"_unencrypted":true')) {
-      try {
-        const parsed = JSON.parse(encryptedData);
-        return parsed.data;
-      } catch (e) {
-        console.error('Error parsing unencrypted data:', e);
-        return null;
-      }
-    }
-    
-    // Try to use the browser fingerprint key
-    let key = getEncryptionKey();
-    
-    // If key generation fails, try fallback
-    if (!key) {
-      console.warn('Using fallback decryption key');
-      key = FALLBACK_KEY;
-    }
-    
-    const decrypted = CryptoJS.AES.decrypt(encryptedData, key);
-    
-    // Check if decrypted data is valid before converting to string
-    if (decrypted.sigBytes <= 0) {
-      console.error('Invalid decrypted data');
+    const source = getEnvelopeKeySource(encryptedData);
+    // With the vault on, anything sealed with the browser key was left over
+    // from before (or planted) and isn't trusted
+    if (vault.isEnabled() && source !== 'vault') {
+      console.error('Ignoring stored data that is not sealed with the vault key');
       return null;
     }
-    
-    const jsonString = decrypted.toString(CryptoJS.enc.Utf8);
-    
-    // Check if the result is valid before parsing
-    if (!jsonString || jsonString.length === 0) {
-      console.error('Decrypted data is empty or invalid');
-      return null;
-    }
-    
-    return JSON.parse(jsonString);
+    const key = source === 'vault' ? vault.getKey() : await getDeviceKey();
+    return JSON.parse(await openEnvelope(encryptedData, key));
   } catch (error) {
     console.error('Error decrypting data:', error);
-    
-    // Try with fallback key if primary key failed
-    try {
-      const decrypted = CryptoJS.AES.decrypt(encryptedData, FALLBACK_KEY);
-      const jsonString = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (jsonString && jsonString.length > 0) {
-        return JSON.parse(jsonString);
-      }
-    } catch (fallbackError) {
-      console.error('Fallback decryption also failed:', fallbackError);
-    }
-    
     return null;
   }
 };
 
+// Values written through secureStorage, in the current or an older format
+const isSecureValue = (value: string): boolean => isEnvelope(value) || isLegacyValue(value);
+
+// WebCrypto is asynchronous but secureStorage is read synchronously all over
+// the app, so decrypted values are kept in memory. loadSecureStorage fills the
+// cache before the app renders; writes update it at once and are encrypted
+// and written to localStorage in the background.
+const cache = new Map<string, unknown>();
+const writeVersions = new Map<string, number>();
+const pendingWrites = new Set<Promise<void>>();
+let listenersAttached = false;
+// Set once the device was erased, until the page reloads
+let writesStopped = false;
+
+// Each Google account keeps its data under its own prefix, except for keys
+// that belong to the browser rather than to an account
+const SHARED_KEYS = new Set(['storage_schema', 'accounts', 'session_lock']);
+const NAMESPACE_PREFIX = 'account:';
+let namespace: string | null = null;
+
+const toStorageKey = (key: string): string => {
+  return namespace && !SHARED_KEYS.has(key) ? `${NAMESPACE_PREFIX}${namespace}:${key}` : key;
+};
+
 // Handle storage limits by chunking large data if necessary
 const MAX_ITEM_SIZE = 2 * 1024 * 1024; // 2MB, slightly under localStorage limits
 
@@ -113,119 +140,227 @@ const MAX_ITEM_SIZE = 2 * 1024 * 1024; // 2MB, slightly under localStorage limit
 const PREFERENCE_KEYS = {
   THEME: 'user_pref_theme',
   FILTERS: 'user_pref_filters',
+  SEGMENTS: 'user_pref_segments',
   VIEW_MODE: 'user_pref_view_mode',
   LAST_SYNC: 'user_pref_last_sync'
 };
 
-// Direct storage functions without encryption as fallback
-const directStorage = {
-  setItem: (key: string, value: any) => {
-    try {
-      localStorage.setItem(key, JSON.stringify(value));
-    } catch (e) {
-      console.error(`Failed to store data for key ${key} directly:`, e);
+// Fired on window when a value could not be stored, with the key and
+// whether storage was full as detail
+export const STORAGE_WRITE_FAILED_EVENT = 'gbroadcast:storage-write-failed';
+
+export interface StorageWriteFailure {
+  key: string;
+  quotaExceeded: boolean;
+}
+
+// Encrypt a value and write it, unless a newer write or a removal for the
+// same key came in while it was being encrypted
+const persistItem = async (key: string, value: unknown, version: number) => {
+  try {
+    const encrypted = await encryptData(value);
+    if (writeVersions.get(key) !== version) return;
+    
+    // Check if data exceeds size limit
+    if (encrypted.length > MAX_ITEM_SIZE) {
+      console.warn(`Data for key ${key} is large (${Math.round(encrypted.length/1024)}KB). Consider optimizing.`);
     }
-  },
-  getItem: (key: string) => {
-    try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : null;
-    } catch (e) {
-      console.error(`Failed to get data for key ${key} directly:`, e);
+    
+    localStorage.setItem(key, encrypted);
+  } catch (error) {
+    // Never fall back to storing the value unencrypted; it stays in memory
+    // only. Nothing else is deleted to make room, the failure is reported.
+    console.error(`Error storing data for key ${key}, it was not saved:`, error);
+    
+    const quotaExceeded = error instanceof DOMException &&
+      (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+    window.dispatchEvent(new CustomEvent<StorageWriteFailure>(STORAGE_WRITE_FAILED_EVENT, {
+      detail: { key, quotaExceeded }
+    }));
+  }
+};
+
+const scheduleWrite = (key: string, value: unknown) => {
+  const version = (writeVersions.get(key) || 0) + 1;
+  writeVersions.set(key, version);
+  
+  const write = persistItem(key, value, version);
+  pendingWrites.add(write);
+  write.finally(() => pendingWrites.delete(write));
+};
+
+// Keep the cache in step with other tabs and with the vault lock
+const attachListeners = () => {
+  if (listenersAttached) return;
+  listenersAttached = true;
+  
+  window.addEventListener('storage', async (event) => {
+    if (event.storageArea !== localStorage) return;
+    if (event.key === null) {
+      cache.clear();
+      return;
+    }
+    if (!event.newValue) {
+      cache.delete(event.key);
+    } else if (isEnvelope(event.newValue)) {
+      const value = await decryptData(event.newValue);
+      if (value !== null) {
+        cache.set(event.key, value);
+      }
+    }
+  });
+  
+  window.addEventListener(VAULT_LOCKED_EVENT, () => cache.clear());
+};
+
+// Decrypt everything in localStorage that secureStorage wrote. Older formats
+// are re-encrypted as envelopes on the way. Call again after unlocking the vault.
+export const loadSecureStorage = async (): Promise<void> => {
+  attachListeners();
+  
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key) keys.push(key);
+  }
+  
+  let failed = 0;
+  for (const key of keys) {
+    const value = localStorage.getItem(key);
+    if (!value || !isSecureValue(value)) continue;
+    
+    if (!isEnvelope(value)) {
+      // Migrated on read
+      readItem(key);
+      continue;
+    }
+    
+    const decrypted = await decryptData(value);
+    if (decrypted === null) {
+      failed++;
+    } else {
+      cache.set(key, decrypted);
+    }
+  }
+  
+  if (failed > 0) {
+    console.error(`${failed} stored items could not be decrypted or failed their integrity check`);
+  }
+};
+
+// Keys in localStorage holding values written through secureStorage
+const getSecureKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const value = key ? localStorage.getItem(key) : null;
+    if (key && value && isSecureValue(value)) keys.push(key);
+  }
+  return keys;
+};
+
+const writeItem = (storageKey: string, value: unknown) => {
+  if (writesStopped) return;
+  
+  // Writing now would need the key; there is nothing safe to fall back to
+  if (vault.isEnabled() && !vault.isUnlocked()) {
+    console.error(`Vault is locked, not storing data for key ${storageKey}`);
+    return;
+  }
+  
+  cache.set(storageKey, value);
+  scheduleWrite(storageKey, value);
+};
+
+const readItem = (storageKey: string) => {
+  if (cache.has(storageKey)) {
+    return cache.get(storageKey);
+  }
+  
+  try {
+    const stored = localStorage.getItem(storageKey);
+    
+    // Envelopes are decrypted by loadSecureStorage. One that isn't cached
+    // couldn't be read with the current key or failed its integrity check.
+    if (!stored || isEnvelope(stored)) return null;
+    
+    // Values in an older format (or plain JSON from the old unencrypted
+    // fallback) are decrypted once and written back as envelopes
+    const value = isLegacyValue(stored) ? decryptLegacyData(stored) : JSON.parse(stored);
+    if (value === null || value === undefined) {
+      console.error(`Could not decrypt stored data for key ${storageKey}`);
       return null;
     }
-  },
-  removeItem: (key: string) => {
-    try {
-      localStorage.removeItem(key);
-    } catch (e) {
-      console.error(`Failed to remove data for key ${key} directly:`, e);
+    
+    if (!vault.isEnabled() || vault.isUnlocked()) {
+      cache.set(storageKey, value);
+      scheduleWrite(storageKey, value);
+      console.log(`Migrated stored data for key ${storageKey} to the current format`);
     }
+    return value;
+  } catch (e) {
+    console.error(`Error getting item from secure storage for key ${storageKey}:`, e);
+    return null;
+  }
+};
+
+const deleteItem = (storageKey: string) => {
+  cache.delete(storageKey);
+  writeVersions.set(storageKey, (writeVersions.get(storageKey) || 0) + 1);
+  try {
+    localStorage.removeItem(storageKey);
+  } catch (error) {
+    console.error(`Error removing item for key ${storageKey}:`, error);
   }
 };
 
 // Secure wrapper for localStorage
 export const secureStorage = {
-  setItem: (key: string, value: any) => {
-    try {
-      const encrypted = encryptData(value);
-      
-      // Check if data exceeds size limit
-      if (encrypted.length > MAX_ITEM_SIZE) {
-        console.warn(`Data for key ${key} is large (${Math.round(encrypted.length/1024)}KB). Consider optimizing.`);
-      }
-      
-      localStorage.setItem(key, encrypted);
-      
-      // Verify storage worked
-      const test = localStorage.getItem(key);
-      if (!test) {
-        throw new Error('Storage verification failed: item not found after storing');
-      }
-    } catch (error) {
-      console.error(`Error storing data for key ${key}:`, error);
-      
-      // If encryption fails, try storing directly with JSON as a fallback
-      try {
-        directStorage.setItem(key, value);
-        console.warn(`Fell back to direct storage for key ${key}`);
-      } catch (directError) {
-        console.error(`Direct storage also failed for key ${key}:`, directError);
-      }
-      
-      // If it's a quota error, try clearing other data
-      if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
-        console.warn('Storage quota exceeded. Trying to clear old data...');
-        
-        // Try to clear non-essential data
-        try {
-          secureStorage.clearContactsData();
-        } catch (e) {
-          console.error('Failed to recover storage space:', e);
-        }
-      }
-    }
+  setItem: (key: string, value: any) => writeItem(toStorageKey(key), value),
+  
+  getItem: (key: string) => readItem(toStorageKey(key)),
+  
+  removeItem: (key: string) => deleteItem(toStorageKey(key)),
+  
+  // Whether anything is stored under the key, even a value getItem can't read
+  hasItem: (key: string): boolean => localStorage.getItem(toStorageKey(key)) !== null,
+  
+  // Switch to the keys of another account, or to the shared ones with null
+  setNamespace: (accountId: string | null) => {
+    namespace = accountId;
   },
   
-  getItem: (key: string) => {
-    try {
-      const encrypted = localStorage.getItem(key);
-      if (!encrypted) return null;
-      
-      // Try to decrypt
-      const decrypted = decryptData(encrypted);
-      
-      // If decryption fails, try to parse as direct JSON as a fallback
-      if (decrypted === null && encrypted) {
-        try {
-          return directStorage.getItem(key);
-        } catch (directError) {
-          console.warn(`Corrupted data detected for key: ${key}. Removing it.`, directError);
-          localStorage.removeItem(key);
-          return null;
+  // Move items written outside any account (by versions without accounts,
+  // or while signed out) into an account's namespace
+  adoptUnscopedItems: (accountId: string) => {
+    const prefix = `${NAMESPACE_PREFIX}${accountId}:`;
+    getSecureKeys()
+      .filter(key => !key.startsWith(NAMESPACE_PREFIX) && !SHARED_KEYS.has(key))
+      .forEach(key => {
+        const value = readItem(key);
+        if (value !== null && value !== undefined) {
+          writeItem(`${prefix}${key}`, value);
         }
-      }
-      
-      return decrypted;
-    } catch (e) {
-      console.error(`Error getting item from secure storage for key ${key}:`, e);
-      
-      // Try direct storage as fallback
-      try {
-        return directStorage.getItem(key);
-      } catch (directError) {
-        console.error(`Direct storage retrieval also failed for key ${key}:`, directError);
-        localStorage.removeItem(key);
-        return null;
-      }
-    }
+        deleteItem(key);
+      });
   },
   
-  removeItem: (key: string) => {
-    try {
-      localStorage.removeItem(key);
-    } catch (error) {
-      console.error(`Error removing item for key ${key}:`, error);
+  // Wait for values written so far to reach localStorage
+  flush: async (): Promise<void> => {
+    await Promise.all(Array.from(pendingWrites));
+  },
+
+  // Read keys again from localStorage, e.g. when another tab says it changed them
+  reloadItems: async (keys: string[]): Promise<void> => {
+    for (const key of keys.map(toStorageKey)) {
+      const stored = localStorage.getItem(key);
+      const value = stored && isEnvelope(stored) ? await decryptData(stored) : null;
+
+      if (value !== null) {
+        cache.set(key, value);
+      } else {
+        cache.delete(key);
+      }
     }
   },
   
@@ -237,13 +372,7 @@ export const secureStorage = {
       'google_contacts_metadata'
     ];
     
-    contactKeys.forEach(key => {
-      try {
-        localStorage.removeItem(key);
-      } catch (e) {
-        console.error(`Failed to remove ${key}:`, e);
-      }
-    });
+    contactKeys.forEach(key => secureStorage.removeItem(key));
     console.info('Cleared all contacts data');
   },
   
@@ -251,104 +380,119 @@ export const secureStorage = {
   preferences: {
     // Save filter preferences
     saveFilters: (filters: any) => {
-      try {
-        secureStorage.setItem(PREFERENCE_KEYS.FILTERS, {
-          ...filters,
-          lastUpdated: new Date().toISOString()
-        });
-      } catch (e) {
-        console.error('Failed to save filters:', e);
-        // Try direct storage
-        directStorage.setItem(PREFERENCE_KEYS.FILTERS, {
-          ...filters,
-          lastUpdated: new Date().toISOString()
-        });
-      }
+      secureStorage.setItem(PREFERENCE_KEYS.FILTERS, {
+        ...filters,
+        lastUpdated: new Date().toISOString()
+      });
     },
     
     // Get saved filter preferences
     getFilters: () => {
-      try {
-        return secureStorage.getItem(PREFERENCE_KEYS.FILTERS) || null;
-      } catch (e) {
-        console.error('Failed to get filters:', e);
-        return directStorage.getItem(PREFERENCE_KEYS.FILTERS);
-      }
+      return secureStorage.getItem(PREFERENCE_KEYS.FILTERS) || null;
+    },
+
+    // Save the list of named segments
+    saveSegments: (segments: SavedSegment[]) => {
+      secureStorage.setItem(PREFERENCE_KEYS.SEGMENTS, segments);
+    },
+
+    // Get named segments, or null if none were ever saved
+    getSegments: (): SavedSegment[] | null => {
+      const stored = secureStorage.getItem(PREFERENCE_KEYS.SEGMENTS);
+      return Array.isArray(stored) ? stored : null;
     },
     
     // Save UI theme preference
     saveTheme: (theme: 'light' | 'dark' | 'system') => {
-      try {
-        secureStorage.setItem(PREFERENCE_KEYS.THEME, theme);
-      } catch (e) {
-        directStorage.setItem(PREFERENCE_KEYS.THEME, theme);
-      }
+      secureStorage.setItem(PREFERENCE_KEYS.THEME, theme);
     },
     
     // Get saved theme preference
     getTheme: (): 'light' | 'dark' | 'system' => {
-      try {
-        return secureStorage.getItem(PREFERENCE_KEYS.THEME) || 'system';
-      } catch (e) {
-        return directStorage.getItem(PREFERENCE_KEYS.THEME) || 'system';
-      }
+      return secureStorage.getItem(PREFERENCE_KEYS.THEME) || 'system';
     },
     
     // Save view mode preference (list, grid, etc)
     saveViewMode: (mode: string) => {
-      try {
-        secureStorage.setItem(PREFERENCE_KEYS.VIEW_MODE, mode);
-      } catch (e) {
-        directStorage.setItem(PREFERENCE_KEYS.VIEW_MODE, mode);
-      }
+      secureStorage.setItem(PREFERENCE_KEYS.VIEW_MODE, mode);
     },
     
     // Get saved view mode
     getViewMode: () => {
-      try {
-        return secureStorage.getItem(PREFERENCE_KEYS.VIEW_MODE) || 'list';
-      } catch (e) {
-        return directStorage.getItem(PREFERENCE_KEYS.VIEW_MODE) || 'list';
-      }
+      return secureStorage.getItem(PREFERENCE_KEYS.VIEW_MODE) || 'list';
     },
     
     // Save last sync timestamp for particular data type
     saveLastSync: (dataType: string, timestamp: number) => {
-      try {
-        const currentSyncs = secureStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
-        secureStorage.setItem(PREFERENCE_KEYS.LAST_SYNC, {
-          ...currentSyncs,
-          [dataType]: timestamp
-        });
-      } catch (e) {
-        const currentSyncs = directStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
-        directStorage.setItem(PREFERENCE_KEYS.LAST_SYNC, {
-          ...currentSyncs,
-          [dataType]: timestamp
-        });
-      }
+      const currentSyncs = secureStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
+      secureStorage.setItem(PREFERENCE_KEYS.LAST_SYNC, {
+        ...currentSyncs,
+        [dataType]: timestamp
+      });
     },
     
     // Get last sync timestamp for data type
     getLastSync: (dataType: string) => {
-      try {
-        const syncs = secureStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
-        return syncs[dataType] || null;
-      } catch (e) {
-        const syncs = directStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
-        return syncs[dataType] || null;
+      const syncs = secureStorage.getItem(PREFERENCE_KEYS.LAST_SYNC) || {};
+      return syncs[dataType] || null;
+    },
+    
+    // Throw when stored preferences aren't in the shape this version reads,
+    // so the storage migration reports it instead of them being reset
+    check: () => {
+      const theme = secureStorage.getItem(PREFERENCE_KEYS.THEME);
+      const viewMode = secureStorage.getItem(PREFERENCE_KEYS.VIEW_MODE);
+      const filters = secureStorage.getItem(PREFERENCE_KEYS.FILTERS);
+      if (
+        (theme !== null && !['light', 'dark', 'system'].includes(theme)) ||
+        (viewMode !== null && typeof viewMode !== 'string') ||
+        (filters !== null && (typeof filters !== 'object' || Array.isArray(filters)))
+      ) {
+        throw new Error('The stored preferences are not in a format this version can read');
       }
     }
   },
   
+  // Decrypted copies of every item written through secureStorage, of every
+  // account, e.g. to re-encrypt them with another key. Items that can't be
+  // decrypted are left out. The keys are only meant for importItems.
+  exportItems: (): Record<string, unknown> => {
+    // Values in an older format are only cached once they have been migrated
+    getSecureKeys().forEach(key => {
+      if (!isEnvelope(localStorage.getItem(key) || '')) readItem(key);
+    });
+    
+    const items: Record<string, unknown> = {};
+    cache.forEach((value, key) => {
+      if (value !== null && value !== undefined) {
+        items[key] = value;
+      }
+    });
+    return items;
+  },
+  
+  importItems: (items: Record<string, unknown>) => {
+    Object.entries(items).forEach(([key, value]) => writeItem(key, value));
+  },
+  
+  // Drop writes that are still being encrypted and ignore any later ones, so
+  // nothing held in memory comes back after the device was erased
+  stopWrites: () => {
+    writesStopped = true;
+    writeVersions.forEach((version, key) => writeVersions.set(key, version + 1));
+    cache.clear();
+  },
+  
+  // Remove everything stored on this device
+  clearAll: () => {
+    secureStorage.stopWrites();
+    localStorage.clear();
+  },
+  
   // Clear all auth data for a fresh login
   clearAuthData: () => {
-    try {
-      localStorage.removeItem('user');
-      localStorage.removeItem('auth_tokens');
-      console.info('Cleared all auth data');
-    } catch (e) {
-      console.error('Failed to clear auth data:', e);
-    }
+    secureStorage.removeItem('user');
+    secureStorage.removeItem('auth_tokens');
+    console.info('Cleared all auth data');
   }
-};
\ No newline at end of file
+};
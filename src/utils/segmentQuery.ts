@@ -0,0 +1,468 @@
+import {
+  SegmentBuilderRow,
+  SegmentCompletion,
+  SegmentCompletions,
+  SegmentField,
+  SegmentNode,
+  SegmentParseResult,
+  SegmentSubject,
+  SegmentSyntaxError,
+  SegmentTerm
+} from '../types/segments';
+import { normalizeSearchText } from './searchText';
+
+// Segment queries combine field tests with AND, OR, NOT and parentheses:
+//
+//   label:Clients AND label:Italy AND NOT label:Former AND domain:acme.com
+//   (label:"VIP Clients" OR org.title:~director) -email:~@gmail.com
+//
+// Terms next to each other are ANDed, and -term is short for NOT term.
+
+export const SEGMENT_FIELDS: { field: SegmentField; description: string }[] = [
+  { field: 'label', description: 'Contact group' },
+  { field: 'name', description: 'Display name' },
+  { field: 'email', description: 'Any email address' },
+  { field: 'domain', description: 'Email domain, subdomains included' },
+  { field: 'org', description: 'Organization name, title or department' },
+  { field: 'org.name', description: 'Organization name' },
+  { field: 'org.title', description: 'Job title' },
+  { field: 'org.department', description: 'Department' }
+];
+
+const FIELD_NAMES = SEGMENT_FIELDS.map(({ field }) => field);
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+const MAX_COMPLETIONS = 8;
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'minus'; start: number; end: number }
+  | { kind: 'term'; field: string; match: SegmentTerm['match']; value: string; start: number; end: number; fieldEnd: number };
+
+class SegmentQueryError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+  }
+}
+
+const isBreak = (char: string) => /\s/.test(char) || char === '(' || char === ')';
+
+// Edit distance, to suggest the field that was probably meant
+const distance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const suggestField = (field: string): string | null => {
+  const [best] = FIELD_NAMES
+    .map(name => ({ name, score: distance(field.toLowerCase(), name) }))
+    .sort((a, b) => a.score - b.score);
+  return best && best.score <= 2 ? best.name : null;
+};
+
+// Read a "quoted value" starting at the opening quote; returns the value and
+// the index after the closing quote
+const readQuoted = (text: string, start: number): { value: string; end: number } => {
+  let value = '';
+  let i = start + 1;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      value += text[i + 1];
+      i += 2;
+    } else if (char === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+      i++;
+    }
+  }
+  throw new SegmentQueryError('This quote is never closed', start, text.length);
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === '-') {
+      tokens.push({ kind: 'minus', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const { end } = readQuoted(text, i);
+      throw new SegmentQueryError('Text needs a field in front of it, e.g. name:"Ada Lovelace"', i, end);
+    }
+
+    const start = i;
+    while (i < text.length && !isBreak(text[i]) && text[i] !== ':' && text[i] !== '"') {
+      i++;
+    }
+    const word = text.slice(start, i);
+
+    if (text[i] !== ':') {
+      const keyword = word.toUpperCase();
+      if (KEYWORDS.includes(keyword)) {
+        tokens.push({ kind: keyword.toLowerCase() as 'and' | 'or' | 'not', start, end: i });
+        continue;
+      }
+      throw new SegmentQueryError(
+        `"${word}" is not a condition. Write field:value, e.g. label:${word} or name:~${word}`,
+        start,
+        i
+      );
+    }
+
+    const fieldEnd = i;
+    i++;
+    let match: SegmentTerm['match'] = 'is';
+    if (text[i] === '~') {
+      match = 'contains';
+      i++;
+    }
+
+    let value: string;
+    if (text[i] === '"') {
+      const quoted = readQuoted(text, i);
+      value = quoted.value;
+      i = quoted.end;
+    } else {
+      const valueStart = i;
+      while (i < text.length && !isBreak(text[i])) {
+        i++;
+      }
+      value = text.slice(valueStart, i);
+    }
+
+    tokens.push({ kind: 'term', field: word, match, value, start, end: i, fieldEnd });
+  }
+
+  return tokens;
+};
+
+const describeToken = (token: Token | undefined): string => {
+  if (!token) return 'the end of the query';
+  switch (token.kind) {
+    case 'lparen': return '"("';
+    case 'rparen': return '")"';
+    case 'minus': return '"-"';
+    case 'term': return 'a condition';
+    default: return token.kind.toUpperCase();
+  }
+};
+
+// Recursive descent over the tokens: OR binds loosest, then AND, then NOT
+const parseTokens = (tokens: Token[], textLength: number): SegmentNode => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const startsOperand = (token: Token | undefined) => {
+    return Boolean(token) && (token!.kind === 'term' || token!.kind === 'lparen' || token!.kind === 'not' || token!.kind === 'minus');
+  };
+
+  const combine = (type: 'and' | 'or', nodes: SegmentNode[]): SegmentNode => {
+    if (nodes.length === 1) return nodes[0];
+    // Flatten a AND (b AND c) into one list
+    const children = nodes.flatMap(node => (node.type === type ? node.children : [node]));
+    return { type, children };
+  };
+
+  const parseOperand = (operator: Token | null): SegmentNode => {
+    const token = peek();
+    if (!startsOperand(token)) {
+      if (operator) {
+        const name = operator.kind === 'minus' ? '"-"' : operator.kind.toUpperCase();
+        throw new SegmentQueryError(`${name} needs a condition after it`, operator.start, operator.end);
+      }
+      const at = token || { start: textLength, end: textLength };
+      throw new SegmentQueryError(`Expected a condition, found ${describeToken(token)}`, at.start, at.end);
+    }
+    return parseNot();
+  };
+
+  const parseOr = (): SegmentNode => {
+    const nodes = [parseAnd(null)];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[position++];
+      nodes.push(parseAnd(operator));
+    }
+    return combine('or', nodes);
+  };
+
+  const parseAnd = (operator: Token | null): SegmentNode => {
+    const nodes = [parseOperand(operator)];
+    for (;;) {
+      const token = peek();
+      if (token?.kind === 'and') {
+        position++;
+        nodes.push(parseOperand(token));
+      } else if (startsOperand(token)) {
+        nodes.push(parseNot());
+      } else {
+        break;
+      }
+    }
+    return combine('and', nodes);
+  };
+
+  const parseNot = (): SegmentNode => {
+    const token = peek();
+    if (token?.kind === 'not' || token?.kind === 'minus') {
+      position++;
+      return { type: 'not', child: parseOperand(token) };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): SegmentNode => {
+    const token = tokens[position++];
+    if (token.kind === 'lparen') {
+      if (peek()?.kind === 'rparen') {
+        throw new SegmentQueryError('These parentheses are empty', token.start, peek()!.end);
+      }
+      const node = parseOr();
+      const closing = peek();
+      if (closing?.kind !== 'rparen') {
+        throw new SegmentQueryError('This "(" is never closed', token.start, token.end);
+      }
+      position++;
+      return node;
+    }
+    if (token.kind !== 'term') {
+      throw new SegmentQueryError(`Expected a condition, found ${describeToken(token)}`, token.start, token.end);
+    }
+
+    const field = token.field.toLowerCase();
+    if (!FIELD_NAMES.includes(field as SegmentField)) {
+      const suggestion = suggestField(token.field);
+      throw new SegmentQueryError(
+        suggestion
+          ? `Unknown field "${token.field}". Did you mean ${suggestion}?`
+          : `Unknown field "${token.field}". Use one of: ${FIELD_NAMES.join(', ')}`,
+        token.start,
+        token.fieldEnd
+      );
+    }
+    if (!token.value) {
+      throw new SegmentQueryError(`${field}: needs a value, e.g. ${field}:"some text"`, token.start, token.end);
+    }
+    return { type: 'term', field: field as SegmentField, match: token.match, value: token.value };
+  };
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest) {
+    const message = rest.kind === 'rparen'
+      ? 'This ")" has no matching "("'
+      : rest.kind === 'and' || rest.kind === 'or'
+        ? `${rest.kind.toUpperCase()} needs a condition before it`
+        : `Unexpected ${describeToken(rest)}`;
+    throw new SegmentQueryError(message, rest.start, rest.end);
+  }
+  return node;
+};
+
+export const parseSegmentQuery = (text: string): SegmentParseResult => {
+  if (!text.trim()) {
+    return { ok: true, query: null };
+  }
+
+  try {
+    const tokens = tokenize(text);
+    if (tokens[0]?.kind === 'and' || tokens[0]?.kind === 'or') {
+      throw new SegmentQueryError(`${tokens[0].kind.toUpperCase()} needs a condition before it`, tokens[0].start, tokens[0].end);
+    }
+    return { ok: true, query: parseTokens(tokens, text.length) };
+  } catch (error) {
+    if (error instanceof SegmentQueryError) {
+      const syntaxError: SegmentSyntaxError = { message: error.message, start: error.start, end: error.end };
+      return { ok: false, error: syntaxError };
+    }
+    throw error;
+  }
+};
+
+// A leading ~ would be read back as a contains match, so it is quoted too
+const quoteValue = (value: string): string => {
+  return /^[^\s()"~][^\s()"]*$/.test(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+};
+
+export const formatSegmentTerm = (term: SegmentTerm): string => {
+  return `${term.field}:${term.match === 'contains' ? '~' : ''}${quoteValue(term.value)}`;
+};
+
+const PRECEDENCE: Record<SegmentNode['type'], number> = { or: 1, and: 2, not: 3, term: 4 };
+
+// Canonical text for a query; parsing it gives the same query back
+export const formatSegmentQuery = (node: SegmentNode | null, parentPrecedence = 0): string => {
+  if (!node) return '';
+
+  let text: string;
+  switch (node.type) {
+    case 'term':
+      return formatSegmentTerm(node);
+    case 'not':
+      text = `NOT ${formatSegmentQuery(node.child, PRECEDENCE.not)}`;
+      break;
+    default:
+      text = node.children
+        .map(child => formatSegmentQuery(child, PRECEDENCE[node.type] + 1))
+        .join(node.type === 'and' ? ' AND ' : ' OR ');
+  }
+  return PRECEDENCE[node.type] < parentPrecedence ? `(${text})` : text;
+};
+
+// Case and accents are ignored, as in the contact search
+const compare = (actual: string, term: SegmentTerm): boolean => {
+  const value = normalizeSearchText(term.value);
+  const candidate = normalizeSearchText(actual);
+  return term.match === 'contains' ? candidate.includes(value) : candidate === value;
+};
+
+const matchesTerm = (term: SegmentTerm, subject: SegmentSubject): boolean => {
+  const organization = subject.organization;
+  switch (term.field) {
+    case 'label':
+      return subject.labels.some(label => compare(label, term));
+    case 'name':
+      return compare(subject.name, term);
+    case 'email':
+      return subject.emails.some(email => compare(email, term));
+    case 'domain':
+      return subject.emails.some(email => {
+        const domain = normalizeSearchText(email.slice(email.lastIndexOf('@') + 1));
+        const value = normalizeSearchText(term.value);
+        return term.match === 'contains' ? domain.includes(value) : domain === value || domain.endsWith(`.${value}`);
+      });
+    case 'org':
+      return Boolean(organization) && [organization!.name, organization!.title, organization!.department]
+        .some(part => compare(part, term));
+    case 'org.name':
+      return Boolean(organization) && compare(organization!.name, term);
+    case 'org.title':
+      return Boolean(organization) && compare(organization!.title, term);
+    case 'org.department':
+      return Boolean(organization) && compare(organization!.department, term);
+  }
+};
+
+export const matchesSegment = (node: SegmentNode, subject: SegmentSubject): boolean => {
+  switch (node.type) {
+    case 'term':
+      return matchesTerm(node, subject);
+    case 'not':
+      return !matchesSegment(node.child, subject);
+    case 'and':
+      return node.children.every(child => matchesSegment(child, subject));
+    case 'or':
+      return node.children.some(child => matchesSegment(child, subject));
+  }
+};
+
+const isTerm = (node: SegmentNode): node is SegmentTerm => node.type === 'term';
+
+const toBuilderRow = (node: SegmentNode): SegmentBuilderRow | null => {
+  const negate = node.type === 'not';
+  const inner = node.type === 'not' ? node.child : node;
+  if (isTerm(inner)) {
+    return { negate, terms: [inner] };
+  }
+  if (inner.type === 'or' && inner.children.every(isTerm)) {
+    return { negate, terms: inner.children as SegmentTerm[] };
+  }
+  return null;
+};
+
+// Rows for the visual builder, or null when the query nests deeper than
+// the builder can show
+export const toBuilderRows = (node: SegmentNode | null): SegmentBuilderRow[] | null => {
+  if (!node) return [];
+  const rows = (node.type === 'and' ? node.children : [node]).map(toBuilderRow);
+  return rows.every(Boolean) ? rows as SegmentBuilderRow[] : null;
+};
+
+// Rows and terms still missing a value are left out
+export const fromBuilderRows = (rows: SegmentBuilderRow[]): SegmentNode | null => {
+  const nodes = rows
+    .map(row => ({ ...row, terms: row.terms.filter(term => term.value.trim()) }))
+    .filter(row => row.terms.length > 0)
+    .map((row): SegmentNode => {
+      const node: SegmentNode = row.terms.length === 1 ? row.terms[0] : { type: 'or', children: row.terms };
+      return row.negate ? { type: 'not', child: node } : node;
+    });
+
+  if (nodes.length === 0) return null;
+  return nodes.length === 1 ? nodes[0] : { type: 'and', children: nodes };
+};
+
+// Suggestions for the word at the cursor: field names, keywords, and label
+// names after `label:`
+export const getSegmentCompletions = (text: string, cursor: number, labels: string[]): SegmentCompletions => {
+  // Find where the word at the cursor starts, skipping over quoted values
+  let from = 0;
+  let inQuotes = false;
+  for (let i = 0; i < cursor; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== '\\') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && isBreak(char)) {
+      from = i + 1;
+    }
+  }
+  if (text[from] === '-') {
+    from++;
+  }
+
+  let to = cursor;
+  while (to < text.length && !isBreak(text[to])) {
+    to++;
+  }
+
+  const word = text.slice(from, cursor);
+  const colon = word.indexOf(':');
+  let options: SegmentCompletion[];
+
+  if (colon === -1) {
+    const prefix = word.toLowerCase();
+    options = [
+      ...SEGMENT_FIELDS
+        .filter(({ field }) => field.startsWith(prefix))
+        .map(({ field, description }) => ({ label: `${field}:`, insert: `${field}:`, detail: description })),
+      ...(prefix ? KEYWORDS.filter(keyword => keyword.toLowerCase().startsWith(prefix)) : [])
+        .map(keyword => ({ label: keyword, insert: `${keyword} ` }))
+    ];
+  } else if (word.slice(0, colon).toLowerCase() === 'label') {
+    const contains = word[colon + 1] === '~';
+    const typed = word.slice(colon + (contains ? 2 : 1)).replace(/^"/, '').replace(/"$/, '').toLowerCase();
+    const matching = labels.filter(label => label.toLowerCase().includes(typed));
+    // Labels starting with what was typed come first
+    matching.sort((a, b) => Number(!a.toLowerCase().startsWith(typed)) - Number(!b.toLowerCase().startsWith(typed)));
+    options = matching.map(label => ({
+      label,
+      insert: `${formatSegmentTerm({ type: 'term', field: 'label', match: contains ? 'contains' : 'is', value: label })} `,
+      detail: 'Contact group'
+    }));
+  } else {
+    options = [];
+  }
+
+  return { from, to, options: options.slice(0, MAX_COMPLETIONS) };
+};
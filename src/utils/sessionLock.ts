@@ -0,0 +1,63 @@
+import { secureStorage } from './secureStorage';
+import { SessionLockState } from '../types/auth';
+
+// Shared between accounts, see SHARED_KEYS in secureStorage
+const STORAGE_KEY_SESSION_LOCK = 'session_lock';
+
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+export const IDLE_TIMEOUT_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' }
+];
+
+export const WRONG_ACCOUNT_UNLOCK_ERROR = 'The app is locked for another account. Sign in as that account to unlock it.';
+
+// Activity in this tab or any other open one; a reload counts as activity
+let lastActivityAt = Date.now();
+
+const getState = (): SessionLockState => {
+  const stored = secureStorage.getItem(STORAGE_KEY_SESSION_LOCK) as SessionLockState | null;
+  return stored || { timeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES };
+};
+
+const saveState = (state: SessionLockState) => {
+  secureStorage.setItem(STORAGE_KEY_SESSION_LOCK, state);
+};
+
+// The lock is stored, so reloading the page doesn't get past it
+export const sessionLock = {
+  getTimeoutMinutes: (): number => getState().timeoutMinutes,
+
+  setTimeoutMinutes: (minutes: number) => {
+    saveState({ ...getState(), timeoutMinutes: minutes });
+  },
+
+  isLocked: (): boolean => Boolean(getState().locked),
+
+  // The account that has to sign in again to unlock
+  getLockedAccountId: (): string | null => getState().locked?.accountId ?? null,
+
+  lock: (accountId: string) => {
+    saveState({ ...getState(), locked: { accountId, at: Date.now() } });
+  },
+
+  unlock: () => {
+    const state = { ...getState() };
+    delete state.locked;
+    saveState(state);
+    lastActivityAt = Date.now();
+  },
+
+  recordActivity: (at = Date.now()) => {
+    lastActivityAt = Math.max(lastActivityAt, at);
+  },
+
+  isIdle: (): boolean => {
+    const { timeoutMinutes } = getState();
+    return timeoutMinutes > 0 && Date.now() - lastActivityAt >= timeoutMinutes * 60 * 1000;
+  }
+};
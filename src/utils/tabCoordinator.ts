@@ -0,0 +1,83 @@
+import { TabMessage, TabRole } from '../types/tabs';
+
+// Open tabs of the app talk over one BroadcastChannel. Work that must only
+// run once (the session check, contacts sync, the send queue) belongs to the
+// tab holding the matching Web Lock; when that tab closes or gives the role
+// up, the browser hands the lock to the next tab waiting for it.
+const CHANNEL_NAME = 'gbroadcast';
+const LOCK_PREFIX = 'gbroadcast:';
+
+type TabMessageListener = (message: TabMessage) => void;
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<TabMessageListener>();
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel;
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    listeners.forEach(listener => {
+      try {
+        listener(event.data);
+      } catch (error) {
+        console.error('Error handling message from another tab:', error);
+      }
+    });
+  };
+  return channel;
+};
+
+export const tabCoordinator = {
+  // Wait to own a role; onChange(true) runs once this tab does. The returned
+  // function gives the role up (or stops waiting for it).
+  claimRole: (role: TabRole, onChange: (isOwner: boolean) => void): (() => void) => {
+    // Without Web Locks there is no way to coordinate; every tab does the
+    // work itself, as before
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      onChange(true);
+      return () => onChange(false);
+    }
+
+    const controller = new AbortController();
+    let releaseLock: (() => void) | null = null;
+    let released = false;
+
+    navigator.locks.request(`${LOCK_PREFIX}${role}`, { signal: controller.signal }, () => {
+      if (released) return undefined;
+
+      console.log(`This tab now owns ${role}`);
+      onChange(true);
+      // Hold the lock until the role is given up
+      return new Promise<void>(resolve => {
+        releaseLock = resolve;
+      });
+    }).catch(error => {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error(`Error waiting for the ${role} lock:`, error);
+      }
+    });
+
+    return () => {
+      released = true;
+      if (releaseLock) {
+        releaseLock();
+        onChange(false);
+      } else {
+        controller.abort();
+      }
+    };
+  },
+
+  post: (message: TabMessage) => {
+    getChannel()?.postMessage(message);
+  },
+
+  subscribe: (listener: TabMessageListener): (() => void) => {
+    getChannel();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
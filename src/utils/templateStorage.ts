@@ -0,0 +1,33 @@
+import { secureStorage } from './secureStorage';
+import { MessageTemplate } from '../types/templates';
+
+const STORAGE_KEY_TEMPLATES = 'message_templates';
+
+export const loadTemplates = (): MessageTemplate[] => {
+  try {
+    const stored = secureStorage.getItem(STORAGE_KEY_TEMPLATES) as MessageTemplate[] | null;
+    return Array.isArray(stored) ? stored : [];
+  } catch (error) {
+    console.error('Error loading templates:', error);
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: MessageTemplate[]): void => {
+  secureStorage.setItem(STORAGE_KEY_TEMPLATES, templates);
+};
+
+// Throw when the stored templates aren't in the shape this version reads, so
+// the storage migration reports it instead of them being dropped
+export const checkStoredTemplates = (): void => {
+  const stored = secureStorage.getItem(STORAGE_KEY_TEMPLATES) as MessageTemplate[] | null;
+  const isTemplate = (template: MessageTemplate) => (
+    typeof template?.id === 'string' &&
+    typeof template.subject === 'string' &&
+    typeof template.body === 'string' &&
+    Array.isArray(template.history)
+  );
+  if (stored && (!Array.isArray(stored) || !stored.every(isTemplate))) {
+    throw new Error('The stored templates are not in a format this version can read');
+  }
+};
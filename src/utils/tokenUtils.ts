@@ -1,10 +1,18 @@
 import { jwtDecode } from 'jwt-decode';
 import { secureStorage } from './secureStorage';
+import { getMissingScopes } from './oauthScopes';
+import { revokeGoogleToken, revokeTokenServiceSession } from './authCodeFlow';
+import { getAppConfig } from './appConfig';
+import { GoogleScope, LoginTokenDetails } from '../types/auth';
 
 interface TokenData {
   token: string;
+  // In the authorization-code mode: the token service's handle for the
+  // refresh token, which never reaches the browser itself
   refreshToken?: string;
   expiresAt: number; // Timestamp when token expires
+  // Scope URLs Google granted; missing on tokens stored before they were recorded
+  scopes?: string[];
 }
 
 interface DecodedToken {
@@ -31,15 +39,18 @@ export const getTokenExpiration = (token: string): number => {
   return Date.now() + 3600 * 1000;
 };
 
-// Store tokens securely
-export const storeTokens = (token: string, refreshToken?: string): void => {
+// Store tokens securely. expiresIn (seconds) comes from the token response
+// when there is one; otherwise the expiry is read from the token.
+export const storeTokens = (token: string, details: LoginTokenDetails = {}): void => {
+  const { refreshToken, expiresIn, scopes } = details;
   try {
-    const expiresAt = getTokenExpiration(token);
+    const expiresAt = expiresIn ? Date.now() + expiresIn * 1000 : getTokenExpiration(token);
     
     const tokenData: TokenData = {
       token,
       refreshToken,
-      expiresAt
+      expiresAt,
+      scopes
     };
     
     // Store in secure storage
@@ -52,7 +63,9 @@ export const storeTokens = (token: string, refreshToken?: string): void => {
     try {
       const simpleTokenData: TokenData = {
         token,
-        expiresAt: Date.now() + 3600 * 1000
+        refreshToken,
+        expiresAt: Date.now() + 3600 * 1000,
+        scopes
       };
       secureStorage.setItem('auth_tokens', simpleTokenData);
     } catch (fallbackError) {
@@ -75,6 +88,15 @@ export const getStoredTokens = (): TokenData | null => {
   }
 };
 
+// Scopes granted with the stored token
+export const getGrantedScopes = (): string[] | undefined => {
+  return getStoredTokens()?.scopes;
+};
+
+export const hasGrantedScopes = (scopes: GoogleScope[]): boolean => {
+  return getStoredTokens() !== null && getMissingScopes(getGrantedScopes(), scopes).length === 0;
+};
+
 // Check if token is expired or will expire soon (within 5 minutes)
 export const isTokenExpired = (tokenData?: TokenData): boolean => {
   try {
@@ -99,6 +121,20 @@ export const isTokenExpired = (tokenData?: TokenData): boolean => {
   }
 };
 
+// Make the stored tokens useless before forgetting them: the token service
+// revokes the refresh token it holds, otherwise the access token is revoked
+// at Google directly
+export const revokeStoredTokens = async (): Promise<void> => {
+  const tokenData = getStoredTokens();
+  if (!tokenData) return;
+
+  if (getAppConfig().authMode === 'code' && tokenData.refreshToken) {
+    await revokeTokenServiceSession(tokenData.refreshToken);
+  } else {
+    await revokeGoogleToken(tokenData.token);
+  }
+};
+
 // Remove stored tokens
 export const clearTokens = (): void => {
   try {
@@ -0,0 +1,150 @@
+import { sealEnvelope, openEnvelope, bytesToBase64, base64ToBytes } from './envelope';
+
+// Vault settings are stored in the clear: they hold only the salt and a
+// verifier, and they are needed before anything can be decrypted
+const STORAGE_KEY_VAULT = 'vault_config';
+const PBKDF2_ITERATIONS = 600000;
+const VERIFIER_TEXT = 'gbroadcast-vault';
+
+// Everything, including the verifier, is stored in AES-GCM envelopes
+const CONFIG_VERSION = 1;
+
+export const VAULT_LOCKED_ERROR = 'The vault is locked';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Fired on window when the in-memory key is dropped
+export const VAULT_LOCKED_EVENT = 'gbroadcast:vault-locked';
+
+export interface VaultConfig {
+  version: number;
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+export interface VaultKey {
+  config: VaultConfig;
+  key: CryptoKey;
+}
+
+// The derived key only ever lives in memory; a reload locks the vault again
+let vaultKey: VaultKey | null = null;
+let cachedConfig: VaultConfig | null | undefined;
+
+const loadConfig = (): VaultConfig | null => {
+  if (cachedConfig !== undefined) return cachedConfig;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_VAULT);
+    cachedConfig = stored ? JSON.parse(stored) as VaultConfig : null;
+  } catch (error) {
+    console.error('Error reading vault settings:', error);
+    cachedConfig = null;
+  }
+  return cachedConfig;
+};
+
+// Stretch the passphrase with PBKDF2-SHA256 in WebCrypto
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    256
+  );
+
+  return crypto.subtle.importKey('raw', bits, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+const checkVerifier = async (config: VaultConfig, key: CryptoKey): Promise<boolean> => {
+  try {
+    return await openEnvelope(config.verifier, key) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+export const vault = {
+  isEnabled: (): boolean => loadConfig() !== null,
+
+  isUnlocked: (): boolean => vaultKey !== null,
+
+  // Check the passphrase against the stored verifier and keep the key in memory
+  unlock: async (passphrase: string): Promise<boolean> => {
+    const config = loadConfig();
+    if (!config) return false;
+
+    const key = await deriveKey(passphrase, base64ToBytes(config.salt), config.iterations);
+    if (!(await checkVerifier(config, key))) {
+      return false;
+    }
+
+    vaultKey = { config, key };
+    return true;
+  },
+
+  lock: () => {
+    if (!vaultKey) return;
+    vaultKey = null;
+    window.dispatchEvent(new Event(VAULT_LOCKED_EVENT));
+  },
+
+  // Derive a key for a new passphrase without switching to it yet
+  createKey: async (passphrase: string): Promise<VaultKey> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return {
+      key,
+      config: {
+        version: CONFIG_VERSION,
+        salt: bytesToBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await sealEnvelope(VERIFIER_TEXT, key, 'vault')
+      }
+    };
+  },
+
+  // Seal new envelopes with a new key, or with the default browser key when
+  // given null. Only this tab uses it until saveConfig stores the settings.
+  activate: (next: VaultKey | null) => {
+    cachedConfig = next ? next.config : null;
+    vaultKey = next;
+  },
+
+  saveConfig: () => {
+    const config = loadConfig();
+    if (config) {
+      localStorage.setItem(STORAGE_KEY_VAULT, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(STORAGE_KEY_VAULT);
+    }
+  },
+
+  // Read the settings again after another tab changed them. The key for the
+  // old settings is dropped, which locks this tab. Returns whether they changed.
+  reloadConfig: (): boolean => {
+    const previous = cachedConfig;
+    cachedConfig = undefined;
+    if (loadConfig()?.verifier === previous?.verifier) {
+      return false;
+    }
+
+    vaultKey = null;
+    window.dispatchEvent(new Event(VAULT_LOCKED_EVENT));
+    return true;
+  },
+
+  // The key new envelopes are sealed with; throws while the vault is locked
+  getKey: (): CryptoKey => {
+    if (!vaultKey) {
+      throw new Error(VAULT_LOCKED_ERROR);
+    }
+    return vaultKey.key;
+  }
+};
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Only read in development, when there is no public/config.json
+  readonly VITE_GOOGLE_CLIENT_ID: string;
+  // 'code' logs in with the authorization-code flow through the token service
+  readonly VITE_AUTH_MODE?: 'implicit' | 'code';
+  readonly VITE_TOKEN_SERVICE_URL?: string;
+}
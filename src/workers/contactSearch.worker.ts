@@ -0,0 +1,31 @@
+import { createSearchIndex, searchContacts, ContactSearchIndex } from '../utils/contactSearch';
+import { findSegmentMembers } from '../utils/segmentFilters';
+import { SearchWorkerRequest, SearchWorkerResponse } from '../types/search';
+
+// Keeps the contact search index, and working out who is in each saved
+// segment, off the main thread. Messages are handled in order, so a search
+// always sees the index posted before it.
+let index: ContactSearchIndex = createSearchIndex([]);
+
+const respond = (response: SearchWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'index':
+      index = createSearchIndex(request.documents);
+      respond({ type: 'indexed', size: index.entries.length });
+      break;
+    case 'search':
+      respond({ type: 'results', requestId: request.requestId, results: searchContacts(index, request.filters) });
+      break;
+    case 'segments': {
+      const documents = index.entries.map(entry => entry.document);
+      respond({ type: 'segments', requestId: request.requestId, members: findSegmentMembers(documents, request.segments) });
+      break;
+    }
+  }
+};